@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Player database admin page
+ * Uploads `ipl_players.csv` or a custom player list, shows what will change and any rejected rows,
+ * then imports the valid rows into `players`
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { formatMoney } from '@/lib/money';
+import { REQUIRED_PLAYER_COLUMNS, OPTIONAL_PLAYER_COLUMNS } from '@/lib/playerImport';
+import type { PlayerImportError, PlayerImportRow } from '@/lib/playerImport';
+import { AlertTriangle, ArrowLeft, Check, FileUp, Trophy, Upload } from 'lucide-react';
+
+/**
+ * Response from `POST /api/players/import`
+ */
+interface ImportResult {
+  ok: boolean;
+  dryRun: boolean;
+  total: number;
+  inserted: number;
+  updated: number;
+  errors: PlayerImportError[];
+  players: PlayerImportRow[];
+}
+
+/** Rows shown in the preview table */
+const PREVIEW_ROWS = 25;
+
+/**
+ * PlayerImportPage checks a CSV on the server first, then imports it once the admin confirms
+ *
+ * @returns JSX element containing the import interface
+ */
+export default function PlayerImportPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [headerErrors, setHeaderErrors] = useState<PlayerImportError[]>([]);
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) {
+        router.push('/auth');
+        return;
+      }
+      setLoading(false);
+    };
+
+    checkAuth();
+  }, [router]);
+
+  const handleFile = async (file: File | undefined) => {
+    setResult(null);
+    setError(null);
+    setHeaderErrors([]);
+    if (!file) return;
+
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setBusy(true);
+    setError(null);
+    setHeaderErrors([]);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      const response = await fetch('/api/players/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ csv, dryRun })
+      });
+
+      const body = await response.json();
+      if (!response.ok || !body.ok) {
+        setResult(null);
+        setHeaderErrors(body.errors || []);
+        throw new Error(body.error || 'Import failed');
+      }
+
+      setResult(body as ImportResult);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="loading">
+        <div className="spinner"></div>
+        <p style={{ color: 'var(--text-muted)' }}>Loading...</p>
+      </div>
+    );
+  }
+
+  const errors = result?.errors || headerErrors;
+
+  return (
+    <div>
+      {/* Navigation */}
+      <nav className="nav">
+        <div className="container">
+          <div className="nav-content">
+            <a href="/dashboard" className="nav-brand">
+              <Trophy className="w-6 h-6" />
+              <span>CrickRush</span>
+            </a>
+            <button onClick={() => router.push('/dashboard')} className="btn btn-secondary btn-sm">
+              <ArrowLeft className="w-4 h-4" />
+              Dashboard
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <main className="container section fade-in">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">Player Database</h1>
+          <p className="text-xl" style={{ color: 'var(--text-muted)' }}>
+            Import ipl_players.csv or your own player list
+          </p>
+        </div>
+
+        <div className="card card-lg max-w-3xl mx-auto space-y-6">
+          <div>
+            <div className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              Required columns: {REQUIRED_PLAYER_COLUMNS.join(', ')} • Optional: {OPTIONAL_PLAYER_COLUMNS.join(', ')}
+            </div>
+            <div className="text-xs mt-1" style={{ color: 'var(--text-disabled)' }}>
+              Base prices without a unit are read as rupees; &quot;50L&quot; and &quot;2Cr&quot; also work. Rows without an id update the player with the same name.
+            </div>
+          </div>
+
+          <label className="form-label cursor-pointer border border-dashed border-gray-600 rounded-lg p-6 justify-center">
+            <FileUp className="w-5 h-5" />
+            {fileName || 'Choose a CSV file'}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+
+          <div className="flex gap-3 justify-center">
+            <button onClick={() => submit(true)} disabled={!csv || busy} className="btn btn-secondary">
+              <Check className="w-4 h-4" />
+              Check File
+            </button>
+            <button
+              onClick={() => submit(false)}
+              disabled={!result?.dryRun || result.total === 0 || busy}
+              className="btn btn-primary"
+            >
+              <Upload className="w-4 h-4" />
+              {busy ? 'Working...' : `Import ${result?.total ?? 0} Players`}
+            </button>
+          </div>
+
+          {error && (
+            <div className="alert alert-warning">
+              <AlertTriangle className="w-5 h-5" />
+              <div>{error}</div>
+            </div>
+          )}
+
+          {result && (
+            <div className="grid grid-3 gap-4 text-center">
+              <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
+                <div className="text-lg font-bold text-green-400">{result.inserted}</div>
+                <div className="text-xs text-green-300">{result.dryRun ? 'New' : 'Added'}</div>
+              </div>
+              <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
+                <div className="text-lg font-bold text-blue-400">{result.updated}</div>
+                <div className="text-xs text-blue-300">{result.dryRun ? 'Will update' : 'Updated'}</div>
+              </div>
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+                <div className="text-lg font-bold text-red-400">{result.errors.length}</div>
+                <div className="text-xs text-red-300">Rejected rows</div>
+              </div>
+            </div>
+          )}
+
+          {result && !result.dryRun && (
+            <p className="text-center text-green-400 font-semibold">Import complete</p>
+          )}
+
+          {errors.length > 0 && (
+            <div>
+              <h3 className="text-lg font-bold mb-2 text-red-400">Problems</h3>
+              <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+                {errors.map((rowError, index) => (
+                  <div key={index} className="flex gap-3 bg-red-500/5 border border-red-500/20 rounded px-3 py-1">
+                    <span className="text-gray-400 w-16">Line {rowError.line}</span>
+                    {rowError.column && <span className="text-red-300 w-24">{rowError.column}</span>}
+                    <span className="flex-1 text-gray-300">{rowError.message}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {result && result.players.length > 0 && (
+            <div>
+              <h3 className="text-lg font-bold mb-2">Preview</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400">
+                      <th className="py-1">Name</th>
+                      <th>Role</th>
+                      <th>Country</th>
+                      <th className="text-right">Base Price</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.players.slice(0, PREVIEW_ROWS).map(player => (
+                      <tr key={player.line} className="border-t border-gray-700/40">
+                        <td className="py-1">
+                          {player.name}
+                          {player.is_overseas && <span className="text-xs text-purple-400"> • Overseas</span>}
+                        </td>
+                        <td className="text-gray-300">{player.role}</td>
+                        <td className="text-gray-300">{player.country || '-'}</td>
+                        <td className="text-right text-yellow-400">{formatMoney(player.base_price)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.players.length > PREVIEW_ROWS && (
+                  <p className="text-xs mt-2" style={{ color: 'var(--text-muted)' }}>
+                    and {result.players.length - PREVIEW_ROWS} more
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { advanceAuction, resolveAutoBids } from '@/lib/auctionServer';
+
+/**
+ * Settles the current player once the clock has run out, or brings up the next
+ * player once the post-sale delay is over (rooms with auto-advance only)
+ * Safe to call from every client - only the first call for each step does anything
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await advanceAuction({ roomId, userId: user.id });
+
+    // The bots and proxy ceilings get their say on the player just brought up
+    if (result.action === 'next') {
+      try {
+        await resolveAutoBids({ roomId, playerId: result.playerId });
+      } catch (error) {
+        console.error('Error resolving auto-bids:', error);
+      }
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in advance API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { setAutoBid } from '@/lib/auctionServer';
+
+/**
+ * Sets or clears the caller's auto-bid ceiling on the current player
+ * Body: `{ playerId: string, maxAmount: number | null }` (in lakhs; null clears the ceiling)
+ * Returns the stored ceiling and any auto-bids it placed, or `{ ok: false, code, message }` with status 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { playerId, maxAmount } = await request.json();
+
+    if (!playerId || (maxAmount !== null && (typeof maxAmount !== 'number' || !Number.isFinite(maxAmount) || maxAmount <= 0))) {
+      return NextResponse.json(
+        { error: 'A player ID and a positive ceiling (or null to clear it) are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await setAutoBid({ roomId, userId: user.id, playerId, maxAmount });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_participant' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in auto-bid API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { placeBid, resolveAutoBids } from '@/lib/auctionServer';
+
+/**
+ * Places a bid on the current player, then lets rival teams' auto-bid ceilings answer it
+ * Body: `{ playerId: string, amount: number }` (amount in lakhs)
+ * Returns the accepted bid, or `{ accepted: false, code, message }` with status 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { playerId, amount } = await request.json();
+
+    if (!playerId || typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { error: 'A player ID and a positive bid amount are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await placeBid({ roomId, userId: user.id, playerId, amount });
+
+    if (!result.accepted) {
+      return NextResponse.json(result, { status: result.code === 'not_participant' ? 403 : 409 });
+    }
+
+    // The bid stands even if answering it fails
+    try {
+      await resolveAutoBids({ roomId, playerId });
+    } catch (error) {
+      console.error('Error resolving auto-bids:', error);
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in bid API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
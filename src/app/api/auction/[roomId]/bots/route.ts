@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { addBots, removeBot } from '@/lib/auctionServer';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+import type { BotPersonality } from '@/types/auction';
+
+const BOT_ACTIONS = ['add', 'remove'] as const;
+
+/**
+ * Manages the room's bot franchises (auctioneer only)
+ * Body:
+ * - `{ action: 'add', personality: 'aggressive' | 'balanced' | 'value_hunter', count?: number }` fills empty franchises
+ * - `{ action: 'remove', participantId: string }` takes a bot out before the auction starts
+ * Returns the room's bots; the server places their bids itself (see `resolveAutoBids`). Refusals come back as `{ ok: false, code, message }` with status 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { action, personality, count, participantId } = await request.json();
+
+    if (!BOT_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${BOT_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'add' && !Object.keys(BOT_PERSONALITIES).includes(personality)) {
+      return NextResponse.json(
+        { error: `Personality must be one of: ${Object.keys(BOT_PERSONALITIES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'add' && count !== undefined && (!Number.isInteger(count) || count <= 0)) {
+      return NextResponse.json(
+        { error: 'Count must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'remove' && !participantId) {
+      return NextResponse.json(
+        { error: 'A participant ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = action === 'add'
+      ? await addBots({ roomId, userId: user.id, personality: personality as BotPersonality, count })
+      : await removeBot({ roomId, userId: user.id, participantId });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_auctioneer' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in bots API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { acceptCoOwnerInvite, createCoOwnerInvite, removeCoOwner } from '@/lib/auctionServer';
+
+const CO_OWNER_ACTIONS = ['invite', 'accept', 'remove'] as const;
+
+/**
+ * Manages a franchise's co-owners
+ * Body:
+ * - `{ action: 'invite' }` creates a new invite code for the caller's franchise (primary owner only)
+ * - `{ action: 'accept', code: string }` joins the caller to the franchise the code belongs to
+ * - `{ action: 'remove', userId: string }` takes a co-owner off the caller's franchise (primary owner only)
+ * Returns the team (and, for invites, the code); refusals come back as `{ ok: false, code, message }` with status 403 or 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { action, code, userId } = await request.json();
+
+    if (!CO_OWNER_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${CO_OWNER_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'accept' && (typeof code !== 'string' || !code)) {
+      return NextResponse.json(
+        { error: 'An invite code is required' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'remove' && (typeof userId !== 'string' || !userId)) {
+      return NextResponse.json(
+        { error: 'The co-owner\'s user ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = action === 'invite'
+      ? await createCoOwnerInvite({ roomId, userId: user.id })
+      : action === 'accept'
+      ? await acceptCoOwnerInvite({ roomId, userId: user.id, code })
+      : await removeCoOwner({ roomId, userId: user.id, coOwnerUserId: userId });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_owner' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in co-owners API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
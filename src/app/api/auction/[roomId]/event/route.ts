@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { applyAuctioneerEvent, resolveAutoBids, AUCTIONEER_EVENT_TYPES, AuctioneerEvent } from '@/lib/auctionServer';
+
+/**
+ * Controls that put a player up with the clock running, which the bots and proxy ceilings may then bid on
+ */
+const LOT_OPENING_EVENTS: string[] = ['start', 'start_round', 'next', 'resume'];
+
+/**
+ * Applies one of the auctioneer's controls (start, pause, next player, sell, ...) to the room
+ * Body: `{ event: AuctionEvent, queue?: AuctionPlayer[] }` - `queue` stands in for a lost stored queue on resume or next
+ * Returns `{ ok: true, state, teams, completed }`, or `{ ok: false, code, message }` with status 403 or 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { event, queue } = await request.json();
+
+    if (!event || !(AUCTIONEER_EVENT_TYPES as readonly string[]).includes(event.type)) {
+      return NextResponse.json(
+        { error: `Event type must be one of: ${AUCTIONEER_EVENT_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (event.type === 'add_time' && (typeof event.seconds !== 'number' || !Number.isFinite(event.seconds))) {
+      return NextResponse.json(
+        { error: 'Adding time needs a number of seconds' },
+        { status: 400 }
+      );
+    }
+
+    if (event.type === 'start' && !Array.isArray(event.queue)) {
+      return NextResponse.json(
+        { error: 'Starting the auction needs the player queue' },
+        { status: 400 }
+      );
+    }
+
+    if (queue !== undefined && !Array.isArray(queue)) {
+      return NextResponse.json(
+        { error: 'queue must be a list of players' },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyAuctioneerEvent({ roomId, userId: user.id, event: event as AuctioneerEvent, queue });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_auctioneer' ? 403 : 409 });
+    }
+
+    // The control stands even if the opening bids fail
+    const playerId = result.state.current_player_id;
+    if (playerId && LOT_OPENING_EVENTS.includes(event.type)) {
+      try {
+        await resolveAutoBids({ roomId, playerId });
+      } catch (error) {
+        console.error('Error resolving auto-bids:', error);
+      }
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in auction event API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { passLot } from '@/lib/auctionServer';
+
+/**
+ * Drops the user's team out of the bidding for the current player
+ * Body: `{ playerId: string }`
+ * Returns the teams that have passed, or `{ ok: false, code, message }` with status 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { playerId } = await request.json();
+
+    if (!playerId) {
+      return NextResponse.json(
+        { error: 'A player ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await passLot({ roomId, userId: user.id, playerId });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_participant' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in pass API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { rebuildAuctionState } from '@/lib/auctionServer';
+
+/**
+ * Rebuilds the auction state from the room's event log without changing anything (auctioneer only)
+ * Returns `{ ok: true, replay, events, restored: false }` - the rebuilt state, purses, refused events and the log itself
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  return handleRebuild(request, params, false);
+}
+
+/**
+ * Rebuilds the auction state from the event log and writes it back over `auction_state` (auctioneer only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  return handleRebuild(request, params, true);
+}
+
+async function handleRebuild(request: NextRequest, params: Promise<{ roomId: string }>, restore: boolean) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await rebuildAuctionState({ roomId, userId: user.id, restore });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_auctioneer' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in replay API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
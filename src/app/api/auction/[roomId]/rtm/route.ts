@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { respondToRtm, RtmAction } from '@/lib/auctionServer';
+
+const RTM_ACTIONS: RtmAction[] = ['exercise', 'decline', 'raise', 'no_raise', 'match', 'pass'];
+
+/**
+ * Answers a right-to-match offer on the current player
+ * Body: `{ action: 'exercise' | 'decline' | 'raise' | 'no_raise' | 'match' | 'pass', amount?: number }` (amount in lakhs, for a raise)
+ * Returns the updated offer, or `{ ok: false, code, message }` with status 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { action, amount } = await request.json();
+
+    if (!RTM_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${RTM_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'raise' && (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0)) {
+      return NextResponse.json(
+        { error: 'A raise needs a positive amount' },
+        { status: 400 }
+      );
+    }
+
+    const result = await respondToRtm({ roomId, userId: user.id, action, amount });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_participant' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in RTM API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
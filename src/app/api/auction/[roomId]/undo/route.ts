@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/supabaseAdmin';
+import { undoLastAction } from '@/lib/auctionServer';
+
+/**
+ * Takes back the last sale or unsold marking (auctioneer only)
+ * Returns `{ ok: true, entry }` with the audit entry, or `{ ok: false, code, message }` with status 403 or 409
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await undoLastAction({ roomId, userId: user.id });
+
+    if (!result.ok) {
+      return NextResponse.json(result, { status: result.code === 'not_auctioneer' ? 403 : 409 });
+    }
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Error in undo API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getRequestUser, isPlayerAdmin, supabaseAdmin } from '@/lib/supabaseAdmin';
+import { buildPlayerUpserts, parsePlayerCsv } from '@/lib/playerImport';
+
+/** Rows sent to the database per upsert */
+const UPSERT_BATCH_SIZE = 500;
+
+/** Rows read per page when loading existing players - PostgREST caps a select at 1000 */
+const SELECT_PAGE_SIZE = 1000;
+
+/**
+ * Loads every existing player's ID and name, a page at a time, so large tables are matched in full
+ */
+async function loadExistingPlayers() {
+  const existing: { id: string; name: string }[] = [];
+
+  for (let start = 0; ; start += SELECT_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('players')
+      .select('id, name')
+      .order('id', { ascending: true })
+      .range(start, start + SELECT_PAGE_SIZE - 1);
+
+    if (error) return { existing, error };
+
+    existing.push(...(data || []));
+    if (!data || data.length < SELECT_PAGE_SIZE) return { existing, error: null };
+  }
+}
+
+/**
+ * Imports players from CSV text into `players` (player admins only)
+ * Body: `{ csv: string, dryRun?: boolean }`. Valid rows are upserted and every refused row is reported;
+ * with `dryRun` nothing is written. Returns `{ ok, dryRun, total, inserted, updated, errors, players }`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!isPlayerAdmin(user)) {
+      return NextResponse.json(
+        { error: 'Only player admins can import players' },
+        { status: 403 }
+      );
+    }
+
+    const { csv, dryRun } = await request.json();
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return NextResponse.json(
+        { error: 'csv must be the contents of a CSV file' },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parsePlayerCsv(csv);
+    if (parsed.columns.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'The file cannot be imported', errors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    const { existing, error: existingError } = await loadExistingPlayers();
+
+    if (existingError) {
+      console.error('Error loading players for import:', existingError);
+      return NextResponse.json(
+        { error: 'Failed to load existing players' },
+        { status: 500 }
+      );
+    }
+
+    const { records, inserted, updated, errors } = buildPlayerUpserts(parsed, existing, randomUUID);
+    const allErrors = [...parsed.errors, ...errors].sort((a, b) => a.line - b.line);
+
+    if (!dryRun) {
+      for (let start = 0; start < records.length; start += UPSERT_BATCH_SIZE) {
+        const { error: upsertError } = await supabaseAdmin
+          .from('players')
+          .upsert(records.slice(start, start + UPSERT_BATCH_SIZE), { onConflict: 'id' });
+
+        if (upsertError) {
+          console.error('Error upserting players:', upsertError);
+          return NextResponse.json(
+            { error: `Import stopped after ${start} players: ${upsertError.message}` },
+            { status: 500 }
+          );
+        }
+      }
+
+      console.log(`📥 Player import by ${user.email}: ${inserted} new, ${updated} updated, ${allErrors.length} errors`);
+    }
+
+    return NextResponse.json({
+      ok: true,
+      dryRun: !!dryRun,
+      total: records.length,
+      inserted,
+      updated,
+      errors: allErrors,
+      players: parsed.rows.filter(row => !errors.some(error => error.line === row.line))
+    });
+
+  } catch (error) {
+    console.error('Error in player import API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns the server's current time in epoch milliseconds
+ * Clients use it to work out how far their own clock is off before counting down to a deadline
+ */
+export async function GET() {
+  return NextResponse.json(
+    { now: Date.now() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
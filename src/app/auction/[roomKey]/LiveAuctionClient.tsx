@@ -10,12 +10,50 @@ import { supabase } from '@/lib/supabase';
 import { useAuctionRealtime } from '@/hooks/useAuctionRealtime';
 import { useMySquad } from '@/hooks/useMySquad';
 import { usePlayerQueue } from '@/hooks/usePlayerQueue';
+import { useRoundNominations } from '@/hooks/useRoundNominations';
+import { useRetentions } from '@/hooks/useRetentions';
+import { useAuditLog } from '@/hooks/useAuditLog';
+import { useShortlist } from '@/hooks/useShortlist';
+import { useAutoBid } from '@/hooks/useAutoBid';
+import { useSpectators } from '@/hooks/useSpectators';
+import { useCoOwners } from '@/hooks/useCoOwners';
+import { useTeamChat } from '@/hooks/useTeamChat';
+import {
+  applyAuctionEvent,
+  canStartAcceleratedRound,
+  getLastCompletedLot,
+  getMaxAllowableBid,
+  getRoomRules,
+  getRtmCardsUsed,
+  getRtmHolder,
+  isRtmResolved
+} from '@/lib/auctionEngine';
+import { serverNow } from '@/lib/serverClock';
+import { formatMoney, parseMoney, addMoney } from '@/lib/money';
+import { describePlayerPool } from '@/lib/playerPool';
+import { CATEGORY_SHORT_LABELS, formatPlayerRole, getCategoryBadgeClass, getPlayerCategory } from '@/lib/playerRoles';
+import { describeBidLadder, getMinimumBid, getNextValidBids, getRoomBidLadder, isOnLadder } from '@/lib/bidLadder';
+import { getSetProgress } from '@/lib/playerSets';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+import { DEFAULT_ROOM_SETTINGS, IPL_TEAMS, MAX_CO_OWNERS_PER_TEAM } from '@/types/auction';
+import type { AuctionRoomSettings, BotPersonality } from '@/types/auction';
 import FranchiseLogo from '@/components/FranchiseLogo';
 import {
   Trophy, Users, Pause, Play, SkipForward, LogOut,
-  Crown, Timer, User, ChevronDown, Trash2
+  Crown, Timer, User, ChevronDown, Trash2, Zap, RotateCcw, Star, Bot, Eye, MessageSquare
 } from 'lucide-react';
 import BiddingHistory from '@/components/BiddingHistory';
+import SquadComposition from '@/components/SquadComposition';
+import PracticeReport from '@/components/PracticeReport';
+import CoOwnersPanel from '@/components/CoOwnersPanel';
+import TeamChat from '@/components/TeamChat';
+import PlayerCatalogue from '@/components/PlayerCatalogue';
+import AcceleratedRoundPanel from '@/components/AcceleratedRoundPanel';
+import RtmPanel from '@/components/RtmPanel';
+import RetentionPanel from '@/components/RetentionPanel';
+import AuditTrail from '@/components/AuditTrail';
+import BotFranchisePanel from '@/components/BotFranchisePanel';
+import ShortlistPanel, { SHORTLIST_PRIORITY_LABELS } from '@/components/ShortlistPanel';
 import { useSimpleTimer } from '@/hooks/useSimpleTimer';
 
 interface AuctionRoom {
@@ -28,8 +66,17 @@ interface AuctionRoom {
   budget_per_team: number;
   players_per_team: number;
   timer_seconds: number;
+  settings?: Partial<AuctionRoomSettings> | null;
 }
 
+/** Backgrounds for the quick bid buttons, lowest bid first */
+const QUICK_BID_GRADIENTS = [
+  'linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%)',
+  'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+  'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
+  'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)'
+];
+
 interface UserProfile {
   id: string;
   full_name?: string;
@@ -83,8 +130,10 @@ export default function LiveAuctionClient() {
   const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [showCustomBid, setShowCustomBid] = useState(false);
   const [customBidAmount, setCustomBidAmount] = useState('');
+  const [autoBidAmount, setAutoBidAmount] = useState('');
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
   const [expandedTeam, setExpandedTeam] = useState<string | null>(null);
+  const [expandedLadder, setExpandedLadder] = useState<string | null>(null);
 
   // New bidding control states
   const [lastBiddingTeam, setLastBiddingTeam] = useState<string | null>(null);
@@ -104,6 +153,15 @@ export default function LiveAuctionClient() {
     isVisible: false
   });
 
+  // Shortlist alert - the player now up is on the user's shortlist
+  const [shortlistAlert, setShortlistAlert] = useState<{
+    playerName: string;
+    priority: 1 | 2 | 3;
+    maxPrice: number | null;
+    notes: string | null;
+  } | null>(null);
+  const alertedPlayerRef = useRef<string | null>(null);
+
   // Use the player queue hook for proper shuffling - load cricketers from database
   const {
     currentPlayer: queueCurrentPlayer,
@@ -128,42 +186,31 @@ export default function LiveAuctionClient() {
     refresh
   } = useAuctionRealtime(room?.id || '', user?.id || null, queuePlayers);
 
-  // Get myParticipant from participants
-  const myParticipant = participants.find(p => p.user_id === user?.id);
+  // Co-owners run a franchise alongside its primary owner, sharing its purse and squad
+  const {
+    coOwners,
+    coOwnedParticipantId,
+    inviteCoOwner,
+    removeCoOwner
+  } = useCoOwners(room?.id || '', user?.id || null);
+
+  // Get myParticipant from participants: the team the user owns, or the one they co-own
+  const myParticipant = participants.find(p => p.user_id === user?.id)
+    || participants.find(p => p.id === coOwnedParticipantId);
+  const isPrimaryOwner = !!myParticipant && myParticipant.user_id === user?.id;
+
+  // Private strategy chat for the user's team
+  const { messages: teamMessages, sendMessage: sendTeamMessage } = useTeamChat(
+    room?.id || '',
+    myParticipant && !myParticipant.is_bot ? myParticipant.id : null,
+    user?.id || null
+  );
 
   const {
     myPlayers,
     addPlayer
   } = useMySquad(room?.id || '', myParticipant?.id || null);
 
-  // Listen for sale notifications from auction state
-  useEffect(() => {
-    if (auctionState?.sale_notification && auctionState.sale_notification.timestamp) {
-      const notification = auctionState.sale_notification;
-
-      // Show the notification to all participants
-      setSaleNotification({
-        playerName: notification.player_name,
-        teamName: notification.team_name,
-        soldAmount: notification.sold_amount,
-        isVisible: true
-      });
-
-      // Clear the notification from auction state after 2 seconds to prevent re-showing
-      setTimeout(async () => {
-        if (isAuctioneer) {
-          await supabase
-            .from('auction_state')
-            .update({
-              sale_notification: null,
-              updated_at: new Date().toISOString()
-            })
-            .eq('room_id', room?.id);
-        }
-      }, 2000);
-    }
-  }, [auctionState?.sale_notification, isAuctioneer, room?.id]);
-
   // Listen for sale notifications from real-time channel
   useEffect(() => {
     if (!room?.id) return;
@@ -193,14 +240,127 @@ export default function LiveAuctionClient() {
     };
   }, [room?.id]);
 
-  // Use the enhanced timer hook with real-time sync
+  const roomSettings: AuctionRoomSettings = { ...DEFAULT_ROOM_SETTINGS, ...(room?.settings || {}) };
+  const bidLadder = getRoomBidLadder(room?.settings);
+  const maxOverseasPlayers = roomSettings.maxOverseasPlayers ?? 8;
+  const roomRules = room ? getRoomRules(room) : null;
+
+  // Live set and the one after it, for rooms that auction in sets
+  const setProgress = getSetProgress(auctionState?.player_queue || [], auctionState?.current_player_index || 0);
+
+  // Between rounds: the queue has run out but unsold players can still be brought back
+  const roundNumber = auctionState?.round_number || 1;
+  const roundFinished = !!auctionState && canStartAcceleratedRound(auctionState) && room?.status !== 'completed';
+  const maxNominations = roomSettings.maxNominationsPerTeam ?? DEFAULT_ROOM_SETTINGS.maxNominationsPerTeam ?? 5;
+  const {
+    myNominations,
+    toggleNomination,
+    countFor: getNominationCount
+  } = useRoundNominations(room?.id || '', myParticipant?.id || null, maxNominations);
+
+  // Retention phase: teams keep players before the auction opens
+  const retentionsPerTeam = roomRules?.retentionsPerTeam ?? 0;
+  const retentionOpen = retentionsPerTeam > 0 && room?.status === 'waiting' && !auctionState?.is_active;
+  const {
+    retentions,
+    toggleRetention
+  } = useRetentions(retentionOpen ? room?.id || '' : '', myParticipant?.id || null, retentionsPerTeam);
+
+  // Undo: the lot the auctioneer can take back, and the trail of corrections everyone sees
+  const lastLot = auctionState ? getLastCompletedLot(auctionState) : null;
+  const { entries: auditEntries } = useAuditLog(room?.id || '');
+
+  // Private shortlist: starred players, with a planned max and notes
+  const {
+    shortlist,
+    shortlistedIds,
+    toggleShortlist,
+    updateShortlistEntry
+  } = useShortlist(room?.id || '', user?.id || null);
+
+  // Private auto-bid ceiling on the player up now, shared with the team's co-owners
+  const { autoBid } = useAutoBid(room?.id || '', myParticipant?.id || null, auctionState?.current_player_id || null);
+
+  // Whether the user's team has passed on the player up now
+  const hasPassed = !!myParticipant && (auctionState?.passed_teams || []).includes(myParticipant.id);
+
+  // Spectators: signed-in users without a franchise watch read-only, unless the auctioneer turns that off
+  const spectatorsAllowed = roomSettings.allowSpectators !== false && !roomSettings.practice;
+  const isSpectator = !loading && !auctionLoading && !!room && !!user && !myParticipant && !isAuctioneer && spectatorsAllowed;
+  const { spectatorCount, blocked: spectatingBlocked } = useSpectators(room?.id || '', user?.id || null, isSpectator);
+
+  // Who runs each co-owned team, by participant then user, so bids and chat messages can be named
+  const teamMemberNames: Record<string, Record<string, string>> = {};
+  coOwners.forEach(coOwner => {
+    const team = participants.find(p => p.id === coOwner.participant_id);
+    if (!team) return;
+    if (!teamMemberNames[team.id]) {
+      teamMemberNames[team.id] = team.user_id
+        ? { [team.user_id]: participantProfiles[team.user_id]?.full_name || team.user_name || 'Owner' }
+        : {};
+    }
+    teamMemberNames[team.id][coOwner.user_id] = coOwner.user_name || 'Co-owner';
+  });
+
+  const handleToggleShortlist = async (playerId: string) => {
+    try {
+      await toggleShortlist(playerId);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  // Alert once when a shortlisted player comes up
+  useEffect(() => {
+    const playerId = auctionState?.current_player_id;
+    if (!playerId || alertedPlayerRef.current === playerId) return;
+
+    const entry = shortlist.find(item => item.player_id === playerId);
+    if (!entry) return;
+
+    alertedPlayerRef.current = playerId;
+    console.log('⭐ Shortlisted player is up:', playerId);
+    setShortlistAlert({
+      playerName: auctionState?.current_player?.name || 'A shortlisted player',
+      priority: entry.priority,
+      maxPrice: entry.max_price,
+      notes: entry.notes
+    });
+  }, [auctionState?.current_player_id, auctionState?.current_player?.name, shortlist]);
+
+  // Auto-hide the shortlist alert after 10 seconds
+  useEffect(() => {
+    if (!shortlistAlert) return;
+    const timer = setTimeout(() => setShortlistAlert(null), 10000);
+    return () => clearTimeout(timer);
+  }, [shortlistAlert]);
+
+  // Purse minus the reserve for the team's open mandatory slots
+  const getTeamMaxBid = (participant: { id: string; team_id?: string | null; budget_remaining: number }) =>
+    auctionState && roomRules
+      ? getMaxAllowableBid(
+          auctionState,
+          { participantId: participant.id, teamId: participant.team_id || '', budgetRemaining: participant.budget_remaining },
+          roomRules
+        )
+      : participant.budget_remaining;
+
+  // Right to match: cards per team and the offer on the current player, if any
+  const rtmCardsPerTeam = roomRules?.rtmCardsPerTeam ?? 0;
+  const currentRtm = auctionState?.rtm && auctionState.rtm.player_id === auctionState.current_player_id ? auctionState.rtm : null;
+  const teamShortNames = Object.fromEntries(participants.map(p => [p.team_id || '', p.team_short_name || 'Team']));
+
+  // Count down to the shared deadline
   const { timeRemaining, isRunning } = useSimpleTimer(
-    room?.id || '',
+    auctionState?.bidding_ends_at,
     auctionState?.time_remaining || 0,
     auctionState?.is_active || false,
     auctionState?.is_paused || false,
     undefined, // onTimeUpdate - handled by auction state
     async () => {
+      // Auto-advance rooms are settled by the server - see the effect below
+      if (roomSettings.autoAdvance) return;
+
       // Show alert to auctioneer when timer reaches 0
       if (isAuctioneer && auctionState?.current_player) {
         const leadingTeamName = auctionState.leading_team
@@ -209,7 +369,7 @@ export default function LiveAuctionClient() {
 
         const action = confirm(
           `Timer has expired for ${auctionState.current_player.name}!\n\n` +
-          `Current highest bid: ₹${auctionState.current_bid}L by ${leadingTeamName}\n\n` +
+          `Current highest bid: ${formatMoney(auctionState.current_bid)} by ${leadingTeamName}\n\n` +
           `Choose action:\n` +
           `OK = Sell player to highest bidder\n` +
           `Cancel = Add 15 more seconds`
@@ -231,6 +391,69 @@ export default function LiveAuctionClient() {
     }
   );
 
+  // Practice rooms start on their own as soon as the user and their bots are seated
+  const botCount = participants.filter(p => p.is_bot).length;
+  const practiceStartedRef = useRef(false);
+  useEffect(() => {
+    if (!roomSettings.practice || !isAuctioneer || practiceStartedRef.current) return;
+    if (room?.status !== 'waiting' || auctionState?.is_active || queuePlayers.length === 0 || botCount === 0) return;
+
+    practiceStartedRef.current = true;
+    console.log('🏏 Starting practice auction...');
+    // On failure the Start button is still there to try again by hand
+    auctionControls.startAuction().catch(error => {
+      console.error('Error starting practice auction:', error);
+    });
+  }, [roomSettings.practice, isAuctioneer, room?.status, auctionState?.is_active, queuePlayers.length, botCount, auctionControls]);
+
+  // Keep the latest control in a ref so the effect below only re-runs when the clock changes
+  const autoAdvanceRef = useRef(auctionControls.autoAdvance);
+  useEffect(() => {
+    autoAdvanceRef.current = auctionControls.autoAdvance;
+  });
+
+  // Auto-advance: when the deadline (or the post-sale delay) passes, ask the server to move on.
+  // Every open client asks; the server only acts on the first request for each step.
+  useEffect(() => {
+    if (!roomSettings.autoAdvance || !auctionState?.is_active) return;
+
+    // A settled RTM is due straight away; a pending one when its step times out
+    const rtm = auctionState.rtm;
+    const dueAt = auctionState.next_player_at
+      ? Date.parse(auctionState.next_player_at)
+      : rtm
+        ? (rtm.expires_at ? Date.parse(rtm.expires_at) : serverNow())
+        : !auctionState.is_paused && auctionState.bidding_ends_at
+          ? Date.parse(auctionState.bidding_ends_at)
+          : null;
+    if (dueAt === null) return;
+
+    let cancelled = false;
+    let attempts = 0;
+    let retryTimer: NodeJS.Timeout | null = null;
+
+    const attempt = async () => {
+      if (cancelled) return;
+      attempts += 1;
+      try {
+        const result = await autoAdvanceRef.current();
+        // Clocks can be a fraction of a second apart - try again shortly if the server wasn't ready
+        if (result?.action === 'none' && attempts < 5 && !cancelled) {
+          retryTimer = setTimeout(attempt, 1000);
+        }
+      } catch (error) {
+        console.error('Error auto-advancing auction:', error);
+      }
+    };
+
+    retryTimer = setTimeout(attempt, Math.max(0, dueAt - serverNow()) + 250);
+
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [roomSettings.autoAdvance, auctionState?.is_active, auctionState?.is_paused, auctionState?.bidding_ends_at, auctionState?.next_player_at, auctionState?.rtm]);
+
   // Initialize app
   useEffect(() => {
     const initializeApp = async () => {
@@ -296,37 +519,6 @@ export default function LiveAuctionClient() {
         setRoom(roomData);
         setIsAuctioneer(roomData.creator_id === session.user.id);
 
-        // Initialize auction state if it doesn't exist
-        if (roomData.creator_id === session.user.id) {
-          const { data: existingState } = await supabase
-            .from('auction_state')
-            .select('*')
-            .eq('room_id', roomData.id)
-            .single();
-
-          if (!existingState) {
-            // Create initial auction state
-            await supabase
-              .from('auction_state')
-              .insert({
-                room_id: roomData.id,
-                is_active: false,
-                is_paused: false,
-                current_player_id: null,
-                current_player_index: 0,
-                current_bid: 0,
-                base_price: 0,
-                leading_team: null,
-                current_bidder_id: null,
-                time_remaining: roomData.timer_seconds || 30,
-                total_players: 0,
-                player_queue: [],
-                sold_players: [],
-                unsold_players: []
-              });
-          }
-        }
-
       } catch (error) {
         router.push('/dashboard');
       } finally {
@@ -342,7 +534,7 @@ export default function LiveAuctionClient() {
     const loadParticipantProfiles = async () => {
       if (!participants.length) return;
 
-      const userIds = participants.map(p => p.user_id);
+      const userIds = participants.map(p => p.user_id).filter((id): id is string => !!id);
       const { data: profiles } = await supabase
         .from('users_profiles')
         .select('id, full_name')
@@ -458,18 +650,43 @@ export default function LiveAuctionClient() {
     }
   };
 
-  const handleAddTime = async (seconds: number) => {
+  const handleStartAcceleratedRound = async (mode: 'all' | 'nominated') => {
     if (!isAuctioneer) return;
 
     try {
-      // If auction is running, pause it first, then add time
-      if (auctionState?.is_active && !auctionState.is_paused) {
-        await auctionControls.pauseAuction();
-        // Wait a moment for the pause to take effect
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      await auctionControls.startAcceleratedRound(mode);
+      // Real-time subscriptions will handle the state update
+    } catch (error) {
+      console.error('Error starting accelerated round:', error);
+      alert('Failed to start accelerated round: ' + (error as Error).message);
+    }
+  };
 
-      // Add the time
+  const handleUndoLastAction = async () => {
+    if (!isAuctioneer || !lastLot) return;
+
+    const { record, sold } = lastLot;
+    const description = sold
+      ? `the sale of ${record.name} to ${teamShortNames[record.sold_to_team || ''] || 'Unknown'} for ${formatMoney(record.final_price)}`
+      : `${record.name} going unsold`;
+
+    if (!confirm(`Undo ${description}?\n\nThe purse is refunded and ${record.name} comes back up, paused. Everyone will see this in the auction log.`)) {
+      return;
+    }
+
+    try {
+      await auctionControls.undoLastAction();
+    } catch (error) {
+      console.error('Error undoing last action:', error);
+      alert('Failed to undo: ' + (error as Error).message);
+    }
+  };
+
+  const handleAddTime = async (seconds: number) => {
+    if (!isAuctioneer) return;
+
+    try {
+      // Pushes the deadline back - no need to pause the clock first
       await auctionControls.addTime(seconds);
       // Real-time subscriptions will handle the state update
     } catch (error) {
@@ -486,9 +703,7 @@ export default function LiveAuctionClient() {
     }
 
     try {
-      const amount = auctionState.current_bid === 0
-        ? auctionState.base_price
-        : auctionState.current_bid + (auctionState.current_bid < 200 ? 25 : 100);
+      const amount = getMinimumBid(auctionState.current_bid, auctionState.base_price, bidLadder);
 
       await biddingActions.placeBid(amount);
       // Real-time subscriptions will handle the state update
@@ -499,8 +714,9 @@ export default function LiveAuctionClient() {
   };
 
   const handleCustomBid = async () => {
-    const amount = parseInt(customBidAmount);
-    if (isNaN(amount) || amount <= 0) {
+    // Accepts lakhs ("75") or suffixed amounts ("75L", "1.5Cr")
+    const amount = parseMoney(customBidAmount);
+    if (amount === null || amount <= 0) {
       alert('Please enter a valid bid amount');
       return;
     }
@@ -510,6 +726,12 @@ export default function LiveAuctionClient() {
       return;
     }
 
+    if (!isOnLadder(amount, auctionState.base_price, bidLadder)) {
+      const suggestions = getNextValidBids(auctionState.current_bid, auctionState.base_price, bidLadder, 3);
+      alert(`${formatMoney(amount)} is not on this room's bid ladder. Try ${suggestions.map(formatMoney).join(', ')}`);
+      return;
+    }
+
     try {
       await biddingActions.placeBid(amount);
       setCustomBidAmount('');
@@ -521,6 +743,44 @@ export default function LiveAuctionClient() {
     }
   };
 
+  // Auto-bid: the server answers rival bids for this team up to the ceiling
+  const handleSetAutoBid = async () => {
+    const amount = parseMoney(autoBidAmount);
+    if (amount === null || amount <= 0) {
+      alert('Please enter a valid ceiling, e.g. 2Cr or 85L');
+      return;
+    }
+
+    try {
+      await biddingActions.setAutoBid(amount);
+      setAutoBidAmount('');
+    } catch (error) {
+      console.error('Error setting auto-bid:', error);
+      alert('Failed to set auto-bid: ' + (error as Error).message);
+    }
+  };
+
+  const handleClearAutoBid = async () => {
+    try {
+      await biddingActions.setAutoBid(null);
+    } catch (error) {
+      console.error('Error clearing auto-bid:', error);
+      alert('Failed to cancel auto-bid: ' + (error as Error).message);
+    }
+  };
+
+  // Pass: this team sits out the rest of the bidding on the current player
+  const handlePass = async () => {
+    if (!confirm('Pass on this player? Your team cannot bid on them again, and your auto-bid stops answering.')) return;
+
+    try {
+      await biddingActions.pass();
+    } catch (error) {
+      console.error('Error passing:', error);
+      alert('Failed to pass: ' + (error as Error).message);
+    }
+  };
+
   // Simplified auction controls that rely on real-time updates
   const startAuction = async () => {
     await handleStartAuction();
@@ -545,6 +805,27 @@ export default function LiveAuctionClient() {
       return;
     }
 
+    // The player's former team gets its right to match before the hammer falls
+    if (currentRtm && !isRtmResolved(currentRtm)) {
+      alert('Waiting for the right-to-match decision');
+      return;
+    }
+    const engineTeams = participants.map(p => ({
+      participantId: p.id,
+      teamId: p.team_id || '',
+      teamCode: p.team_short_name,
+      budgetRemaining: p.budget_remaining
+    }));
+    if (roomRules && getRtmHolder(auctionState, engineTeams, roomRules)) {
+      try {
+        await auctionControls.offerRtm();
+      } catch (rtmError) {
+        console.error('Error offering right to match:', rtmError);
+        alert('Failed to offer right to match: ' + (rtmError as Error).message);
+      }
+      return;
+    }
+
     try {
       // Find the leading participant
       const leadingParticipant = participants.find(p => p.team_id === auctionState.leading_team);
@@ -553,54 +834,17 @@ export default function LiveAuctionClient() {
         return;
       }
 
-      // 1. Add player to winner's squad - Use a simpler approach with existing tables
-      // For now, we'll track sold players in the auction_state.sold_players array
-      // and update participant data directly
-
-      const soldPlayerData = {
-        id: auctionState.current_player.id,
-        name: auctionState.current_player.name,
-        role: auctionState.current_player.type || auctionState.current_player.role || 'ALL',
-        final_price: Number(auctionState.current_bid) || 0,
-        sold_to_team: auctionState.leading_team,
-        sold_to_participant: leadingParticipant.id,
-        purchased_at: new Date().toISOString()
-      };
-
-      // Update the auction state to include this sold player
-      const updatedSoldPlayers = [...(auctionState.sold_players || []), soldPlayerData];
-
-      // Update auction state with sold player info
-      const { error: stateUpdateError } = await supabase
-        .from('auction_state')
-        .update({
-          sold_players: updatedSoldPlayers,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', room?.id);
-
-      if (stateUpdateError) {
-        console.error('Error updating auction state with sold player:', stateUpdateError);
-        alert('Failed to record player sale: ' + stateUpdateError.message);
-        return;
-      }
-
-      // 2. Update participant budget and player count - Fix column names
-      const { error: budgetError } = await supabase
-        .from('auction_participants')
-        .update({
-          budget_remaining: leadingParticipant.budget_remaining - auctionState.current_bid,
-          squad_size: (leadingParticipant.squad_size || 0) + 1
-        })
-        .eq('id', leadingParticipant.id);
-
-      if (budgetError) {
-        console.error('Error updating participant budget:', budgetError);
-        alert('Warning: Could not update participant budget');
+      // 1. Record the sale through the rules engine - appends to sold_players and
+      // charges the winner's purse and squad in one place
+      try {
+        await auctionControls.completeCurrentPlayer(true);
+      } catch (saleError) {
+        console.error('Error recording player sale:', saleError);
+        alert('Failed to record player sale: ' + (saleError as Error).message);
         return;
       }
 
-      // 3. Insert into bidding history (new normalized table)
+      // 2. Insert into bidding history (new normalized table)
       try {
         await supabase
           .from('bidding_history')
@@ -615,7 +859,7 @@ export default function LiveAuctionClient() {
         console.log('Could not insert into bidding history:', historyError);
       }
 
-      // 4. Mark player as sold in queue (new normalized approach)
+      // 3. Mark player as sold in queue (new normalized approach)
       try {
         await supabase
           .from('player_queue_items')
@@ -629,7 +873,7 @@ export default function LiveAuctionClient() {
         console.log('Could not update player queue:', queueError);
       }
 
-      // 5. Broadcast sale notification to all participants through real-time channel
+      // 4. Broadcast sale notification to all participants through real-time channel
       // Instead of using database column, broadcast directly through Supabase real-time
       const saleNotificationData = {
         player_name: auctionState.current_player.name,
@@ -651,7 +895,7 @@ export default function LiveAuctionClient() {
         console.error('Error broadcasting sale notification:', notificationError);
       }
 
-      alert(`Player sold to ${leadingParticipant.team_short_name} for ${formatCurrency(auctionState.current_bid)}!`);
+      alert(`Player sold to ${leadingParticipant.team_short_name} for ${formatMoney(auctionState.current_bid)}!`);
 
       // Move to next player
       await handleNextPlayer();
@@ -665,6 +909,40 @@ export default function LiveAuctionClient() {
     await handleNextPlayer();
   };
 
+  // Turning spectators off also removes everyone watching; their next heartbeat is refused
+  const toggleSpectators = async () => {
+    if (!isAuctioneer || !room) return;
+
+    const settings = { ...(room.settings || {}), allowSpectators: !spectatorsAllowed };
+
+    try {
+      const { error: updateError } = await supabase
+        .from('auction_rooms')
+        .update({ settings })
+        .eq('id', room.id);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      if (!settings.allowSpectators) {
+        const { error: deleteError } = await supabase
+          .from('auction_spectators')
+          .delete()
+          .eq('room_id', room.id);
+
+        if (deleteError) {
+          console.error('Error removing spectators:', deleteError);
+        }
+      }
+
+      setRoom({ ...room, settings });
+    } catch (error) {
+      console.error('Error updating spectators:', error);
+      alert('Failed to update spectators: ' + (error as Error).message);
+    }
+  };
+
   const endAuction = async () => {
     if (!isAuctioneer || !room) {
       alert('Only the auctioneer can end the auction');
@@ -688,14 +966,7 @@ export default function LiveAuctionClient() {
         throw updateError;
       }
 
-      // Also mark auction state as inactive
-      await supabase
-        .from('auction_state')
-        .update({
-          is_active: false,
-          is_paused: true
-        })
-        .eq('room_id', room.id);
+      // The database closes the auction state along with the room
 
       // Don't redirect - let the component show the auction summary
       // The UI will automatically show the completed auction page
@@ -712,18 +983,6 @@ export default function LiveAuctionClient() {
     await handleAddTime(seconds);
   };
 
-  // Format currency helper - Fixed for lakh-based system
-  const formatCurrency = (amount: number) => {
-    if (!amount || amount === 0) return '₹0L';
-
-    if (amount >= 100) { // 100L = 1 Crore
-      const crores = amount / 100;
-      return crores % 1 === 0 ? `₹${crores}Cr` : `₹${crores.toFixed(1)}Cr`;
-    } else {
-      return amount % 1 === 0 ? `₹${amount}L` : `₹${amount.toFixed(1)}L`;
-    }
-  };
-
   const signOut = async () => {
     try {
       await supabase.auth.signOut();
@@ -789,42 +1048,32 @@ export default function LiveAuctionClient() {
     }
   }, [saleNotification.isVisible]);
 
-  // New quick bid functions for fixed amounts
-  const handleQuickBidAmount = async (increment: number) => {
-    if (!auctionState?.current_player || !myParticipant) {
+  // Quick bid buttons place one of the next valid bids on the room's ladder
+  const handleQuickBidAmount = async (bidAmount: number) => {
+    if (!auctionState?.current_player || !myParticipant || !room) {
       alert('Cannot place bid at this time');
       return;
     }
 
-    // Check if team has reached maximum players limit
-    const myPurchasedPlayers = (auctionState?.sold_players || []).filter(
-      player => player.sold_to_participant === myParticipant.id
-    );
-
-    if (myPurchasedPlayers.length >= room.players_per_team) {
-      alert(`Your squad is full! You have reached the maximum of ${room.players_per_team} players.`);
-      return;
-    }
-
     // Check if same team is trying to bid again
     if (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) {
       alert(`You must wait ${bidCooldownTime} seconds before bidding again after your last bid`);
       return;
     }
 
-    // Check if another team needs to bid first
-    if (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) {
-      alert('Another team must place a bid before you can bid again');
-      return;
-    }
-
-    // Calculate the actual bid amount (current bid + increment)
-    const currentPrice = auctionState.current_bid || auctionState.current_player.base_price || 0;
-    const bidAmount = currentPrice + increment;
+    // Same rules the server enforces - catches squad, turn and budget problems before the request
+    const check = applyAuctionEvent(
+      auctionState,
+      { type: 'bid', participantId: myParticipant.id, bidderId: user?.id || '', amount: bidAmount },
+      {
+        rules: roomRules || getRoomRules(room),
+        teams: [{ participantId: myParticipant.id, teamId: myParticipant.team_id || '', budgetRemaining: myParticipant.budget_remaining }],
+        now: new Date(serverNow()).toISOString()
+      }
+    );
 
-    // Check if team has enough budget
-    if (bidAmount > myParticipant.budget_remaining) {
-      alert(`Insufficient budget. You have ${formatCurrency(myParticipant.budget_remaining)} remaining`);
+    if (!check.ok) {
+      alert(check.violation.message);
       return;
     }
 
@@ -837,8 +1086,8 @@ export default function LiveAuctionClient() {
     }
   };
 
-  // Handle non-participant users (but allow auctioneers to proceed)
-  if (!loading && !auctionLoading && room && user && !myParticipant && !isAuctioneer) {
+  // Handle non-participant users (but allow auctioneers, and spectators where the room allows them)
+  if (!loading && !auctionLoading && room && user && !myParticipant && !isAuctioneer && (!spectatorsAllowed || spectatingBlocked)) {
     return (
       <div>
         <nav className="nav">
@@ -862,7 +1111,7 @@ export default function LiveAuctionClient() {
               You are not a participant in this auction room.
             </p>
             <p className="mb-8" style={{ color: 'var(--text-muted)' }}>
-              Please join the auction first using the join link provided by the auctioneer.
+              This room isn&apos;t open to spectators. Please join the auction first using the join link provided by the auctioneer.
             </p>
             <button
               onClick={() => router.push('/dashboard')}
@@ -1022,11 +1271,40 @@ export default function LiveAuctionClient() {
                   <p className="mt-2" style={{ color: 'var(--text-muted)' }}>
                     Thank you for participating! You can create or join another auction from your dashboard.
                   </p>
+                  {isAuctioneer && lastLot && (
+                    <button
+                      onClick={handleUndoLastAction}
+                      className="btn btn-secondary py-2 px-4 text-sm mt-4"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Undo {lastLot.sold ? 'Sale' : 'Unsold'}: {lastLot.record.name}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Practice Report */}
+          {roomSettings.practice && participants.length > 0 && (
+            <div className="card mb-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-cyan-500 to-blue-500 flex items-center justify-center">
+                  <Bot className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-2xl font-bold">Practice Report</h2>
+                  <p className="text-sm text-gray-400">How your squad stacks up against the bots</p>
+                </div>
+              </div>
+              <PracticeReport
+                participants={participants}
+                soldPlayers={auctionState?.sold_players || []}
+                myParticipantId={myParticipant?.id || null}
+              />
+            </div>
+          )}
+
           {/* Auction Summary */}
           <div className="card mb-8">
             <div className="flex items-center gap-3 mb-6">
@@ -1039,6 +1317,25 @@ export default function LiveAuctionClient() {
               </div>
             </div>
 
+            {/* Right-to-match outcomes */}
+            {(auctionState?.sold_players || []).some(player => player.rtm) && (
+              <div className="mb-6 bg-pink-500/5 border border-pink-500/20 rounded-xl p-4">
+                <h3 className="text-lg font-semibold text-pink-400 mb-3">Right to Match</h3>
+                <div className="space-y-2">
+                  {(auctionState?.sold_players || []).filter(player => player.rtm).map(player => (
+                    <div key={player.id} className="flex items-center justify-between text-sm">
+                      <span className="text-white font-medium">{player.name}</span>
+                      <span className="text-gray-400">
+                        {teamShortNames[player.rtm?.holder_team || ''] || 'Former team'}{' '}
+                        {player.rtm?.outcome === 'matched' ? 'matched' : player.rtm?.outcome === 'declined' ? 'declined' : 'did not match'}
+                        {' '}• sold to {teamShortNames[player.sold_to_team || ''] || 'Unknown'} for {formatMoney(player.final_price || 0)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {participants.length > 0 ? (
               <div className="space-y-6">
                 {participants.map((participant) => {
@@ -1046,7 +1343,8 @@ export default function LiveAuctionClient() {
                   const playersBought = (auctionState?.sold_players || []).filter(
                     player => player.sold_to_participant === participant.id
                   );
-                  const totalSpent = playersBought.reduce((sum, player) => sum + (player.final_price || 0), 0);
+                  const totalSpent = addMoney(...playersBought.map(player => player.final_price || 0));
+                  const overseasBought = playersBought.filter(player => player.is_overseas).length;
                   const budgetUsed = ((totalSpent / room.budget_per_team) * 100).toFixed(1);
 
                   return (
@@ -1068,6 +1366,9 @@ export default function LiveAuctionClient() {
                               </h3>
                               <p className="text-gray-400">
                                 {(() => {
+                                  if (participant.is_bot || !participant.user_id) {
+                                    return `🤖 ${BOT_PERSONALITIES[participant.bot_personality as BotPersonality]?.label || 'Computer'} bot`;
+                                  }
                                   const participantProfile = participantProfiles[participant.user_id];
                                   if (participant.user_id === user?.id) {
                                     return userProfile?.full_name || user?.user_metadata?.full_name || 'You';
@@ -1089,16 +1390,22 @@ export default function LiveAuctionClient() {
                                 {playersBought.length}<span className="text-sm text-gray-400">/{room.players_per_team}</span>
                               </div>
                             </div>
+                            <div className="text-right">
+                              <div className="text-sm text-gray-400">Overseas</div>
+                              <div className="text-lg font-bold text-white">
+                                {overseasBought}<span className="text-sm text-gray-400">/{maxOverseasPlayers}</span>
+                              </div>
+                            </div>
                             <div className="text-right">
                               <div className="text-sm text-gray-400">Total Spent</div>
                               <div className="text-lg font-bold text-red-400">
-                                {formatCurrency(totalSpent)}
+                                {formatMoney(totalSpent)}
                               </div>
                             </div>
                             <div className="text-right">
                               <div className="text-sm text-gray-400">Remaining</div>
                               <div className="text-lg font-bold text-green-400">
-                                {formatCurrency(participant.budget_remaining)}
+                                {formatMoney(participant.budget_remaining)}
                               </div>
                             </div>
 
@@ -1155,24 +1462,54 @@ export default function LiveAuctionClient() {
                                           <div>
                                             <div className="font-semibold text-white">{player.name}</div>
                                             <div className="flex items-center gap-2 text-sm">
-                                              <span className="role-badge bg-blue-500/20 text-blue-400 border-blue-500/30">
-                                                {player.role}
+                                              <span className={`role-badge ${getCategoryBadgeClass(getPlayerCategory(player.role))}`}>
+                                                {formatPlayerRole(player.role)}
                                               </span>
                                               {player.purchased_at && (
                                                 <span className="text-gray-400">
                                                   • {new Date(player.purchased_at).toLocaleDateString()}
                                                 </span>
                                               )}
+                                              {(player.round_number || 1) > 1 && (
+                                                <span className="text-cyan-400">
+                                                  • Accelerated round {(player.round_number || 1) - 1}
+                                                </span>
+                                              )}
+                                              {player.acquired_via === 'rtm' && (
+                                                <span className="text-pink-400 font-semibold">• RTM</span>
+                                              )}
+                                              {player.acquired_via === 'retained' && (
+                                                <span className="text-amber-400 font-semibold">• Retained</span>
+                                              )}
                                             </div>
                                           </div>
                                         </div>
                                         <div className="text-right">
                                           <div className="text-lg font-bold text-yellow-400">
-                                            {formatCurrency(player.final_price || 0)}
+                                            {formatMoney(player.final_price || 0)}
                                           </div>
-                                          <div className="text-xs text-gray-400">Purchase Price</div>
+                                          <div className="text-xs text-gray-400">{player.acquired_via === 'retained' ? 'Retention Price' : 'Purchase Price'}</div>
+                                          {player.acquired_via !== 'retained' && (
+                                            <button
+                                              onClick={() => setExpandedLadder(expandedLadder === player.id ? null : player.id)}
+                                              className="text-xs text-blue-400 hover:text-blue-300 mt-1"
+                                            >
+                                              {expandedLadder === player.id ? 'Hide bids' : 'Bid ladder'}
+                                            </button>
+                                          )}
                                         </div>
                                       </div>
+                                      {expandedLadder === player.id && (
+                                        <div className="mt-4 pt-4 border-t border-gray-600/30">
+                                          <BiddingHistory
+                                            roomId={room.id}
+                                            playerId={player.id}
+                                            participants={participants}
+                                            live={false}
+                                            bidderNames={teamMemberNames}
+                                          />
+                                        </div>
+                                      )}
                                     </div>
                                   ))
                                 }
@@ -1193,16 +1530,17 @@ export default function LiveAuctionClient() {
                                     <div className="text-xs text-blue-300">Players Bought</div>
                                   </div>
                                   <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
-                                    <div className="text-lg font-bold text-red-400">{formatCurrency(totalSpent)}</div>
+                                    <div className="text-lg font-bold text-red-400">{formatMoney(totalSpent)}</div>
                                     <div className="text-xs text-red-300">Total Investment</div>
                                   </div>
                                   <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-3">
                                     <div className="text-lg font-bold text-green-400">
-                                      {formatCurrency(totalSpent / playersBought.length)}
+                                      {formatMoney(totalSpent / playersBought.length)}
                                     </div>
                                     <div className="text-xs text-green-300">Avg. Player Cost</div>
                                   </div>
                                 </div>
+                                <SquadComposition players={playersBought} className="justify-center mt-4" />
                               </div>
                             )}
                           </div>
@@ -1259,7 +1597,7 @@ export default function LiveAuctionClient() {
                       sold to <span className="font-bold text-purple-400">{saleNotification.teamName}</span>
                     </p>
                     <p className="text-sm text-gray-300">
-                      for <span className="font-bold text-green-400 text-base">₹{(saleNotification.soldAmount / 100).toFixed(2)}Cr</span>
+                      for <span className="font-bold text-green-400 text-base">{formatMoney(saleNotification.soldAmount)}</span>
                     </p>
                   </div>
                 </div>
@@ -1290,6 +1628,48 @@ export default function LiveAuctionClient() {
         </div>
       )}
 
+      {/* Shortlist Alert - a starred player is up, slides in on the left */}
+      {shortlistAlert && (
+        <div className="fixed top-20 left-4 z-50">
+          <div className="bg-gradient-to-br from-gray-900 to-gray-800 border-2 border-amber-500/50 rounded-xl shadow-2xl p-4 min-w-[280px] max-w-[320px] backdrop-blur-sm">
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <h3 className="text-base font-bold text-white mb-1 flex items-center gap-2">
+                  <Star className="w-4 h-4 text-amber-400 fill-amber-400" />
+                  On your shortlist
+                </h3>
+                <div className="space-y-1 text-sm text-gray-300">
+                  <p>
+                    <span className="font-bold text-amber-300">{shortlistAlert.playerName}</span> is up now
+                    <span className="text-gray-400"> • {SHORTLIST_PRIORITY_LABELS[shortlistAlert.priority]}</span>
+                  </p>
+                  <p>
+                    Planned max:{' '}
+                    <span className="font-bold text-green-400">
+                      {shortlistAlert.maxPrice !== null ? formatMoney(shortlistAlert.maxPrice) : 'no max set'}
+                    </span>
+                  </p>
+                  {myParticipant && (
+                    <p>
+                      Your purse: <span className="font-bold text-yellow-400">{formatMoney(myParticipant.budget_remaining)}</span>
+                    </p>
+                  )}
+                  {shortlistAlert.notes && <p className="text-xs text-gray-400 italic">{shortlistAlert.notes}</p>}
+                </div>
+              </div>
+              <button
+                onClick={() => setShortlistAlert(null)}
+                className="flex-shrink-0 ml-2 text-gray-400 hover:text-white transition-colors p-1 hover:bg-gray-700 rounded-full"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <nav className="nav">
         <div className="container">
@@ -1388,9 +1768,28 @@ export default function LiveAuctionClient() {
                 <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Teams</div>
               </div>
               <div className="text-center">
-                <div className="text-2xl font-bold">{formatCurrency(room.budget_per_team)}</div>
+                <div className="text-2xl font-bold">{formatMoney(room.budget_per_team)}</div>
                 <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Budget</div>
               </div>
+              {!roomSettings.practice && (
+                <div className="text-center">
+                  <div className="text-2xl font-bold flex items-center justify-center gap-1">
+                    <Eye className="w-5 h-5 text-gray-400" />
+                    {spectatorCount}
+                  </div>
+                  <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Watching</div>
+                </div>
+              )}
+              {isAuctioneer && !roomSettings.practice && (
+                <button
+                  onClick={toggleSpectators}
+                  className="btn btn-secondary btn-sm"
+                  title={spectatorsAllowed ? 'Stop letting non-participants watch this room' : 'Let signed-in users watch this room with the room link'}
+                >
+                  <Eye className="w-4 h-4 mr-1" />
+                  Spectators {spectatorsAllowed ? 'on' : 'off'}
+                </button>
+              )}
               {isAuctioneer && (
                 <Crown className="w-6 h-6" style={{ color: 'var(--accent-yellow)' }} />
               )}
@@ -1400,8 +1799,14 @@ export default function LiveAuctionClient() {
           {/* Auction Status */}
           <div className="flex items-center gap-4">
             <div className={`status-badge ${auctionState?.is_active ? 'success' : 'default'}`}>
-              {auctionState?.is_active ? (auctionState.is_paused ? 'Paused' : 'Live') : 'Waiting'}
+              {auctionState?.is_active ? (auctionState.is_paused ? 'Paused' : 'Live') : roundFinished ? 'Round Complete' : 'Waiting'}
             </div>
+            {roundNumber > 1 && (
+              <div className="flex items-center gap-1 text-sm font-medium text-cyan-400">
+                <Zap className="w-4 h-4" />
+                Accelerated Round {roundNumber - 1}
+              </div>
+            )}
             {auctionState?.is_active && (
               <div className="flex items-center gap-2">
                 <Timer className="w-4 h-4" />
@@ -1411,6 +1816,13 @@ export default function LiveAuctionClient() {
               </div>
             )}
           </div>
+
+          {isSpectator && (
+            <div className="mt-4 flex items-center gap-2 text-sm rounded-lg border border-blue-500/30 bg-blue-500/10 px-3 py-2 text-blue-300">
+              <Eye className="w-4 h-4" />
+              You&apos;re watching as a spectator - bids, purses and squads update live, but you can&apos;t bid.
+            </div>
+          )}
         </div>
 
         <div className="grid gap-6">
@@ -1424,6 +1836,16 @@ export default function LiveAuctionClient() {
                     <Trophy className="w-5 h-5 text-white" />
                   </div>
                   <h2 className="text-xl font-bold">Current Player</h2>
+                  {auctionState?.is_active && setProgress.current && (
+                    <div className="ml-auto text-right text-xs">
+                      <div className="font-semibold text-purple-300">
+                        {setProgress.current.name} • {setProgress.current.remaining} left
+                      </div>
+                      <div className="text-gray-500">
+                        {setProgress.next ? `Next set: ${setProgress.next.name}` : 'Final set'}
+                      </div>
+                    </div>
+                  )}
                 </div>
 
                 {auctionState?.current_player ? (
@@ -1440,19 +1862,24 @@ export default function LiveAuctionClient() {
                           <div className="space-y-3">
                             <div className="flex items-center justify-between">
                               <span className="text-base font-medium text-gray-400">Role:</span>
-                              <span className="text-sm bg-blue-500/20 text-blue-400 px-3 py-1.5 rounded-full border border-blue-500/30 font-medium">
-                                {auctionState.current_player.type || auctionState.current_player.role}
+                              <span className={`text-sm px-3 py-1.5 rounded-full border font-medium ${getCategoryBadgeClass(getPlayerCategory(auctionState.current_player.role))}`}>
+                                {formatPlayerRole(auctionState.current_player.role) || auctionState.current_player.type}
                               </span>
                             </div>
 
                             <div className="flex items-center justify-between">
                               <span className="text-base font-medium text-gray-400">Country:</span>
-                              <span className="text-base font-medium text-white">{auctionState.current_player.nationality || auctionState.current_player.country}</span>
+                              <span className="text-base font-medium text-white">
+                                {auctionState.current_player.nationality || auctionState.current_player.country}
+                                {auctionState.current_player.is_overseas && (
+                                  <span className="ml-2 text-xs bg-cyan-500/20 text-cyan-400 px-2 py-1 rounded-full border border-cyan-500/30">OVERSEAS</span>
+                                )}
+                              </span>
                             </div>
 
                             <div className="flex items-center justify-between">
                               <span className="text-base font-medium text-gray-400">Base Price:</span>
-                              <span className="text-base font-bold text-yellow-400">{formatCurrency(auctionState.current_player.base_price)}</span>
+                              <span className="text-base font-bold text-yellow-400">{formatMoney(auctionState.current_player.base_price)}</span>
                             </div>
                           </div>
                         </div>
@@ -1461,7 +1888,7 @@ export default function LiveAuctionClient() {
                         <div className="text-center bg-gradient-to-br from-green-500/10 to-emerald-500/10 border border-green-500/20 rounded-lg p-6">
                           <div className="text-base font-medium mb-3" style={{ color: 'var(--text-muted)' }}>Current Bid</div>
                           <div className="text-4xl font-bold mb-3" style={{ color: 'var(--accent-green)' }}>
-                            {formatCurrency(auctionState.current_bid || auctionState.current_player.base_price)}
+                            {formatMoney(auctionState.current_bid || auctionState.current_player.base_price)}
                           </div>
                           {auctionState.leading_team && (
                             <div style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem', padding: '8px 16px', backgroundColor: 'rgba(34, 197, 94, 0.2)', color: 'rgb(74, 222, 128)', borderRadius: '9999px', fontSize: '0.875rem', fontWeight: '500', border: '1px solid rgba(34, 197, 94, 0.3)' }}>
@@ -1474,7 +1901,7 @@ export default function LiveAuctionClient() {
                     </div>
 
                     {/* Auctioneer Controls - Separate Card */}
-                    {isAuctioneer && (
+                    {isAuctioneer && !roundFinished && (
                       <div className="bg-gradient-to-br from-yellow-500/10 to-orange-500/10 border border-yellow-500/20 rounded-xl p-6 mb-6">
                         <div className="flex items-center gap-2 mb-4">
                           <Crown className="w-5 h-5 text-yellow-400" />
@@ -1545,11 +1972,81 @@ export default function LiveAuctionClient() {
                             End Auction
                           </button>
                         )}
+
+                        {lastLot && (
+                          <button
+                            onClick={handleUndoLastAction}
+                            className="btn btn-secondary py-3 px-4 text-sm w-full mt-3"
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Undo {lastLot.sold ? 'Sale' : 'Unsold'}: {lastLot.record.name}
+                          </button>
+                        )}
                       </div>
                     )}
 
                     {/* Quick Bidding Section - Full Width Container */}
                     <div className="flex-shrink-0">
+                      {/* Right to match on the current player */}
+                      {currentRtm && auctionState.current_player && (
+                        <div className="mb-6">
+                          <RtmPanel
+                            rtm={currentRtm}
+                            playerName={auctionState.current_player.name}
+                            basePrice={auctionState.base_price}
+                            bidLadder={bidLadder}
+                            teamNames={teamShortNames}
+                            myParticipantId={myParticipant?.id || null}
+                            isAuctioneer={isAuctioneer}
+                            winnerMaxBid={(() => {
+                              const winner = participants.find(p => p.id === currentRtm.winner_participant_id);
+                              return winner ? getTeamMaxBid(winner) : 0;
+                            })()}
+                            onRespond={async (action, amount) => {
+                              await biddingActions.respondToRtm(action, amount);
+                            }}
+                            onSkip={auctionControls.skipRtm}
+                          />
+                        </div>
+                      )}
+
+                      {/* Round finished - nominate unsold players or bring them back */}
+                      {roundFinished && (
+                        <>
+                          <AcceleratedRoundPanel
+                            unsoldPlayers={auctionState.unsold_players || []}
+                            roundNumber={roundNumber}
+                            isAuctioneer={isAuctioneer}
+                            canNominate={!!myParticipant}
+                            myNominations={myNominations}
+                            maxNominations={maxNominations}
+                            timerSeconds={roomRules?.acceleratedTimerSeconds ?? 15}
+                            basePriceCut={roomRules?.acceleratedBasePriceCut ?? 0}
+                            countFor={getNominationCount}
+                            onToggleNomination={toggleNomination}
+                            onStartRound={handleStartAcceleratedRound}
+                          />
+                          {isAuctioneer && lastLot && (
+                            <button
+                              onClick={handleUndoLastAction}
+                              className="btn btn-secondary py-3 px-4 text-sm w-full mt-3"
+                            >
+                              <RotateCcw className="w-4 h-4 mr-2" />
+                              Undo {lastLot.sold ? 'Sale' : 'Unsold'}: {lastLot.record.name}
+                            </button>
+                          )}
+                          {isAuctioneer && (
+                            <button
+                              onClick={endAuction}
+                              className="btn btn-danger py-3 px-4 text-sm w-full mt-3"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              End Auction
+                            </button>
+                          )}
+                        </>
+                      )}
+
                       {/* Bidding Controls */}
                       {myParticipant && auctionState.is_active && !auctionState.is_paused && timeRemaining > 0 && isRunning && (
                         <div className="bg-gradient-to-br from-gray-800/40 to-gray-900/60 border border-gray-700/40 rounded-xl p-6 space-y-4">
@@ -1557,77 +2054,98 @@ export default function LiveAuctionClient() {
                           <div className="text-center">
                             <h3 className="text-xl font-bold text-blue-400 mb-2">Quick Bidding</h3>
                             <p className="text-sm text-gray-400">
-                              Tap any amount to add to current bid • Budget: <span className="text-green-400 font-semibold">{formatCurrency(myParticipant.budget_remaining)}</span>
+                              Tap an amount to bid it • Budget: <span className="text-green-400 font-semibold">{formatMoney(myParticipant.budget_remaining)}</span>
+                              {' '}• Max bid: <span className="text-yellow-400 font-semibold">{formatMoney(getTeamMaxBid(myParticipant))}</span>
                             </p>
                           </div>
 
-                          {/* Quick Bid Buttons - Full Width Grid */}
+                          {/* Quick Bid Buttons - next valid bids on the room's ladder */}
                           <div className="grid grid-cols-4 gap-3">
-                            <button
-                              onClick={() => handleQuickBidAmount(25)}
-                              disabled={
-                                (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) ||
-                                (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) ||
-                                (auctionState.current_bid || auctionState.current_player.base_price || 0) + 25 > myParticipant.budget_remaining
-                              }
-                              className="relative overflow-hidden font-bold py-4 px-3 rounded-xl text-white transition-all duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                              style={{
-                                background: 'linear-gradient(135deg, #3b82f6 0%, #8b5cf6 100%)',
-                                minHeight: '60px',
-                                fontSize: '16px'
-                              }}
-                            >
-                              +₹25L
-                            </button>
-                            <button
-                              onClick={() => handleQuickBidAmount(50)}
-                              disabled={
-                                (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) ||
-                                (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) ||
-                                (auctionState.current_bid || auctionState.current_player.base_price || 0) + 50 > myParticipant.budget_remaining
-                              }
-                              className="relative overflow-hidden font-bold py-4 px-3 rounded-xl text-white transition-all duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                              style={{
-                                background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
-                                minHeight: '60px',
-                                fontSize: '16px'
-                              }}
-                            >
-                              +₹50L
-                            </button>
-                            <button
-                              onClick={() => handleQuickBidAmount(75)}
-                              disabled={
-                                (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) ||
-                                (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) ||
-                                (auctionState.current_bid || auctionState.current_player.base_price || 0) + 75 > myParticipant.budget_remaining
-                              }
-                              className="relative overflow-hidden font-bold py-4 px-3 rounded-xl text-white transition-all duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                              style={{
-                                background: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
-                                minHeight: '60px',
-                                fontSize: '16px'
-                              }}
-                            >
-                              +₹75L
+                            {getNextValidBids(auctionState.current_bid, auctionState.base_price, bidLadder).map((amount, index) => (
+                              <button
+                                key={amount}
+                                onClick={() => handleQuickBidAmount(amount)}
+                                disabled={
+                                  hasPassed ||
+                                  (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) ||
+                                  (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) ||
+                                  amount > getTeamMaxBid(myParticipant)
+                                }
+                                className="relative overflow-hidden font-bold py-4 px-3 rounded-xl text-white transition-all duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
+                                style={{
+                                  background: QUICK_BID_GRADIENTS[index % QUICK_BID_GRADIENTS.length],
+                                  minHeight: '60px',
+                                  fontSize: '16px'
+                                }}
+                              >
+                                {formatMoney(amount)}
+                              </button>
+                            ))}
+                          </div>
+
+                          {/* Custom Bid - must land on the ladder */}
+                          <form
+                            className="flex gap-2"
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              handleCustomBid();
+                            }}
+                          >
+                            <input
+                              type="text"
+                              className="form-input flex-1"
+                              placeholder="Custom bid, e.g. 1.5Cr or 85L"
+                              value={customBidAmount}
+                              onChange={(e) => setCustomBidAmount(e.target.value)}
+                            />
+                            <button type="submit" className="btn btn-secondary px-4" disabled={!customBidAmount.trim()}>
+                              Bid
                             </button>
-                            <button
-                              onClick={() => handleQuickBidAmount(100)}
-                              disabled={
-                                (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) ||
-                                (lastBiddingTeam === myParticipant.team_id && auctionState.leading_team === myParticipant.team_id) ||
-                                (auctionState.current_bid || auctionState.current_player.base_price || 0) + 100 > myParticipant.budget_remaining
-                              }
-                              className="relative overflow-hidden font-bold py-4 px-3 rounded-xl text-white transition-all duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
-                              style={{
-                                background: 'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)',
-                                minHeight: '60px',
-                                fontSize: '16px'
+                          </form>
+                          <p className="text-xs text-center text-gray-500">Increments: {describeBidLadder(bidLadder)}</p>
+
+                          {/* Auto-bid - answers rival bids up to a private ceiling */}
+                          {autoBid ? (
+                            <div className="flex items-center justify-between gap-2 bg-purple-500/10 border border-purple-500/30 rounded-lg px-3 py-2">
+                              <p className="text-sm text-purple-300">
+                                {teamMemberNames[myParticipant.id] ? 'Team auto-bidding' : 'Auto-bidding'} up to <span className="font-bold">{formatMoney(autoBid.max_amount)}</span>
+                                <span className="text-xs text-gray-400">
+                                  {teamMemberNames[myParticipant.id]
+                                    ? ` • set by ${autoBid.user_id === user?.id ? 'you' : teamMemberNames[myParticipant.id][autoBid.user_id] || 'a teammate'}, shared with your team`
+                                    : ' • only you can see this'}
+                                </span>
+                              </p>
+                              <button onClick={handleClearAutoBid} className="btn btn-secondary btn-sm">
+                                Cancel
+                              </button>
+                            </div>
+                          ) : (
+                            <form
+                              className="flex gap-2"
+                              onSubmit={(e) => {
+                                e.preventDefault();
+                                handleSetAutoBid();
                               }}
                             >
-                              +₹1Cr
+                              <input
+                                type="text"
+                                className="form-input flex-1"
+                                placeholder={teamMemberNames[myParticipant.id] ? 'Team auto-bid up to, e.g. 3Cr' : 'Auto-bid up to, e.g. 3Cr'}
+                                value={autoBidAmount}
+                                onChange={(e) => setAutoBidAmount(e.target.value)}
+                              />
+                              <button type="submit" className="btn btn-secondary px-4" disabled={!autoBidAmount.trim()}>
+                                Auto-bid
+                              </button>
+                            </form>
+                          )}
+
+                          {/* Pass - out of the bidding on this player */}
+                          {!hasPassed && auctionState.leading_team !== myParticipant.team_id && (
+                            <button onClick={handlePass} className="btn btn-secondary py-2 px-4 text-sm w-full">
+                              Pass on this player
                             </button>
-                          </div>
+                          )}
 
                           {/* Status Messages */}
                           {(() => {
@@ -1649,6 +2167,19 @@ export default function LiveAuctionClient() {
                               );
                             }
 
+                            if (hasPassed) {
+                              return (
+                                <div className="bg-gradient-to-r from-gray-500/20 to-gray-600/20 border border-gray-500/30 rounded-lg p-3">
+                                  <div className="text-center flex items-center justify-center gap-2">
+                                    <span className="text-gray-400">🚫</span>
+                                    <p className="text-sm font-medium text-gray-300">
+                                      You passed on this player - you are out of the bidding until the next lot
+                                    </p>
+                                  </div>
+                                </div>
+                              );
+                            }
+
                             // Then check cooldown
                             if (lastBiddingTeam === myParticipant.team_id && bidCooldownTime > 0) {
                               return (
@@ -1683,7 +2214,7 @@ export default function LiveAuctionClient() {
                       )}
 
                       {/* Show message when bidding is not available */}
-                      {myParticipant && auctionState.is_active && (timeRemaining <= 0 || !isRunning || auctionState.is_paused) && (
+                      {myParticipant && auctionState.is_active && !currentRtm && (timeRemaining <= 0 || !isRunning || auctionState.is_paused) && (
                         <div className="bg-gradient-to-r from-red-500/20 to-orange-500/20 border border-red-500/30 rounded-xl p-6">
                           <div className="text-center">
                             <div className="flex items-center justify-center gap-2 mb-2">
@@ -1691,7 +2222,8 @@ export default function LiveAuctionClient() {
                               <h3 className="text-lg font-bold text-red-400">Bidding Not Available</h3>
                             </div>
                             <p className="text-sm text-gray-400">
-                              {auctionState.is_paused ? 'Auction is paused by auctioneer' :
+                              {auctionState.next_player_at ? 'Next player coming up shortly' :
+                               auctionState.is_paused ? 'Auction is paused by auctioneer' :
                                timeRemaining <= 0 ? 'Timer has run out - waiting for next player' :
                                'Timer is not running'}
                             </p>
@@ -1700,6 +2232,27 @@ export default function LiveAuctionClient() {
                       )}
                     </div>
                   </div>
+                ) : retentionOpen && roomRules ? (
+                  <div className="flex-1 overflow-y-auto min-h-0 pr-2 space-y-4">
+                    <RetentionPanel
+                      pool={queuePlayers}
+                      teams={participants}
+                      retentions={retentions}
+                      myParticipantId={myParticipant?.id || null}
+                      rules={roomRules}
+                      retentionLists={roomSettings.retentionLists}
+                      onToggleRetention={toggleRetention}
+                    />
+                    {isAuctioneer && (
+                      <button
+                        onClick={startAuction}
+                        className="btn btn-primary w-full"
+                      >
+                        <Play className="w-4 h-4 mr-2" />
+                        Lock Retentions &amp; Start Auction
+                      </button>
+                    )}
+                  </div>
                 ) : (
                   <div className="text-center py-12 flex-1 flex flex-col justify-center">
                     <div className="feature-icon mb-4" style={{ background: 'var(--bg-glass)', width: '4rem', height: '4rem', margin: '0 auto' }}>
@@ -1709,7 +2262,12 @@ export default function LiveAuctionClient() {
                     <p style={{ color: 'var(--text-muted)' }}>
                       {isAuctioneer ? 'Start the auction to begin bidding' : 'Waiting for auction to begin'}
                     </p>
-                    {isAuctioneer && !auctionState?.is_active && (
+                    {!auctionState?.is_active && roomSettings.playerPool && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Player pool: {describePlayerPool(roomSettings.playerPool)} • {queuePlayers.length} players
+                      </p>
+                    )}
+                    {isAuctioneer && !auctionState?.is_active && !roundFinished && (
                       <button
                         onClick={startAuction}
                         className="btn btn-primary mt-4"
@@ -1730,11 +2288,34 @@ export default function LiveAuctionClient() {
                   <Crown className="w-5 h-5 text-yellow-400" />
                   Player Queue ({(auctionState?.current_player_index || 0) + 1}/{auctionState?.total_players || 0})
                 </h3>
+                {auctionState?.is_active && setProgress.current && (
+                  <div className="text-xs mb-3 -mt-2 flex-shrink-0">
+                    <span className="text-purple-300 font-semibold">Live set: {setProgress.current.name}</span>
+                    <span className="text-gray-500"> ({setProgress.current.total - setProgress.current.remaining + 1}/{setProgress.current.total})</span>
+                    {setProgress.next && (
+                      <span className="text-gray-400"> • Up next: {setProgress.next.name} ({setProgress.next.total})</span>
+                    )}
+                  </div>
+                )}
                 <div className="flex-1 overflow-y-auto min-h-0" style={{ maxHeight: 'calc(600px - 80px)' }}>
                   <div className="space-y-2 pr-2">
                     {/* Completely live player queue - fixed persistence and updates */}
                     {(() => {
                       // Show appropriate message ONLY when auction hasn't started yet
+                      if (roundFinished) {
+                        return (
+                          <div className="text-center py-6 h-full flex flex-col justify-center">
+                            <div className="text-3xl mb-3">⚡</div>
+                            <div className="text-sm text-gray-400 mb-2">
+                              Round complete - {auctionState?.unsold_players?.length || 0} players unsold
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              Bring them back in an accelerated round, or end the auction
+                            </p>
+                          </div>
+                        );
+                      }
+
                       if (!auctionState?.is_active) {
                         return (
                           <div className="text-center py-6 h-full flex flex-col justify-center">
@@ -1768,83 +2349,83 @@ export default function LiveAuctionClient() {
                           const isCurrent = index === currentIndex;
                           const isNext = index === currentIndex + 1;
                           const isPast = index < currentIndex;
-
-                          // Compact price formatting
-                          const formatBasePrice = (price) => {
-                            if (!price || price === 0) return '₹0L';
-                            const numPrice = Number(price);
-                            if (isNaN(numPrice)) return '₹0L';
-                            
-                            if (numPrice >= 100) {
-                              const crores = numPrice / 100;
-                              return crores % 1 === 0 ? `₹${crores}Cr` : `₹${crores.toFixed(1)}Cr`;
-                            }
-                            return numPrice % 1 === 0 ? `₹${numPrice}L` : `₹${numPrice.toFixed(1)}L`;
-                          };
+                          const isShortlisted = shortlistedIds.includes(player.id);
+                          const startsSet = !!player.set_id && player.set_id !== playersToShow[index - 1]?.set_id;
 
                           return (
-                            <div
-                              key={`${player.id}-${index}`}
-                              className={`p-2 rounded-lg border transition-all duration-200 ${
-                                isCurrent 
-                                  ? 'bg-green-500/15 border-green-500/40 shadow-sm' 
-                                  : isNext 
-                                    ? 'bg-blue-500/10 border-blue-500/30' 
-                                    : isPast 
-                                      ? 'bg-gray-500/5 border-gray-500/20 opacity-60' 
-                                      : 'bg-gray-800/20 border-gray-700/30 hover:bg-gray-800/30'
-                              }`}
-                            >
-                              <div className="flex items-center gap-2">
-                                <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium border ${
+                            <div key={`${player.id}-${index}`}>
+                              {startsSet && (
+                                <div className="text-xs font-semibold uppercase tracking-wide text-purple-300 pt-2 pb-1">
+                                  {player.set_name}
+                                </div>
+                              )}
+                              <div
+                                className={`p-2 rounded-lg border transition-all duration-200 ${
                                   isCurrent 
-                                    ? 'bg-green-500 text-white border-green-400' 
+                                    ? 'bg-green-500/15 border-green-500/40 shadow-sm' 
                                     : isNext 
-                                      ? 'bg-blue-500 text-white border-blue-400' 
+                                      ? 'bg-blue-500/10 border-blue-500/30' 
                                       : isPast 
-                                        ? 'bg-gray-500 text-white border-gray-400' 
-                                        : 'bg-gray-700 text-gray-300 border-gray-600'
-                                }`}>
-                                  {index + 1}
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  <div className={`font-medium text-xs truncate ${
-                                    isCurrent ? 'text-green-400' : isNext ? 'text-blue-400' : isPast ? 'text-gray-500' : 'text-gray-300'
+                                        ? 'bg-gray-500/5 border-gray-500/20 opacity-60' 
+                                        : isShortlisted
+                                          ? 'bg-amber-500/10 border-amber-500/30'
+                                          : 'bg-gray-800/20 border-gray-700/30 hover:bg-gray-800/30'
+                                }`}
+                              >
+                                <div className="flex items-center gap-2">
+                                  <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium border ${
+                                    isCurrent 
+                                      ? 'bg-green-500 text-white border-green-400' 
+                                      : isNext 
+                                        ? 'bg-blue-500 text-white border-blue-400' 
+                                        : isPast 
+                                          ? 'bg-gray-500 text-white border-gray-400' 
+                                          : 'bg-gray-700 text-gray-300 border-gray-600'
                                   }`}>
-                                    {player.name}
+                                    {index + 1}
                                   </div>
-                                  <div className="flex items-center gap-1.5 mt-0.5">
-                                    <span className={`text-xs px-1.5 py-0.5 rounded-full border ${
-                                      isCurrent ? 'bg-blue-500/20 text-blue-300 border-blue-500/30' :
-                                      isNext ? 'bg-blue-500/15 text-blue-400 border-blue-500/25' :
-                                      'bg-blue-500/10 text-blue-500 border-blue-500/20'
+                                  <div className="flex-1 min-w-0">
+                                    <div className={`font-medium text-xs truncate ${
+                                      isCurrent ? 'text-green-400' : isNext ? 'text-blue-400' : isPast ? 'text-gray-500' : 'text-gray-300'
                                     }`}>
-                                      {player.type || player.role || 'ALL'}
-                                    </span>
-                                    <span className="text-xs text-gray-500">•</span>
-                                    <span className={`text-xs font-medium ${
-                                      isCurrent ? 'text-yellow-300' : isNext ? 'text-yellow-400' : 'text-yellow-500'
-                                    }`}>
-                                      {formatBasePrice(player.base_price)}
-                                    </span>
-                                  </div>
-                                </div>
-                                <div className="flex-shrink-0">
-                                  {isCurrent && (
-                                    <div className="text-xs font-medium text-green-400 bg-green-500/15 px-1.5 py-0.5 rounded border border-green-500/30">
-                                      LIVE
+                                      {isShortlisted && <Star className="w-3 h-3 inline mr-1 text-amber-400 fill-amber-400" />}
+                                      {player.name}
                                     </div>
-                                  )}
-                                  {isNext && (
-                                    <div className="text-xs font-medium text-blue-400 bg-blue-500/15 px-1.5 py-0.5 rounded border border-blue-500/30">
-                                      NEXT
-                                    </div>
-                                  )}
-                                  {isPast && (
-                                    <div className="text-xs text-gray-500 bg-gray-500/15 px-1.5 py-0.5 rounded border border-gray-500/30">
-                                      DONE
+                                    <div className="flex items-center gap-1.5 mt-0.5">
+                                      <span
+                                        className={`text-xs px-1.5 py-0.5 rounded-full border ${getCategoryBadgeClass(getPlayerCategory(player.role))}`}
+                                        title={player.role}
+                                      >
+                                        {(() => {
+                                          const category = getPlayerCategory(player.role);
+                                          return category ? CATEGORY_SHORT_LABELS[category] : player.type || player.role || 'ALL';
+                                        })()}
+                                      </span>
+                                      <span className="text-xs text-gray-500">•</span>
+                                      <span className={`text-xs font-medium ${
+                                        isCurrent ? 'text-yellow-300' : isNext ? 'text-yellow-400' : 'text-yellow-500'
+                                      }`}>
+                                        {formatMoney(player.base_price)}
+                                      </span>
                                     </div>
-                                  )}
+                                  </div>
+                                  <div className="flex-shrink-0">
+                                    {isCurrent && (
+                                      <div className="text-xs font-medium text-green-400 bg-green-500/15 px-1.5 py-0.5 rounded border border-green-500/30">
+                                        LIVE
+                                      </div>
+                                    )}
+                                    {isNext && (
+                                      <div className="text-xs font-medium text-blue-400 bg-blue-500/15 px-1.5 py-0.5 rounded border border-blue-500/30">
+                                        NEXT
+                                      </div>
+                                    )}
+                                    {isPast && (
+                                      <div className="text-xs text-gray-500 bg-gray-500/15 px-1.5 py-0.5 rounded border border-gray-500/30">
+                                        DONE
+                                      </div>
+                                    )}
+                                  </div>
                                 </div>
                               </div>
                             </div>
@@ -1871,7 +2452,7 @@ export default function LiveAuctionClient() {
             )}
 
             {/* My Squad - FOR PARTICIPANTS (Same height as current player) */}
-            {!isAuctioneer && myParticipant && (
+            {(!isAuctioneer || roomSettings.practice) && myParticipant && (
               <div className="card flex flex-col" style={{ height: '600px' }}>
                 {/* Fixed Header */}
                 <h3 className="text-lg font-bold mb-4 flex items-center gap-2 flex-shrink-0">
@@ -1907,18 +2488,18 @@ export default function LiveAuctionClient() {
                                     <div className="min-w-0 flex-1">
                                       <div className="font-medium text-sm text-white truncate">{playerData.name}</div>
                                       <div className="flex items-center gap-2 text-xs">
-                                        <span className="role-badge bg-blue-500/20 text-blue-400 border-blue-500/30">
-                                          {playerData.role}
+                                        <span className={`role-badge ${getCategoryBadgeClass(getPlayerCategory(playerData.role))}`}>
+                                          {formatPlayerRole(playerData.role)}
                                         </span>
                                         <span className="text-gray-400 truncate">
-                                          {formatCurrency(playerData.final_price)}
+                                          {formatMoney(playerData.final_price)}
                                         </span>
                                       </div>
                                     </div>
                                   </div>
                                   <div className="text-right flex-shrink-0 ml-2">
                                     <div className="text-sm font-bold text-green-400">
-                                      {formatCurrency(playerData.final_price)}
+                                      {formatMoney(playerData.final_price)}
                                     </div>
                                   </div>
                                 </div>
@@ -1933,13 +2514,13 @@ export default function LiveAuctionClient() {
                             <div className="grid grid-2 gap-4 mb-3">
                               <div>
                                 <div className="text-lg font-bold text-red-400">
-                                  {formatCurrency(myPurchasedPlayers.reduce((sum, p) => sum + p.final_price, 0))}
+                                  {formatMoney(addMoney(...myPurchasedPlayers.map(p => p.final_price)))}
                                 </div>
                                 <div className="text-xs text-gray-400">Total Spent</div>
                               </div>
                               <div>
                                 <div className="text-lg font-bold text-green-400">
-                                  {formatCurrency(myParticipant.budget_remaining)}
+                                  {formatMoney(myParticipant.budget_remaining)}
                                 </div>
                                 <div className="text-xs text-gray-400">Remaining</div>
                               </div>
@@ -1966,7 +2547,7 @@ export default function LiveAuctionClient() {
                         <div className="mt-6 bg-gradient-to-r from-gray-800/20 to-gray-900/20 rounded-lg p-4 w-full">
                           <div className="text-center">
                             <div className="text-lg font-bold text-green-400">
-                              {formatCurrency(myParticipant.budget_remaining)}
+                              {formatMoney(myParticipant.budget_remaining)}
                             </div>
                             <div className="text-xs text-gray-400">Available Budget</div>
                           </div>
@@ -1988,10 +2569,21 @@ export default function LiveAuctionClient() {
                 </div>
                 <div>
                   <h3 className="text-xl font-bold">Participants Overview</h3>
-                  <p className="text-sm text-gray-400">{participants.length} teams joined • Total budget: {formatCurrency(room.budget_per_team * participants.length)}</p>
+                  <p className="text-sm text-gray-400">{participants.length} teams joined • Total budget: {formatMoney(room.budget_per_team * participants.length)}</p>
                 </div>
               </div>
 
+              {room.status === 'waiting' && !auctionState?.is_active && (
+                <BotFranchisePanel
+                  bots={participants.filter(p => p.is_bot)}
+                  openSeats={Math.max(0, Math.min(room.max_participants || IPL_TEAMS.length, IPL_TEAMS.length) - participants.length)}
+                  onAdd={async (personality, count) => {
+                    await auctionControls.addBots(personality, count);
+                  }}
+                  onRemove={auctionControls.removeBot}
+                />
+              )}
+
               {participants.length > 0 ? (
                 <div className="grid grid-cols-3 gap-4">
                   {participants.map((participant) => {
@@ -1999,7 +2591,8 @@ export default function LiveAuctionClient() {
                     const playersBought = (auctionState?.sold_players || []).filter(
                       player => player.sold_to_participant === participant.id
                     );
-                    const totalSpent = playersBought.reduce((sum, player) => sum + (player.final_price || 0), 0);
+                    const totalSpent = addMoney(...playersBought.map(player => player.final_price || 0));
+                    const overseasBought = playersBought.filter(player => player.is_overseas).length;
                     const budgetUsed = ((totalSpent / room.budget_per_team) * 100).toFixed(1);
 
                     return (
@@ -2032,6 +2625,9 @@ export default function LiveAuctionClient() {
                               {/* Show user name from profile or fallback to user ID */}
                               {(() => {
                                 // Get participant name from loaded profiles
+                                if (participant.is_bot || !participant.user_id) {
+                                  return `🤖 ${BOT_PERSONALITIES[participant.bot_personality as BotPersonality]?.label || 'Computer'} bot`;
+                                }
                                 const participantProfile = participantProfiles[participant.user_id];
                                 if (participant.user_id === user?.id) {
                                   return userProfile?.full_name || user?.user_metadata?.full_name || 'You';
@@ -2041,6 +2637,11 @@ export default function LiveAuctionClient() {
                                   return `Manager ${participant.user_id.slice(0, 8)}...`;
                                 }
                               })()}
+                              {coOwners.some(coOwner => coOwner.participant_id === participant.id) && (
+                                <span className="text-xs">
+                                  {' '}+ {coOwners.filter(coOwner => coOwner.participant_id === participant.id).map(coOwner => coOwner.user_name).join(', ')}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -2059,6 +2660,19 @@ export default function LiveAuctionClient() {
                             </div>
                           </div>
 
+                          {/* Overseas Slots */}
+                          <div className="bg-cyan-500/10 border border-cyan-500/20 rounded-lg p-3">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-medium text-cyan-400">OVERSEAS</span>
+                              <div className="text-right">
+                                <div className="text-lg font-bold text-white">
+                                  {overseasBought}<span className="text-sm text-gray-400">/{maxOverseasPlayers}</span>
+                                </div>
+                                <div className="text-xs text-gray-400">{Math.max(0, maxOverseasPlayers - overseasBought)} left</div>
+                              </div>
+                            </div>
+                          </div>
+
                           {/* Budget Used */}
                           <div className="bg-purple-500/10 border border-purple-500/20 rounded-lg p-3">
                             <div className="flex items-center justify-between">
@@ -2075,7 +2689,7 @@ export default function LiveAuctionClient() {
                               <span className="text-xs font-medium text-red-400">SPENT</span>
                               <div className="text-right">
                                 <div className="text-sm font-bold text-red-400">
-                                  {formatCurrency(totalSpent)}
+                                  {formatMoney(totalSpent)}
                                 </div>
                               </div>
                             </div>
@@ -2087,19 +2701,50 @@ export default function LiveAuctionClient() {
                               <span className="text-xs font-medium text-green-400">REMAINING</span>
                               <div className="text-right">
                                 <div className="text-sm font-bold text-green-400">
-                                  {formatCurrency(participant.budget_remaining)}
+                                  {formatMoney(participant.budget_remaining)}
+                                </div>
+                              </div>
+                            </div>
+                          </div>
+
+                          {/* Max Allowable Bid - purse minus the reserve for open mandatory slots */}
+                          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-3">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-medium text-yellow-400">MAX BID</span>
+                              <div className="text-right">
+                                <div className="text-sm font-bold text-yellow-400">
+                                  {formatMoney(getTeamMaxBid(participant))}
                                 </div>
                               </div>
                             </div>
                           </div>
+
+                          {/* Right-to-match cards left */}
+                          {rtmCardsPerTeam > 0 && auctionState && (
+                            <div className="bg-pink-500/10 border border-pink-500/20 rounded-lg p-3">
+                              <div className="flex items-center justify-between">
+                                <span className="text-xs font-medium text-pink-400">RTM CARDS</span>
+                                <div className="text-right">
+                                  <div className="text-sm font-bold text-pink-400">
+                                    {Math.max(0, rtmCardsPerTeam - getRtmCardsUsed(auctionState, participant.id))}/{rtmCardsPerTeam}
+                                  </div>
+                                </div>
+                              </div>
+                            </div>
+                          )}
                         </div>
 
+                        {/* Squad by category */}
+                        {playersBought.length > 0 && (
+                          <SquadComposition players={playersBought} className="mb-5" />
+                        )}
+
                         {/* Budget Progress Bar */}
                         <div className="mb-6">
                           <div className="flex items-center justify-between mb-2">
                             <span className="text-xs font-medium text-gray-400">Budget Progress</span>
                             <span className="text-xs font-medium text-gray-300">
-                              {formatCurrency(totalSpent)} / {formatCurrency(room.budget_per_team)}
+                              {formatMoney(totalSpent)} / {formatMoney(room.budget_per_team)}
                             </span>
                           </div>
                           <div className="w-full bg-gray-700 rounded-full h-3 overflow-hidden">
@@ -2128,7 +2773,7 @@ export default function LiveAuctionClient() {
                                   {lastPurchase.name}
                                 </div>
                                 <div className="text-xs text-gray-400">
-                                  {lastPurchase.role} • {formatCurrency(lastPurchase.final_price)}
+                                  {lastPurchase.role} • {formatMoney(lastPurchase.final_price)}
                                 </div>
                               </div>
                             );
@@ -2159,9 +2804,92 @@ export default function LiveAuctionClient() {
           )}
         </div>
 
+        {/* Player Catalogue - the whole pool, browsable while the auction runs */}
+        {auctionState && ((auctionState.player_queue?.length || 0) > 0 || (auctionState.sold_players?.length || 0) > 0) && (
+          <div className="card mt-6">
+            <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+              <Users className="w-5 h-5 text-blue-400" />
+              Player Catalogue
+            </h3>
+            <PlayerCatalogue
+              auctionState={auctionState}
+              participants={participants}
+              shortlistedIds={shortlistedIds}
+              onToggleShortlist={user && !isSpectator ? handleToggleShortlist : undefined}
+            />
+          </div>
+        )}
+
+        {/* My Shortlist - private to this user */}
+        {auctionState && user && !isSpectator && (
+          <div className="card mt-6">
+            <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+              <Star className="w-5 h-5 text-amber-400" />
+              My Shortlist ({shortlist.length})
+            </h3>
+            <ShortlistPanel
+              entries={shortlist}
+              auctionState={auctionState}
+              participants={participants}
+              onUpdate={updateShortlistEntry}
+              onRemove={handleToggleShortlist}
+            />
+          </div>
+        )}
+
+        {/* My Team - co-owners and the team's private strategy chat */}
+        {myParticipant && !myParticipant.is_bot && !roomSettings.practice && (
+          <div className="grid grid-2 gap-6 mt-6">
+            <div className="card">
+              <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <Users className="w-5 h-5 text-green-400" />
+                {myParticipant.team_short_name} Owners
+              </h3>
+              <CoOwnersPanel
+                ownerName={
+                  isPrimaryOwner
+                    ? 'You'
+                    : (myParticipant.user_id && teamMemberNames[myParticipant.id]?.[myParticipant.user_id]) || 'Owner'
+                }
+                coOwners={coOwners
+                  .filter(coOwner => coOwner.participant_id === myParticipant.id)
+                  .map(coOwner => (coOwner.user_id === user?.id ? { ...coOwner, user_name: 'You' } : coOwner))}
+                isPrimaryOwner={isPrimaryOwner}
+                roomKey={room.room_key}
+                maxCoOwners={MAX_CO_OWNERS_PER_TEAM}
+                onInvite={inviteCoOwner}
+                onRemove={removeCoOwner}
+              />
+            </div>
+            <div className="card">
+              <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <MessageSquare className="w-5 h-5 text-blue-400" />
+                Team Chat
+              </h3>
+              <TeamChat
+                messages={teamMessages}
+                memberNames={teamMemberNames[myParticipant.id] || {}}
+                myUserId={user?.id || null}
+                onSend={sendTeamMessage}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Auction Log - corrections made by the auctioneer */}
+        {auditEntries.length > 0 && (
+          <div className="card mt-6">
+            <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+              <RotateCcw className="w-5 h-5 text-orange-400" />
+              Auction Log
+            </h3>
+            <AuditTrail entries={auditEntries} />
+          </div>
+        )}
+
         {/* Bidding History */}
-        {false && auctionState?.current_player && (
-          <div className="card">
+        {auctionState?.current_player && (
+          <div className="card mt-6">
             <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
               <Timer className="w-5 h-5" />
               Bidding History - {auctionState.current_player.name}
@@ -2170,6 +2898,7 @@ export default function LiveAuctionClient() {
               roomId={room.id}
               playerId={auctionState.current_player.id}
               participants={participants}
+              bidderNames={teamMemberNames}
             />
           </div>
         )}
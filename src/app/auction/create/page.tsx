@@ -3,19 +3,70 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
-import { Plus, Trophy, Users, User, Copy, Check, Play, Settings, LogOut, Crown, ChevronDown } from 'lucide-react';
+import { formatMoney, fromCrores, parseMoney } from '@/lib/money';
+import { describeBidLadder, IPL_BID_LADDER, validateBidLadder } from '@/lib/bidLadder';
+import { IPL_PLAYER_SETS } from '@/lib/playerSets';
+import { toRoomPlayerRows } from '@/lib/playerPool';
+import type { PlayerImportRow } from '@/lib/playerImport';
+import PlayerSetsEditor from '@/components/PlayerSetsEditor';
+import PlayerPoolEditor from '@/components/PlayerPoolEditor';
+import RetentionListsEditor from '@/components/RetentionListsEditor';
+import { Plus, Trophy, Users, User, Copy, Check, Play, Settings, LogOut, Crown, ChevronDown, Timer, Bot, Eye } from 'lucide-react';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+import { DEFAULT_ROOM_SETTINGS, IPL_TEAMS } from '@/types/auction';
+import type { AuctionRoomSettings, BidIncrementStep, BotPersonality, PlayerPool, PlayerSet } from '@/types/auction';
 
 interface CreateAuctionForm {
+  /** A league room others join, or a solo practice room against bots */
+  mode: 'league' | 'practice';
   name: string;
   maxTeams: number;
   playersPerTeam: number;
+  autoAdvance: boolean;
+  autoAdvanceDelay: number;
+  allowSpectators: boolean;
+  minSquadSize: number;
+  maxOverseasPlayers: number;
+  acceleratedTimerSeconds: number;
+  acceleratedBasePriceCut: number;
+  maxNominationsPerTeam: number;
+  rtmCardsPerTeam: number;
+  rtmDecisionSeconds: number;
+  retentionsPerTeam: number;
+  /** One price per retention, as typed ("18Cr") */
+  retentionSlabs: string[];
+  retentionLists: Record<string, string[]>;
+  bidLadder: 'ipl' | 'custom';
+  customLadder: LadderRow[];
+  playerOrder: 'random' | 'sets';
+  playerSets: PlayerSet[];
+  playerPool: PlayerPool;
+  /** Checked rows of the room's own CSV, when the pool is uploaded */
+  poolCsvRows: PlayerImportRow[];
+  /** Practice only: the user's franchise, the bots' style and the bid timer */
+  practiceTeam: string;
+  botPersonality: BotPersonality | 'mixed';
+  bidTimer: number;
+}
+
+/**
+ * A custom ladder slab as typed into the form (amounts like "1Cr" or "5L")
+ */
+interface LadderRow {
+  upTo: string;
+  increment: string;
 }
 
 interface CreateAuctionFormErrors {
   name?: string;
   maxTeams?: string;
   playersPerTeam?: string;
+  minSquadSize?: string;
+  bidLadder?: string;
+  playerSets?: string;
+  playerPool?: string;
+  retentionSlabs?: string;
 }
 
 interface UserProfile {
@@ -31,9 +82,35 @@ export default function CreateAuctionPage() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [form, setForm] = useState<CreateAuctionForm>({
+    mode: 'league',
     name: '',
     maxTeams: 8,
-    playersPerTeam: 15
+    playersPerTeam: 15,
+    autoAdvance: DEFAULT_ROOM_SETTINGS.autoAdvance,
+    autoAdvanceDelay: DEFAULT_ROOM_SETTINGS.autoAdvanceDelay ?? 5,
+    allowSpectators: true,
+    minSquadSize: 15,
+    maxOverseasPlayers: DEFAULT_ROOM_SETTINGS.maxOverseasPlayers ?? 8,
+    acceleratedTimerSeconds: DEFAULT_ROOM_SETTINGS.acceleratedTimerSeconds ?? 15,
+    acceleratedBasePriceCut: DEFAULT_ROOM_SETTINGS.acceleratedBasePriceCut ?? 0,
+    maxNominationsPerTeam: DEFAULT_ROOM_SETTINGS.maxNominationsPerTeam ?? 5,
+    rtmCardsPerTeam: DEFAULT_ROOM_SETTINGS.rtmCardsPerTeam ?? 0,
+    rtmDecisionSeconds: DEFAULT_ROOM_SETTINGS.rtmDecisionSeconds ?? 20,
+    retentionsPerTeam: DEFAULT_ROOM_SETTINGS.retentionsPerTeam ?? 0,
+    retentionSlabs: (DEFAULT_ROOM_SETTINGS.retentionSlabs || []).map(slab => formatMoney(slab)),
+    retentionLists: {},
+    bidLadder: 'ipl',
+    customLadder: IPL_BID_LADDER.map(step => ({
+      upTo: step.upTo === null ? '' : formatMoney(step.upTo),
+      increment: formatMoney(step.increment)
+    })),
+    playerOrder: 'random',
+    playerSets: IPL_PLAYER_SETS,
+    playerPool: { source: 'all' },
+    poolCsvRows: [],
+    practiceTeam: IPL_TEAMS[0].shortName,
+    botPersonality: 'mixed',
+    bidTimer: DEFAULT_ROOM_SETTINGS.bidTimer
   });
   const [creating, setCreating] = useState(false);
   const [created, setCreated] = useState(false);
@@ -43,7 +120,9 @@ export default function CreateAuctionPage() {
   const [errors, setErrors] = useState<CreateAuctionFormErrors>({});
 
   // Fixed budget at 120 crores (in lakhs for easier handling)
-  const FIXED_BUDGET = 12000; // 120 crores = 12000 lakhs
+  const FIXED_BUDGET = fromCrores(120);
+
+  const isPractice = form.mode === 'practice';
 
   useEffect(() => {
     checkAuthAndLoadProfile();
@@ -100,7 +179,62 @@ export default function CreateAuctionPage() {
     return !!(userProfile?.full_name && userProfile.full_name.trim());
   };
 
+  /**
+   * Converts the custom ladder rows into increment slabs (in lakhs)
+   * Returns an error message instead if any amount can't be read
+   */
+  const parseCustomLadder = (): BidIncrementStep[] | string => {
+    const steps: BidIncrementStep[] = [];
+
+    for (let i = 0; i < form.customLadder.length; i++) {
+      const row = form.customLadder[i];
+      const isLast = i === form.customLadder.length - 1;
+      const increment = parseMoney(row.increment);
+      const upTo = isLast ? null : parseMoney(row.upTo);
+
+      if (increment === null || (!isLast && upTo === null)) {
+        return `Slab ${i + 1}: enter amounts like 5L or 1.5Cr`;
+      }
+      steps.push({ upTo, increment });
+    }
+
+    return validateBidLadder(steps) || steps;
+  };
+
+  const updateLadderRow = (index: number, field: keyof LadderRow, value: string) => {
+    setForm({
+      ...form,
+      customLadder: form.customLadder.map((row, i) => (i === index ? { ...row, [field]: value } : row))
+    });
+  };
+
+  const addLadderRow = () => {
+    // New slabs go before the open-ended last one
+    const rows = [...form.customLadder];
+    rows.splice(rows.length - 1, 0, { upTo: '', increment: '' });
+    setForm({ ...form, customLadder: rows });
+  };
+
+  const removeLadderRow = (index: number) => {
+    setForm({ ...form, customLadder: form.customLadder.filter((_, i) => i !== index) });
+  };
+
   // Validate form
+  /**
+   * Reads the typed retention prices, one per retention; null where one doesn't parse
+   */
+  const parseRetentionSlabs = (): (number | null)[] =>
+    form.retentionSlabs.slice(0, form.retentionsPerTeam).map(slab => parseMoney(slab));
+
+  /**
+   * Changes the number of retentions, keeping typed prices and repeating the last one for new slots
+   */
+  const setRetentionsPerTeam = (count: number) => {
+    const slabs = [...form.retentionSlabs];
+    while (slabs.length < count) slabs.push(slabs[slabs.length - 1] || '4Cr');
+    setForm({ ...form, retentionsPerTeam: count, retentionSlabs: slabs });
+  };
+
   const validateForm = (): boolean => {
     const newErrors: CreateAuctionFormErrors = {};
 
@@ -116,6 +250,35 @@ export default function CreateAuctionPage() {
       newErrors.playersPerTeam = 'Players per team must be between 11 and 25';
     }
 
+    if (form.minSquadSize > form.playersPerTeam) {
+      newErrors.minSquadSize = 'Minimum squad size cannot be more than players per team';
+    }
+
+    if (form.bidLadder === 'custom') {
+      const ladder = parseCustomLadder();
+      if (typeof ladder === 'string') {
+        newErrors.bidLadder = ladder;
+      }
+    }
+
+    if (!isPractice && form.retentionsPerTeam > 0 && parseRetentionSlabs().some(slab => slab === null || slab <= 0)) {
+      newErrors.retentionSlabs = 'Every retention needs a price, like 18Cr or 75L';
+    }
+
+    if (form.playerPool.source === 'picked' && form.playerPool.playerIds.length === 0) {
+      newErrors.playerPool = 'Pick at least one player';
+    } else if (form.playerPool.source === 'csv' && form.poolCsvRows.length === 0) {
+      newErrors.playerPool = 'Upload a CSV with at least one valid player';
+    }
+
+    if (form.playerOrder === 'sets') {
+      if (form.playerSets.length === 0) {
+        newErrors.playerSets = 'Add at least one set, or shuffle the whole pool';
+      } else if (form.playerSets.some(set => !set.name.trim())) {
+        newErrors.playerSets = 'Every set needs a name';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -136,6 +299,41 @@ export default function CreateAuctionPage() {
     try {
       const roomKey = generateRoomKey();
 
+      const customLadder = form.bidLadder === 'custom' ? parseCustomLadder() : null;
+      const settings: AuctionRoomSettings = {
+        ...DEFAULT_ROOM_SETTINGS,
+        autoAdvance: form.autoAdvance,
+        autoAdvanceDelay: form.autoAdvanceDelay,
+        allowSpectators: form.allowSpectators,
+        minSquadSize: form.minSquadSize,
+        maxOverseasPlayers: form.maxOverseasPlayers,
+        acceleratedTimerSeconds: form.acceleratedTimerSeconds,
+        acceleratedBasePriceCut: form.acceleratedBasePriceCut,
+        maxNominationsPerTeam: form.maxNominationsPerTeam,
+        rtmCardsPerTeam: form.rtmCardsPerTeam,
+        rtmDecisionSeconds: form.rtmDecisionSeconds,
+        retentionsPerTeam: form.retentionsPerTeam,
+        ...(form.retentionsPerTeam > 0 && {
+          retentionSlabs: parseRetentionSlabs() as number[],
+          retentionLists: form.retentionLists
+        }),
+        bidIncrements: Array.isArray(customLadder) ? customLadder : IPL_BID_LADDER,
+        ...(form.playerOrder === 'sets' && {
+          playerSets: form.playerSets.map(set => ({ ...set, name: set.name.trim() }))
+        }),
+        ...(form.playerPool.source !== 'all' && { playerPool: form.playerPool }),
+        // Practice rooms run themselves at the chosen pace, without RTM or retentions
+        ...(isPractice && {
+          practice: true,
+          allowSpectators: false,
+          bidTimer: form.bidTimer,
+          autoAdvance: true,
+          autoAdvanceDelay: 2,
+          rtmCardsPerTeam: 0,
+          retentionsPerTeam: 0
+        })
+      };
+
       // Create auction room
       const { data: roomData, error: roomError } = await supabase
         .from('auction_rooms')
@@ -148,7 +346,8 @@ export default function CreateAuctionPage() {
           max_participants: form.maxTeams,
           budget_per_team: FIXED_BUDGET,
           players_per_team: form.playersPerTeam,
-          timer_seconds: 30
+          timer_seconds: settings.bidTimer,
+          settings
         }])
         .select()
         .single();
@@ -158,27 +357,24 @@ export default function CreateAuctionPage() {
         throw new Error(roomError.message || 'Failed to create auction room');
       }
 
-      // Initialize auction state
-      const { error: stateError } = await supabase
-        .from('auction_state')
-        .insert([{
-          room_id: roomData.id,
-          is_active: false,
-          is_paused: false,
-          current_player: null,
-          current_player_index: -1,
-          current_bid: 0,
-          base_price: 0,
-          leading_team: null,
-          time_remaining: 30,
-          player_queue: [],
-          sold_players: [],
-          unsold_players: []
-        }]);
-
-      if (stateError) {
-        console.error('State creation error:', stateError);
-        throw new Error(stateError.message || 'Failed to initialize auction state');
+      // Store the room's own players before anyone can start the auction
+      if (form.playerPool.source === 'csv') {
+        const { error: poolError } = await supabase
+          .from('room_players')
+          .insert(toRoomPlayerRows(roomData.id, form.poolCsvRows, () => crypto.randomUUID()));
+
+        if (poolError) {
+          console.error('Room player upload error:', poolError);
+          throw new Error(poolError.message || 'Failed to save the room\'s players');
+        }
+      }
+
+      // The database creates the room's auction state row along with the room
+
+      if (isPractice) {
+        await setUpPracticeRoom(roomData.id);
+        router.push(`/auction/${roomKey}`);
+        return;
       }
 
       setRoomKey(roomKey);
@@ -192,6 +388,64 @@ export default function CreateAuctionPage() {
     }
   };
 
+  /**
+   * Seats the user at their chosen franchise and fills every other seat with bots
+   */
+  const setUpPracticeRoom = async (roomId: string) => {
+    const { data: franchise, error: franchiseError } = await supabase
+      .from('ipl_franchises')
+      .select('id')
+      .eq('short_name', form.practiceTeam)
+      .single();
+
+    if (franchiseError || !franchise) {
+      throw new Error('Could not find your franchise');
+    }
+
+    const { error: participantError } = await supabase
+      .from('auction_participants')
+      .insert({
+        auction_room_id: roomId,
+        user_id: user!.id,
+        team_id: franchise.id,
+        budget_remaining: FIXED_BUDGET,
+        is_auctioneer: false
+      });
+
+    if (participantError) {
+      console.error('Practice participant error:', participantError);
+      throw new Error(participantError.message || 'Failed to join your practice room');
+    }
+
+    // A mixed field splits the bots as evenly as possible across the personalities
+    const personalities = Object.keys(BOT_PERSONALITIES) as BotPersonality[];
+    const botCount = form.maxTeams - 1;
+    const batches = form.botPersonality === 'mixed'
+      ? personalities
+          .map((personality, i) => ({ personality, count: Math.floor((botCount + personalities.length - 1 - i) / personalities.length) }))
+          .filter(batch => batch.count > 0)
+      : [{ personality: form.botPersonality, count: botCount }];
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Your session has expired - please sign in again');
+
+    for (const batch of batches) {
+      const response = await fetch(`/api/auction/${roomId}/bots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ action: 'add', ...batch })
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Could not add bot franchises');
+      }
+    }
+  };
+
   const copyRoomKey = async () => {
     try {
       await navigator.clipboard.writeText(roomKey);
@@ -347,7 +601,7 @@ export default function CreateAuctionPage() {
                   <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Players per Team</div>
                 </div>
                 <div className="text-center p-4 bg-gradient-to-br from-yellow-500/10 to-orange-500/10 rounded-lg border border-yellow-500/20">
-                  <div className="text-2xl font-bold">₹120Cr</div>
+                  <div className="text-2xl font-bold">{formatMoney(FIXED_BUDGET)}</div>
                   <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Budget per Team</div>
                 </div>
                 <div className="text-center p-4 bg-gradient-to-br from-pink-500/10 to-red-500/10 rounded-lg border border-pink-500/20">
@@ -503,6 +757,89 @@ export default function CreateAuctionPage() {
               </p>
             </div>
 
+            <div className="grid grid-2 gap-4">
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, mode: 'league' })}
+                className={`btn ${!isPractice ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                <Users className="w-4 h-4" />
+                League with friends
+              </button>
+              <button
+                type="button"
+                onClick={() => setForm({ ...form, mode: 'practice' })}
+                className={`btn ${isPractice ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                <Bot className="w-4 h-4" />
+                Solo practice
+              </button>
+            </div>
+
+            {isPractice && (
+              <div className="card" style={{ background: 'rgba(6, 182, 212, 0.1)', borderColor: 'rgba(6, 182, 212, 0.3)' }}>
+                <div className="text-sm mb-4" style={{ color: 'var(--text-muted)' }}>
+                  Pick a franchise and bid against bots for every other team. The auction starts as soon as the room opens,
+                  nobody else can join, and practice rooms stay out of your dashboard stats.
+                </div>
+                <div className="grid grid-2 gap-4">
+                  <div className="form-group">
+                    <label className="form-label">
+                      <Crown className="w-4 h-4" />
+                      Your Franchise
+                    </label>
+                    <select
+                      className="form-input"
+                      value={form.practiceTeam}
+                      onChange={(e) => setForm({ ...form, practiceTeam: e.target.value })}
+                    >
+                      {IPL_TEAMS.map(team => (
+                        <option key={team.shortName} value={team.shortName}>{team.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label className="form-label">
+                      <Bot className="w-4 h-4" />
+                      Bot Style
+                    </label>
+                    <select
+                      className="form-input"
+                      value={form.botPersonality}
+                      onChange={(e) => setForm({ ...form, botPersonality: e.target.value as BotPersonality | 'mixed' })}
+                    >
+                      <option value="mixed">Mixed</option>
+                      {(Object.keys(BOT_PERSONALITIES) as BotPersonality[]).map(key => (
+                        <option key={key} value={key}>{BOT_PERSONALITIES[key].label}</option>
+                      ))}
+                    </select>
+                    <div className="text-xs mt-1" style={{ color: 'var(--text-muted)' }}>
+                      {form.botPersonality === 'mixed'
+                        ? 'A spread of aggressive, balanced and value-hunting bots'
+                        : BOT_PERSONALITIES[form.botPersonality].description}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">
+                    <Timer className="w-4 h-4" />
+                    Bid Timer
+                  </label>
+                  <select
+                    className="form-input"
+                    value={form.bidTimer}
+                    onChange={(e) => setForm({ ...form, bidTimer: parseInt(e.target.value) })}
+                  >
+                    {[10, 15, 20, 30].map(seconds => (
+                      <option key={seconds} value={seconds}>{seconds} seconds per bid</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
             <div className="form-group">
               <label className="form-label">
                 <Trophy className="w-4 h-4" />
@@ -555,13 +892,340 @@ export default function CreateAuctionPage() {
               </div>
             </div>
 
+            <div className="grid grid-2 gap-4">
+              <div className="form-group">
+                <label className="form-label">
+                  <User className="w-4 h-4" />
+                  Minimum Squad Size
+                </label>
+                <select
+                  className={`form-input ${errors.minSquadSize ? 'error' : ''}`}
+                  value={form.minSquadSize}
+                  onChange={(e) => setForm({ ...form, minSquadSize: parseInt(e.target.value) })}
+                >
+                  {[11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25].map(num => (
+                    <option key={num} value={num}>{num} Players</option>
+                  ))}
+                </select>
+                {errors.minSquadSize && <div className="form-error">{errors.minSquadSize}</div>}
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">
+                  <Users className="w-4 h-4" />
+                  Max Overseas Players per Team
+                </label>
+                <select
+                  className="form-input"
+                  value={form.maxOverseasPlayers}
+                  onChange={(e) => setForm({ ...form, maxOverseasPlayers: parseInt(e.target.value) })}
+                >
+                  {[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(num => (
+                    <option key={num} value={num}>{num} Overseas</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Practice rooms always auto-advance */}
+            {!isPractice && (
+              <div className="grid grid-2 gap-4">
+                <div className="form-group">
+                  <label className="form-label">
+                    <Play className="w-4 h-4" />
+                    Auto-Advance
+                  </label>
+                  <select
+                    className="form-input"
+                    value={form.autoAdvance ? 'on' : 'off'}
+                    onChange={(e) => setForm({ ...form, autoAdvance: e.target.value === 'on' })}
+                  >
+                    <option value="off">Off - auctioneer sells each player</option>
+                    <option value="on">On - sell automatically when time runs out</option>
+                  </select>
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">
+                    <Settings className="w-4 h-4" />
+                    Delay Before Next Player
+                  </label>
+                  <select
+                    className="form-input"
+                    value={form.autoAdvanceDelay}
+                    disabled={!form.autoAdvance}
+                    onChange={(e) => setForm({ ...form, autoAdvanceDelay: parseInt(e.target.value) })}
+                  >
+                    {[3, 5, 10, 15].map(num => (
+                      <option key={num} value={num}>{num} Seconds</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {!isPractice && (
+              <div className="form-group">
+                <label className="form-label">
+                  <Eye className="w-4 h-4" />
+                  Spectators
+                </label>
+                <select
+                  className="form-input"
+                  value={form.allowSpectators ? 'on' : 'off'}
+                  onChange={(e) => setForm({ ...form, allowSpectators: e.target.value === 'on' })}
+                >
+                  <option value="on">On - anyone signed in with the room link can watch</option>
+                  <option value="off">Off - only participants can see the room</option>
+                </select>
+              </div>
+            )}
+
+            <div className="grid grid-3 gap-4">
+              <div className="form-group">
+                <label className="form-label">
+                  <Timer className="w-4 h-4" />
+                  Accelerated Round Timer
+                </label>
+                <select
+                  className="form-input"
+                  value={form.acceleratedTimerSeconds}
+                  onChange={(e) => setForm({ ...form, acceleratedTimerSeconds: parseInt(e.target.value) })}
+                >
+                  {[5, 10, 15, 20].map(num => (
+                    <option key={num} value={num}>{num} Seconds</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">
+                  <Settings className="w-4 h-4" />
+                  Accelerated Base Prices
+                </label>
+                <select
+                  className="form-input"
+                  value={form.acceleratedBasePriceCut}
+                  onChange={(e) => setForm({ ...form, acceleratedBasePriceCut: parseInt(e.target.value) })}
+                >
+                  <option value={0}>Unchanged</option>
+                  {[25, 50].map(num => (
+                    <option key={num} value={num}>{num}% Lower</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">
+                  <Users className="w-4 h-4" />
+                  Nominations per Team
+                </label>
+                <select
+                  className="form-input"
+                  value={form.maxNominationsPerTeam}
+                  onChange={(e) => setForm({ ...form, maxNominationsPerTeam: parseInt(e.target.value) })}
+                >
+                  {[3, 5, 10, 20].map(num => (
+                    <option key={num} value={num}>{num} Players</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Practice rooms run without right to match or retentions */}
+            {!isPractice && (
+              <>
+                <div className="grid grid-2 gap-4">
+                  <div className="form-group">
+                    <label className="form-label">
+                      <Crown className="w-4 h-4" />
+                      Right-to-Match Cards per Team
+                    </label>
+                    <select
+                      className="form-input"
+                      value={form.rtmCardsPerTeam}
+                      onChange={(e) => setForm({ ...form, rtmCardsPerTeam: parseInt(e.target.value) })}
+                    >
+                      <option value={0}>No RTM</option>
+                      {[1, 2, 3, 4, 5, 6].map(num => (
+                        <option key={num} value={num}>{num} Card{num === 1 ? '' : 's'}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label className="form-label">
+                      <Timer className="w-4 h-4" />
+                      RTM Decision Time
+                    </label>
+                    <select
+                      className="form-input"
+                      value={form.rtmDecisionSeconds}
+                      disabled={form.rtmCardsPerTeam === 0}
+                      onChange={(e) => setForm({ ...form, rtmDecisionSeconds: parseInt(e.target.value) })}
+                    >
+                      {[10, 20, 30, 60].map(num => (
+                        <option key={num} value={num}>{num} Seconds</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">
+                    <Users className="w-4 h-4" />
+                    Retentions per Team
+                  </label>
+                  <select
+                    className={`form-input ${errors.retentionSlabs ? 'error' : ''}`}
+                    value={form.retentionsPerTeam}
+                    onChange={(e) => setRetentionsPerTeam(parseInt(e.target.value))}
+                  >
+                    <option value={0}>No retentions</option>
+                    {[1, 2, 3, 4, 5, 6].map(num => (
+                      <option key={num} value={num}>{num} Player{num === 1 ? '' : 's'}</option>
+                    ))}
+                  </select>
+
+                  {form.retentionsPerTeam > 0 && (
+                    <div className="space-y-3 mt-3">
+                      <div className="grid grid-3 gap-2">
+                        {form.retentionSlabs.slice(0, form.retentionsPerTeam).map((slab, index) => (
+                          <div key={index} className="text-sm">
+                            <div className="text-xs mb-1" style={{ color: 'var(--text-muted)' }}>Retention {index + 1}</div>
+                            <input
+                              type="text"
+                              className="form-input"
+                              value={slab}
+                              onChange={(e) => setForm({
+                                ...form,
+                                retentionSlabs: form.retentionSlabs.map((value, i) => (i === index ? e.target.value : value))
+                              })}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      <div className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                        Teams can retain their former players. Assign anyone else a team may keep below.
+                      </div>
+                      <RetentionListsEditor
+                        lists={form.retentionLists}
+                        onChange={(retentionLists) => setForm({ ...form, retentionLists })}
+                      />
+                    </div>
+                  )}
+                  {errors.retentionSlabs && <div className="form-error">{errors.retentionSlabs}</div>}
+                </div>
+              </>
+            )}
+
+            <div className="form-group">
+              <label className="form-label">
+                <Crown className="w-4 h-4" />
+                Bid Increments
+              </label>
+              <select
+                className={`form-input ${errors.bidLadder ? 'error' : ''}`}
+                value={form.bidLadder}
+                onChange={(e) => setForm({ ...form, bidLadder: e.target.value as CreateAuctionForm['bidLadder'] })}
+              >
+                <option value="ipl">IPL ladder ({describeBidLadder(IPL_BID_LADDER)})</option>
+                <option value="custom">Custom ladder</option>
+              </select>
+
+              {form.bidLadder === 'custom' && (
+                <div className="space-y-2 mt-3">
+                  {form.customLadder.map((row, index) => {
+                    const isLast = index === form.customLadder.length - 1;
+                    return (
+                      <div key={index} className="flex items-center gap-2 text-sm">
+                        {isLast ? (
+                          <span className="flex-1" style={{ color: 'var(--text-muted)' }}>
+                            {form.customLadder.length > 1 ? 'Above that' : 'All bids'}
+                          </span>
+                        ) : (
+                          <>
+                            <span style={{ color: 'var(--text-muted)' }}>Up to</span>
+                            <input
+                              type="text"
+                              className="form-input flex-1"
+                              placeholder="1Cr"
+                              value={row.upTo}
+                              onChange={(e) => updateLadderRow(index, 'upTo', e.target.value)}
+                            />
+                          </>
+                        )}
+                        <span style={{ color: 'var(--text-muted)' }}>raise by</span>
+                        <input
+                          type="text"
+                          className="form-input flex-1"
+                          placeholder="5L"
+                          value={row.increment}
+                          onChange={(e) => updateLadderRow(index, 'increment', e.target.value)}
+                        />
+                        {!isLast && (
+                          <button type="button" className="btn btn-secondary btn-sm" onClick={() => removeLadderRow(index)}>
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <button type="button" className="btn btn-secondary btn-sm" onClick={addLadderRow}>
+                    <Plus className="w-4 h-4" />
+                    Add Slab
+                  </button>
+                </div>
+              )}
+              {errors.bidLadder && <div className="form-error">{errors.bidLadder}</div>}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">
+                <Users className="w-4 h-4" />
+                Player Pool
+              </label>
+              <PlayerPoolEditor
+                pool={form.playerPool}
+                onChange={(playerPool) => setForm({ ...form, playerPool })}
+                csvRows={form.poolCsvRows}
+                onCsvRowsChange={(poolCsvRows) => setForm({ ...form, poolCsvRows })}
+              />
+              {errors.playerPool && <div className="form-error">{errors.playerPool}</div>}
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">
+                <Users className="w-4 h-4" />
+                Player Order
+              </label>
+              <select
+                className={`form-input ${errors.playerSets ? 'error' : ''}`}
+                value={form.playerOrder}
+                onChange={(e) => setForm({ ...form, playerOrder: e.target.value as CreateAuctionForm['playerOrder'] })}
+              >
+                <option value="random">Shuffle the whole pool</option>
+                <option value="sets">Run in sets (marquee, capped, uncapped...)</option>
+              </select>
+
+              {form.playerOrder === 'sets' && (
+                <div className="mt-3">
+                  <PlayerSetsEditor
+                    sets={form.playerSets}
+                    onChange={(playerSets) => setForm({ ...form, playerSets })}
+                  />
+                </div>
+              )}
+              {errors.playerSets && <div className="form-error">{errors.playerSets}</div>}
+            </div>
+
             <div className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 border border-yellow-500/20 rounded-lg p-4">
               <div className="flex items-center gap-3 mb-2">
                 <Crown className="w-5 h-5 text-yellow-500" />
                 <div className="font-semibold">Budget Information</div>
               </div>
               <div className="text-sm" style={{ color: 'var(--text-muted)' }}>
-                Each team will have a budget of ₹120 Crores to build their squad, just like the real IPL auction!
+                Each team will have a budget of {formatMoney(FIXED_BUDGET)} to build their squad, just like the real IPL auction!
               </div>
             </div>
 
@@ -586,7 +1250,7 @@ export default function CreateAuctionPage() {
                 ) : (
                   <>
                     <Play className="w-4 h-4" />
-                    Create Auction
+                    {isPractice ? 'Start Practice' : 'Create Auction'}
                   </>
                 )}
               </button>
@@ -3,8 +3,10 @@
 import { useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
+import { formatMoney } from '@/lib/money';
 import FranchiseLogo from '@/components/FranchiseLogo';
-import { Users, Trophy, CheckCircle, Target, UserPlus, LogOut, User, ChevronDown } from 'lucide-react';
+import { Users, Trophy, CheckCircle, Target, UserPlus, LogOut, User, ChevronDown, Eye } from 'lucide-react';
+import type { AuctionRoomSettings } from '@/types/auction';
 
 interface IPLTeam {
   id: string;
@@ -26,6 +28,7 @@ interface AuctionRoom {
   max_participants: number;
   budget_per_team: number;
   players_per_team: number;
+  settings?: Partial<AuctionRoomSettings> | null;
 }
 
 interface User {
@@ -105,12 +108,53 @@ export default function JoinAuctionClient() {
         return;
       }
 
+      // Co-owner invite links join the user to an existing franchise instead of a new one
+      const inviteCode = searchParams.get('invite');
+      if (inviteCode) {
+        const response = await fetch(`/api/auction/${roomData.id}/co-owners`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session.access_token}`
+          },
+          body: JSON.stringify({ action: 'accept', code: inviteCode })
+        });
+
+        const result = await response.json();
+        if (!response.ok || !result.ok) {
+          setError(result.message || result.error || 'Could not accept the co-owner invite');
+          return;
+        }
+
+        router.push(`/auction/${roomData.room_key}`);
+        return;
+      }
+
+      // Co-owners already have a team in the room
+      const { data: coOwnedTeam } = await supabase
+        .from('auction_co_owners')
+        .select('id')
+        .eq('room_id', roomData.id)
+        .eq('user_id', session.user.id)
+        .maybeSingle();
+
+      if (coOwnedTeam) {
+        router.push(`/auction/${roomData.room_key}`);
+        return;
+      }
+
       // Check if user is the auctioneer
       if (roomData.creator_id === session.user.id) {
         router.push(`/auction/${roomData.room_key}`);
         return;
       }
 
+      // Practice rooms are one person against bots
+      if (roomData.settings?.practice) {
+        setError('This is a solo practice room - start your own practice auction from the create page');
+        return;
+      }
+
       // Check if room is full (max participants reached)
       const { data: currentParticipants, error: participantCountError } = await supabase
         .from('auction_participants')
@@ -240,6 +284,9 @@ export default function JoinAuctionClient() {
     initializePage();
   }, [roomKey]);
 
+  // Anyone signed in can watch instead of taking a franchise, unless the auctioneer has turned spectators off
+  const canSpectate = !!room && !room.settings?.practice && room.settings?.allowSpectators !== false;
+
   if (loading) {
     return (
       <div className="loading">
@@ -271,12 +318,23 @@ export default function JoinAuctionClient() {
             </div>
             <h1 className="text-4xl font-bold mb-4">Unable to Join Auction</h1>
             <p className="text-xl mb-8" style={{ color: 'var(--text-muted)' }}>{error}</p>
-            <button
-              onClick={() => router.push('/dashboard')}
-              className="btn btn-primary"
-            >
-              Back to Dashboard
-            </button>
+            <div className="flex gap-4 justify-center">
+              {canSpectate && (
+                <button
+                  onClick={() => router.push(`/auction/${room!.room_key}`)}
+                  className="btn btn-secondary"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Watch as Spectator
+                </button>
+              )}
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="btn btn-primary"
+              >
+                Back to Dashboard
+              </button>
+            </div>
           </div>
         </main>
       </div>
@@ -384,7 +442,7 @@ export default function JoinAuctionClient() {
                     <Target className="w-6 h-6 text-white" />
                   </div>
                   <h3 className="text-lg font-bold mb-2">Budget</h3>
-                  <p className="text-2xl font-bold text-green-400 mb-1">₹{room.budget_per_team / 100}Cr</p>
+                  <p className="text-2xl font-bold text-green-400 mb-1">{formatMoney(room.budget_per_team)}</p>
                   <p className="text-sm" style={{ color: 'var(--text-muted)' }}>Starting budget per team</p>
                 </div>
 
@@ -522,6 +580,15 @@ export default function JoinAuctionClient() {
               >
                 Cancel
               </button>
+              {canSpectate && (
+                <button
+                  onClick={() => router.push(`/auction/${room!.room_key}`)}
+                  className="btn btn-secondary px-8 py-3 text-lg font-medium rounded-lg"
+                >
+                  <Eye className="w-5 h-5 mr-2" />
+                  Just Watch
+                </button>
+              )}
               <button
                 onClick={joinAuction}
                 disabled={!selectedTeam || joining}
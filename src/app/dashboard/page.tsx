@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
 import { Plus, Users, Clock, Trophy, Settings, LogOut, Zap, Target, Play, Crown, ChevronDown, User, Calendar, Star, Trash2, DoorOpen } from 'lucide-react';
+import type { AuctionRoomSettings } from '@/types/auction';
 
 interface UserProfile {
   id: string;
@@ -21,6 +22,7 @@ interface AuctionRoom {
   creator_id: string;
   budget_per_team: number;
   players_per_team: number;
+  settings?: AuctionRoomSettings | null;
 }
 
 interface AuctionParticipant {
@@ -201,6 +203,9 @@ export default function Dashboard() {
         setCreatedAuctions(createdAuctionsData || []);
       }
 
+      // Solo practice rooms are listed under the user's own auctions only, and never counted in the stats
+      const isPracticeRoom = (room: AuctionRoom) => !!room.settings?.practice;
+
       // Load participated auctions - show waiting, active, and paused (exclude completed)
       const { data: participatedAuctionsData, error: participatedError } = await supabase
         .from('auction_participants')
@@ -213,12 +218,12 @@ export default function Dashboard() {
         .order('joined_at', { ascending: false });
 
       if (!participatedError) {
-        setParticipatedAuctions(participatedAuctionsData || []);
+        setParticipatedAuctions((participatedAuctionsData || []).filter(p => !isPracticeRoom(p.auction_room)));
       }
 
       // Calculate stats - exclude completed ones from active counts
-      const createdCount = createdAuctionsData?.length || 0;
-      const participatedCount = participatedAuctionsData?.length || 0;
+      const createdCount = createdAuctionsData?.filter(a => !isPracticeRoom(a)).length || 0;
+      const participatedCount = participatedAuctionsData?.filter(p => !isPracticeRoom(p.auction_room)).length || 0;
       const totalCount = createdCount + participatedCount;
 
       // For completed count, get all completed auctions
@@ -235,8 +240,8 @@ export default function Dashboard() {
         `)
         .eq('user_id', userId);
 
-      const completedCount = (allCreatedAuctions?.filter(a => a.status === 'completed').length || 0) +
-                           (allParticipatedAuctions?.filter(p => p.auction_room.status === 'completed').length || 0);
+      const completedCount = (allCreatedAuctions?.filter(a => a.status === 'completed' && !isPracticeRoom(a)).length || 0) +
+                           (allParticipatedAuctions?.filter(p => p.auction_room.status === 'completed' && !isPracticeRoom(p.auction_room)).length || 0);
 
       setStats({
         createdAuctions: createdCount,
@@ -336,14 +341,7 @@ export default function Dashboard() {
         throw updateError;
       }
 
-      // Also mark auction state as inactive
-      await supabase
-        .from('auction_state')
-        .update({
-          is_active: false,
-          is_paused: true
-        })
-        .eq('room_id', auctionId);
+      // The room's state row is closed by the database when the status changes
 
       console.log('Auction marked as completed successfully');
       alert('Auction ended successfully!');
@@ -363,12 +361,17 @@ export default function Dashboard() {
     }
 
     try {
-      const { error } = await supabase
+      // Seats can only be given up before the auction starts; after that nothing is deleted
+      const { data: removed, error } = await supabase
         .from('auction_participants')
         .delete()
-        .eq('id', participationId);
+        .eq('id', participationId)
+        .select('id');
 
       if (error) throw error;
+      if (!removed || removed.length === 0) {
+        throw new Error('You can only exit an auction before it starts');
+      }
 
       alert('Successfully exited the auction!');
 
@@ -709,7 +712,12 @@ export default function Dashboard() {
                     <div key={auction.id} className="auction-card">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h4 className="font-semibold">{auction.name}</h4>
+                          <h4 className="font-semibold">
+                            {auction.name}
+                            {auction.settings?.practice && (
+                              <span className="text-xs font-normal ml-2" style={{ color: 'var(--text-muted)' }}>Practice</span>
+                            )}
+                          </h4>
                           <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
                             Room Key: {auction.room_key}
                           </p>
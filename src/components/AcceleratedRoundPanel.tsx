@@ -0,0 +1,130 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Play, Zap } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import type { CompletedPlayerRecord } from '@/types/auction';
+
+interface AcceleratedRoundPanelProps {
+  /** Players left unsold at the end of the round */
+  unsoldPlayers: CompletedPlayerRecord[];
+  /** Round that just finished (1 for the main queue) */
+  roundNumber: number;
+  isAuctioneer: boolean;
+  /** Whether the viewer owns a team and so can nominate */
+  canNominate: boolean;
+  myNominations: string[];
+  maxNominations: number;
+  /** Seconds per player in the accelerated round */
+  timerSeconds: number;
+  /** Percentage knocked off base prices in the accelerated round */
+  basePriceCut: number;
+  countFor: (playerId: string) => number;
+  onToggleNomination: (playerId: string) => Promise<void>;
+  onStartRound: (mode: 'all' | 'nominated') => Promise<void>;
+}
+
+/**
+ * Shown between rounds: teams nominate unsold players, the auctioneer brings them back
+ */
+const AcceleratedRoundPanel: React.FC<AcceleratedRoundPanelProps> = ({
+  unsoldPlayers,
+  roundNumber,
+  isAuctioneer,
+  canNominate,
+  myNominations,
+  maxNominations,
+  timerSeconds,
+  basePriceCut,
+  countFor,
+  onToggleNomination,
+  onStartRound
+}) => {
+  const [busy, setBusy] = useState(false);
+
+  const nominatedCount = unsoldPlayers.filter(player => countFor(player.id) > 0).length;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-cyan-500/10 to-purple-500/10 border border-cyan-500/20 rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Zap className="w-5 h-5 text-cyan-400" />
+        <h3 className="text-lg font-bold text-cyan-400">
+          {roundNumber === 1 ? 'Main Round Complete' : `Accelerated Round ${roundNumber - 1} Complete`}
+        </h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        {unsoldPlayers.length} unsold player{unsoldPlayers.length === 1 ? '' : 's'} • Next round: {timerSeconds}s per player
+        {basePriceCut > 0 ? `, base prices cut by ${basePriceCut}%` : ''}
+        {canNominate && ` • Your nominations: ${myNominations.length}/${maxNominations}`}
+      </p>
+
+      <div className="space-y-2 overflow-y-auto pr-2 mb-4" style={{ maxHeight: '180px' }}>
+        {unsoldPlayers.map(player => {
+          const nominated = myNominations.includes(player.id);
+          const votes = countFor(player.id);
+
+          return (
+            <div key={player.id} className="flex items-center justify-between bg-gray-800/40 border border-gray-600/30 rounded-lg px-3 py-2">
+              <div>
+                <div className="text-sm font-semibold text-white">{player.name}</div>
+                <div className="text-xs text-gray-400">
+                  {player.role}
+                  {player.base_price !== undefined && ` • Base ${formatMoney(player.base_price)}`}
+                  {player.is_overseas && ' • Overseas'}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                {votes > 0 && (
+                  <span className="text-xs text-cyan-400">{votes} nomination{votes === 1 ? '' : 's'}</span>
+                )}
+                {canNominate && (
+                  <button
+                    onClick={() => run(() => onToggleNomination(player.id))}
+                    disabled={busy || (!nominated && myNominations.length >= maxNominations)}
+                    className={`btn ${nominated ? 'btn-success' : 'btn-secondary'} py-1 px-3 text-xs`}
+                  >
+                    {nominated ? 'Nominated' : 'Nominate'}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {isAuctioneer && (
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => run(() => onStartRound('nominated'))}
+            disabled={busy || nominatedCount === 0}
+            className="btn btn-primary py-3 px-4 text-sm"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            Run Nominated ({nominatedCount})
+          </button>
+          <button
+            onClick={() => run(() => onStartRound('all'))}
+            disabled={busy}
+            className="btn btn-success py-3 px-4 text-sm"
+          >
+            <Zap className="w-4 h-4 mr-2" />
+            Bring Back All ({unsoldPlayers.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AcceleratedRoundPanel;
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import type { AuctionAuditEntry } from '@/types/auction';
+
+interface AuditTrailProps {
+  /** Entries newest first */
+  entries: AuctionAuditEntry[];
+}
+
+/**
+ * One line describing an audit entry, e.g. "Priya undid the sale of Dhoni to CSK for ₹12Cr"
+ */
+const describeEntry = (entry: AuctionAuditEntry): string => {
+  const { actor_name, player_name, team_name, amount } = entry.details;
+  const actor = actor_name || 'The auctioneer';
+  const player = player_name || 'a player';
+
+  if (entry.action === 'undo_sale') {
+    return `${actor} undid the sale of ${player} to ${team_name || 'a team'}${amount ? ` for ${formatMoney(amount)}` : ''}`;
+  }
+  if (entry.action === 'undo_unsold') {
+    return `${actor} undid ${player} going unsold`;
+  }
+  return `${actor} restored the auction from its event log (${entry.details.events ?? 0} events)`;
+};
+
+/**
+ * Corrections the auctioneer has made in this room, visible to every participant
+ */
+const AuditTrail: React.FC<AuditTrailProps> = ({ entries }) => (
+  <div className="space-y-2 overflow-y-auto pr-2" style={{ maxHeight: '200px' }}>
+    {entries.map(entry => (
+      <div key={entry.id} className="flex items-center justify-between gap-3 text-sm bg-gray-800/40 border border-gray-600/30 rounded-lg px-3 py-2">
+        <span className="flex items-center gap-2 text-gray-300">
+          <RotateCcw className="w-4 h-4 text-orange-400 flex-shrink-0" />
+          {describeEntry(entry)}
+        </span>
+        <span className="text-xs text-gray-500 whitespace-nowrap">
+          {new Date(entry.created_at).toLocaleTimeString()}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default AuditTrail;
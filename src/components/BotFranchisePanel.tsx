@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Bot, X } from 'lucide-react';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+import FranchiseLogo from './FranchiseLogo';
+import type { BotPersonality } from '@/types/auction';
+
+interface BotFranchise {
+  id: string;
+  team_short_name?: string;
+  bot_personality?: BotPersonality | null;
+}
+
+interface BotFranchisePanelProps {
+  bots: BotFranchise[];
+  /** Franchises still free in the room */
+  openSeats: number;
+  onAdd: (personality: BotPersonality, count: number) => Promise<void>;
+  onRemove: (participantId: string) => Promise<void>;
+}
+
+/**
+ * Auctioneer's lobby control for filling empty franchises with computer-controlled teams
+ */
+const BotFranchisePanel: React.FC<BotFranchisePanelProps> = ({ bots, openSeats, onAdd, onRemove }) => {
+  const [personality, setPersonality] = useState<BotPersonality>('balanced');
+  const [count, setCount] = useState(1);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/30 border border-gray-700/40 rounded-xl p-4 mb-6 space-y-3">
+      <div className="flex items-center gap-2">
+        <Bot className="w-5 h-5 text-cyan-400" />
+        <h4 className="font-semibold text-white">Bot Franchises</h4>
+        <span className="text-xs text-gray-400">
+          {openSeats > 0 ? `${openSeats} franchise${openSeats === 1 ? '' : 's'} open` : 'Room is full'}
+        </span>
+      </div>
+
+      {openSeats > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="form-input py-1 text-sm w-auto"
+            value={personality}
+            onChange={(e) => setPersonality(e.target.value as BotPersonality)}
+          >
+            {(Object.keys(BOT_PERSONALITIES) as BotPersonality[]).map(key => (
+              <option key={key} value={key}>{BOT_PERSONALITIES[key].label}</option>
+            ))}
+          </select>
+          <select
+            className="form-input py-1 text-sm w-auto"
+            value={Math.min(count, openSeats)}
+            onChange={(e) => setCount(Number(e.target.value))}
+          >
+            {Array.from({ length: openSeats }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n} bot{n === 1 ? '' : 's'}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => run(() => onAdd(personality, Math.min(count, openSeats)))}
+            disabled={busy}
+            className="btn btn-secondary btn-sm"
+          >
+            Add
+          </button>
+          <button
+            onClick={() => run(() => onAdd(personality, openSeats))}
+            disabled={busy}
+            className="btn btn-secondary btn-sm"
+          >
+            Fill all
+          </button>
+          <span className="text-xs text-gray-500 w-full">{BOT_PERSONALITIES[personality].description}</span>
+        </div>
+      )}
+
+      {bots.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {bots.map(bot => (
+            <div key={bot.id} className="flex items-center gap-2 bg-gray-900/50 border border-gray-700/50 rounded-lg px-2 py-1">
+              <FranchiseLogo franchiseCode={bot.team_short_name || ''} size="xs" />
+              <span className="text-xs text-white">{bot.team_short_name}</span>
+              <span className="text-xs text-gray-400">
+                {bot.bot_personality ? BOT_PERSONALITIES[bot.bot_personality].label : 'Bot'}
+              </span>
+              <button
+                onClick={() => run(() => onRemove(bot.id))}
+                disabled={busy}
+                className="text-gray-400 hover:text-white"
+                title="Remove bot"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BotFranchisePanel;
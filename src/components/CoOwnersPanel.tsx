@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Copy, UserPlus, X } from 'lucide-react';
+import type { AuctionCoOwner } from '@/types/auction';
+
+interface CoOwnersPanelProps {
+  ownerName: string;
+  coOwners: AuctionCoOwner[];
+  /** The user is the team's primary owner, so may invite and remove */
+  isPrimaryOwner: boolean;
+  roomKey: string;
+  maxCoOwners: number;
+  /** Creates a fresh invite code; earlier links stop working */
+  onInvite: () => Promise<string>;
+  onRemove: (userId: string) => Promise<void>;
+}
+
+/**
+ * Who manages the user's franchise, with an invite link for the primary owner to share
+ */
+const CoOwnersPanel: React.FC<CoOwnersPanelProps> = ({
+  ownerName,
+  coOwners,
+  isPrimaryOwner,
+  roomKey,
+  maxCoOwners,
+  onInvite,
+  onRemove
+}) => {
+  const [inviteLink, setInviteLink] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createInvite = () => run(async () => {
+    const code = await onInvite();
+    setInviteLink(`${window.location.origin}/auction/join?roomKey=${roomKey}&invite=${code}`);
+    setCopied(false);
+  });
+
+  const copyInvite = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-white">{ownerName}</span>
+          <span className="text-xs text-yellow-400">Owner</span>
+        </div>
+        {coOwners.map(coOwner => (
+          <div key={coOwner.id} className="flex items-center justify-between">
+            <span className="text-white">{coOwner.user_name}</span>
+            <span className="flex items-center gap-2 text-xs text-gray-400">
+              Co-owner
+              {isPrimaryOwner && (
+                <button
+                  onClick={() => run(() => onRemove(coOwner.user_id))}
+                  disabled={busy}
+                  className="text-gray-400 hover:text-white"
+                  title="Remove co-owner"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {isPrimaryOwner && coOwners.length < maxCoOwners && (
+        <div className="space-y-2">
+          <button onClick={createInvite} disabled={busy} className="btn btn-secondary btn-sm w-full">
+            <UserPlus className="w-4 h-4 mr-1" />
+            {inviteLink ? 'New Invite Link' : 'Invite Co-owner'}
+          </button>
+          {inviteLink && (
+            <div className="flex items-center gap-2">
+              <input type="text" readOnly className="form-input py-1 text-xs flex-1" value={inviteLink} />
+              <button onClick={copyInvite} className="btn btn-secondary btn-sm" title="Copy invite link">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoOwnersPanel;
@@ -0,0 +1,282 @@
+'use client';
+
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { Search, Star } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import {
+  CATEGORY_SHORT_LABELS,
+  formatPlayerRole,
+  getCategoryBadgeClass,
+  getPlayerCategory,
+  PLAYER_CATEGORIES
+} from '@/lib/playerRoles';
+import FranchiseLogo from './FranchiseLogo';
+import type { AuctionStateRecord, PlayerCategory } from '@/types/auction';
+
+interface CatalogueTeam {
+  id: string;
+  team_short_name?: string;
+}
+
+interface PlayerCatalogueProps {
+  auctionState: Pick<AuctionStateRecord, 'player_queue' | 'sold_players' | 'unsold_players' | 'current_player_id'>;
+  participants: CatalogueTeam[];
+  /** Players on the user's shortlist, highlighted and filterable */
+  shortlistedIds?: string[];
+  onToggleShortlist?: (playerId: string) => void;
+}
+
+type CatalogueStatus = 'remaining' | 'current' | 'sold' | 'unsold';
+
+/**
+ * One player in the catalogue, whatever list they currently sit in
+ */
+interface CatalogueEntry {
+  id: string;
+  name: string;
+  role?: string;
+  category: PlayerCategory | null;
+  country?: string;
+  is_overseas: boolean;
+  base_price: number;
+  status: CatalogueStatus;
+  final_price?: number;
+  team_code?: string;
+  /** Lower-cased name, precomputed for search */
+  search: string;
+}
+
+/**
+ * Base price bands offered as a filter, in lakhs (upper bound exclusive)
+ */
+const PRICE_BANDS = [
+  { id: 'under_50', label: 'Under ₹50L', min: 0, max: 50 },
+  { id: '50_to_100', label: '₹50L – ₹1Cr', min: 50, max: 100 },
+  { id: '100_to_200', label: '₹1Cr – ₹2Cr', min: 100, max: 200 },
+  { id: '200_up', label: '₹2Cr and up', min: 200, max: Infinity }
+];
+
+const STATUS_TABS: { id: 'remaining' | 'sold' | 'unsold' | 'all'; label: string }[] = [
+  { id: 'remaining', label: 'Remaining' },
+  { id: 'sold', label: 'Sold' },
+  { id: 'unsold', label: 'Unsold' },
+  { id: 'all', label: 'All' }
+];
+
+/**
+ * Browsable list of every player in the room: still to come, sold (with team and price) and unsold
+ * Searches by name and filters by category, country, overseas and base-price band; rebuilt whenever the auction state changes
+ */
+const PlayerCatalogue: React.FC<PlayerCatalogueProps> = ({ auctionState, participants, shortlistedIds = [], onToggleShortlist }) => {
+  const [query, setQuery] = useState('');
+  const [statusTab, setStatusTab] = useState<(typeof STATUS_TABS)[number]['id']>('remaining');
+  const [category, setCategory] = useState<PlayerCategory | ''>('');
+  const [country, setCountry] = useState('');
+  const [overseas, setOverseas] = useState<'' | 'overseas' | 'indian'>('');
+  const [priceBand, setPriceBand] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+
+  // Typing stays responsive while a long list re-filters
+  const deferredQuery = useDeferredValue(query.trim().toLowerCase());
+
+  const entries = useMemo(() => {
+    const { player_queue, sold_players, unsold_players, current_player_id } = auctionState;
+    const byId = new Map<string, CatalogueEntry>();
+    const teamCode = (participantId?: string | null, teamId?: string | null) =>
+      participants.find(p => p.id === participantId)?.team_short_name || teamId || undefined;
+
+    (player_queue || []).forEach(player => {
+      byId.set(player.id, {
+        id: player.id,
+        name: player.name,
+        role: player.role,
+        category: getPlayerCategory(player.role),
+        country: player.country || player.nationality,
+        is_overseas: !!player.is_overseas,
+        base_price: player.original_base_price ?? player.base_price,
+        status: player.id === current_player_id ? 'current' : 'remaining',
+        search: player.name.toLowerCase()
+      });
+    });
+
+    // Completed lots take precedence; accelerated rounds drop sold players from the queue, so add them back
+    const settle = (records: AuctionStateRecord['sold_players'], status: 'sold' | 'unsold') => {
+      (records || []).forEach(record => {
+        const queued = byId.get(record.id);
+        if (status === 'unsold' && queued?.status === 'current') return;
+
+        byId.set(record.id, {
+          id: record.id,
+          name: record.name,
+          role: record.role ?? queued?.role,
+          category: getPlayerCategory(record.role ?? queued?.role),
+          country: queued?.country,
+          is_overseas: !!(record.is_overseas ?? queued?.is_overseas),
+          base_price: record.base_price ?? queued?.base_price ?? 0,
+          status,
+          final_price: status === 'sold' ? record.final_price : undefined,
+          team_code: status === 'sold' ? teamCode(record.sold_to_participant, record.sold_to_team) : undefined,
+          search: record.name.toLowerCase()
+        });
+      });
+    };
+    settle(unsold_players, 'unsold');
+    settle(sold_players, 'sold');
+
+    return Array.from(byId.values());
+  }, [auctionState, participants]);
+
+  const countries = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.country).filter((c): c is string => !!c))).sort(),
+    [entries]
+  );
+
+  const statusCounts = useMemo(() => {
+    const counts = { remaining: 0, sold: 0, unsold: 0, all: entries.length };
+    entries.forEach(entry => {
+      if (entry.status === 'sold') counts.sold++;
+      else if (entry.status === 'unsold') counts.unsold++;
+      else counts.remaining++;
+    });
+    return counts;
+  }, [entries]);
+
+  const visible = useMemo(() => {
+    const band = PRICE_BANDS.find(b => b.id === priceBand);
+
+    return entries
+      .filter(entry => {
+        if (statusTab === 'remaining' && entry.status !== 'remaining' && entry.status !== 'current') return false;
+        if ((statusTab === 'sold' || statusTab === 'unsold') && entry.status !== statusTab) return false;
+        if (deferredQuery && !entry.search.includes(deferredQuery)) return false;
+        if (category && entry.category !== category) return false;
+        if (country && entry.country !== country) return false;
+        if (overseas && entry.is_overseas !== (overseas === 'overseas')) return false;
+        if (band && (entry.base_price < band.min || entry.base_price >= band.max)) return false;
+        if (starredOnly && !shortlistedIds.includes(entry.id)) return false;
+        return true;
+      })
+      .sort((a, b) => {
+        if (statusTab === 'sold') return (b.final_price || 0) - (a.final_price || 0);
+        return a.name.localeCompare(b.name);
+      });
+  }, [entries, statusTab, deferredQuery, category, country, overseas, priceBand, starredOnly, shortlistedIds]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setStatusTab(tab.id)}
+            className={`btn btn-sm ${statusTab === tab.id ? 'btn-primary' : 'btn-secondary'}`}
+          >
+            {tab.label} ({statusCounts[tab.id]})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <div className="relative flex-1 min-w-[10rem]">
+          <Search className="w-4 h-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            className="form-input text-xs pl-8"
+            placeholder="Search players"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <select className="form-input py-1 text-xs w-auto" value={category} onChange={(e) => setCategory(e.target.value as PlayerCategory | '')}>
+          <option value="">All roles</option>
+          {PLAYER_CATEGORIES.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <select className="form-input py-1 text-xs w-auto" value={country} onChange={(e) => setCountry(e.target.value)}>
+          <option value="">All countries</option>
+          {countries.map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+        <select className="form-input py-1 text-xs w-auto" value={overseas} onChange={(e) => setOverseas(e.target.value as typeof overseas)}>
+          <option value="">Indian and overseas</option>
+          <option value="indian">Indian only</option>
+          <option value="overseas">Overseas only</option>
+        </select>
+        <select className="form-input py-1 text-xs w-auto" value={priceBand} onChange={(e) => setPriceBand(e.target.value)}>
+          <option value="">Any base price</option>
+          {PRICE_BANDS.map(band => (
+            <option key={band.id} value={band.id}>{band.label}</option>
+          ))}
+        </select>
+        {onToggleShortlist && (
+          <label className="flex items-center gap-1 text-gray-300">
+            <input type="checkbox" checked={starredOnly} onChange={(e) => setStarredOnly(e.target.checked)} />
+            Starred only
+          </label>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto space-y-1 pr-2">
+        {visible.length === 0 ? (
+          <p className="text-center text-sm py-6" style={{ color: 'var(--text-muted)' }}>No players match</p>
+        ) : (
+          visible.map(entry => (
+            <div
+              key={entry.id}
+              className={`flex items-center justify-between gap-3 rounded-lg border px-3 py-2 ${
+                entry.status === 'current' ? 'bg-green-500/10 border-green-500/30' :
+                shortlistedIds.includes(entry.id) && entry.status === 'remaining' ? 'bg-amber-500/10 border-amber-500/30' :
+                entry.status === 'sold' ? 'bg-gray-800/40 border-gray-700/40' :
+                entry.status === 'unsold' ? 'bg-red-500/5 border-red-500/20' :
+                'bg-gray-800/20 border-gray-700/30'
+              }`}
+            >
+              {onToggleShortlist && (
+                <button
+                  onClick={() => onToggleShortlist(entry.id)}
+                  className="flex-shrink-0 p-1"
+                  title={shortlistedIds.includes(entry.id) ? 'Remove from shortlist' : 'Add to shortlist'}
+                >
+                  <Star className={`w-4 h-4 ${shortlistedIds.includes(entry.id) ? 'text-amber-400 fill-amber-400' : 'text-gray-500'}`} />
+                </button>
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm text-white truncate">{entry.name}</span>
+                  {entry.status === 'current' && <span className="text-xs text-green-400 font-semibold">LIVE</span>}
+                  {entry.status === 'unsold' && <span className="text-xs text-red-400 font-semibold">UNSOLD</span>}
+                </div>
+                <div className="flex items-center gap-2 text-xs text-gray-400 mt-0.5">
+                  <span className={`px-1.5 py-0.5 rounded-full border ${getCategoryBadgeClass(entry.category)}`} title={formatPlayerRole(entry.role)}>
+                    {entry.category ? CATEGORY_SHORT_LABELS[entry.category] : entry.role || '—'}
+                  </span>
+                  {entry.country && <span className="truncate">{entry.country}</span>}
+                  {entry.is_overseas && <span className="text-cyan-400">• Overseas</span>}
+                </div>
+              </div>
+              <div className="text-right flex-shrink-0">
+                {entry.status === 'sold' ? (
+                  <div className="flex items-center gap-2">
+                    <FranchiseLogo franchiseCode={entry.team_code || ''} size="xs" />
+                    <div>
+                      <div className="text-sm font-bold text-yellow-400">{formatMoney(entry.final_price || 0)}</div>
+                      <div className="text-xs text-gray-400">{entry.team_code || 'Sold'}</div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-400">
+                    Base <span className="text-yellow-500 font-medium">{formatMoney(entry.base_price)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerCatalogue;
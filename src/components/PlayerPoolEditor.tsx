@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { formatMoney } from '@/lib/money';
+import { PLAYER_ROLE_GROUP_LABELS } from '@/lib/playerSets';
+import { describePlayerPool, matchesPoolFilter, toPoolPlayer } from '@/lib/playerPool';
+import { parsePlayerCsv, PlayerImportError, PlayerImportRow } from '@/lib/playerImport';
+import type { AuctionPlayer, PlayerPool, PlayerPoolFilter, PlayerRoleGroup } from '@/types/auction';
+
+interface PlayerPoolEditorProps {
+  pool: PlayerPool;
+  onChange: (pool: PlayerPool) => void;
+  /** Checked rows of the room's own CSV; the page stores them once the room exists */
+  csvRows: PlayerImportRow[];
+  onCsvRowsChange: (rows: PlayerImportRow[]) => void;
+}
+
+/** Base price steps offered for pool price bounds, in lakhs */
+const PRICE_OPTIONS = [20, 30, 50, 75, 100, 150, 200];
+
+/** CSV problems listed before the rest are summarised */
+const SHOWN_CSV_ERRORS = 5;
+
+/**
+ * Chooses which players a room auctions: everyone, a filter, a hand-picked list or an uploaded CSV
+ * Shows how many players the choice gives
+ */
+const PlayerPoolEditor: React.FC<PlayerPoolEditorProps> = ({ pool, onChange, csvRows, onCsvRowsChange }) => {
+  const [players, setPlayers] = useState<AuctionPlayer[]>([]);
+  const [search, setSearch] = useState('');
+  const [csvFileName, setCsvFileName] = useState('');
+  const [csvErrors, setCsvErrors] = useState<PlayerImportError[]>([]);
+
+  // Load the whole table once for filter counts, countries and the hand-pick search
+  useEffect(() => {
+    const loadPlayers = async () => {
+      const { data, error } = await supabase
+        .from('players')
+        .select('id, name, role, country, base_price, is_overseas, is_capped')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading players for the pool:', error);
+        return;
+      }
+
+      setPlayers((data || []).map(toPoolPlayer));
+    };
+
+    loadPlayers();
+  }, []);
+
+  const countries = useMemo(
+    () => Array.from(new Set(players.map(player => player.country).filter((country): country is string => !!country))).sort(),
+    [players]
+  );
+
+  const poolSize = useMemo(() => {
+    if (pool.source === 'filter') return players.filter(player => matchesPoolFilter(player, pool.filter)).length;
+    if (pool.source === 'picked') return pool.playerIds.length;
+    if (pool.source === 'csv') return csvRows.length;
+    return players.length;
+  }, [players, pool, csvRows]);
+
+  const setSource = (source: PlayerPool['source']) => {
+    if (source === 'filter') onChange({ source, filter: {} });
+    else if (source === 'picked') onChange({ source, playerIds: [] });
+    else onChange({ source });
+  };
+
+  const updateFilter = (changes: Partial<PlayerPoolFilter>) => {
+    if (pool.source !== 'filter') return;
+    const filter: PlayerPoolFilter = { ...pool.filter, ...changes };
+    (Object.keys(filter) as (keyof PlayerPoolFilter)[]).forEach(key => {
+      const value = filter[key];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) delete filter[key];
+    });
+    onChange({ source: 'filter', filter });
+  };
+
+  const toggleItem = <T,>(items: T[] | undefined, item: T): T[] =>
+    (items || []).includes(item) ? (items || []).filter(i => i !== item) : [...(items || []), item];
+
+  const handleCsv = async (file: File | undefined) => {
+    if (!file) return;
+    const { rows, errors } = parsePlayerCsv(await file.text());
+    setCsvFileName(file.name);
+    setCsvErrors(errors);
+    onCsvRowsChange(rows);
+  };
+
+  const parsePrice = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+  const pickedIds = pool.source === 'picked' ? pool.playerIds : [];
+  const query = search.trim().toLowerCase();
+  const matches = query
+    ? players.filter(p => p.name.toLowerCase().includes(query) && !pickedIds.includes(p.id)).slice(0, 6)
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <select
+        className="form-input"
+        value={pool.source}
+        onChange={(e) => setSource(e.target.value as PlayerPool['source'])}
+      >
+        <option value="all">Every player in the database</option>
+        <option value="filter">Players matching a filter</option>
+        <option value="picked">Hand-picked players</option>
+        <option value="csv">Upload this room&apos;s own players (CSV)</option>
+      </select>
+
+      {pool.source === 'filter' && (
+        <div className="border border-gray-700/40 rounded-lg p-3 space-y-2 text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(PLAYER_ROLE_GROUP_LABELS) as PlayerRoleGroup[]).map(role => (
+              <label key={role} className="flex items-center gap-1 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!pool.filter.roles?.includes(role)}
+                  onChange={() => updateFilter({ roles: toggleItem(pool.filter.roles, role) })}
+                />
+                {PLAYER_ROLE_GROUP_LABELS[role]}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="form-input py-1 text-xs w-auto"
+              value={pool.filter.overseas === undefined ? '' : pool.filter.overseas ? 'overseas' : 'indian'}
+              onChange={(e) => updateFilter({ overseas: e.target.value === '' ? undefined : e.target.value === 'overseas' })}
+            >
+              <option value="">Indian and overseas</option>
+              <option value="indian">Indian only</option>
+              <option value="overseas">Overseas only</option>
+            </select>
+            <select
+              className="form-input py-1 text-xs w-auto"
+              value={pool.filter.minBasePrice ?? ''}
+              onChange={(e) => updateFilter({ minBasePrice: parsePrice(e.target.value) })}
+            >
+              <option value="">Any min price</option>
+              {PRICE_OPTIONS.map(price => (
+                <option key={price} value={price}>From {formatMoney(price)}</option>
+              ))}
+            </select>
+            <select
+              className="form-input py-1 text-xs w-auto"
+              value={pool.filter.maxBasePrice ?? ''}
+              onChange={(e) => updateFilter({ maxBasePrice: parsePrice(e.target.value) })}
+            >
+              <option value="">Any max price</option>
+              {PRICE_OPTIONS.map(price => (
+                <option key={price} value={price}>Up to {formatMoney(price)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {countries.map(country => {
+              const selected = !!pool.filter.countries?.includes(country);
+              return (
+                <button
+                  key={country}
+                  type="button"
+                  className={`px-2 py-0.5 rounded-full border ${selected ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'border-gray-600/40 text-gray-400'}`}
+                  onClick={() => updateFilter({ countries: toggleItem(pool.filter.countries, country) })}
+                >
+                  {country}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {pool.source === 'picked' && (
+        <div className="border border-gray-700/40 rounded-lg p-3 space-y-2">
+          <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+            {pickedIds.map(playerId => (
+              <span key={playerId} className="text-xs bg-purple-500/20 text-purple-300 px-2 py-0.5 rounded-full flex items-center gap-1">
+                {players.find(p => p.id === playerId)?.name || 'Unknown player'}
+                <button
+                  type="button"
+                  onClick={() => onChange({ source: 'picked', playerIds: pickedIds.filter(id => id !== playerId) })}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <input
+            type="text"
+            className="form-input text-xs"
+            placeholder="Add players by name"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          {matches.length > 0 && (
+            <div className="space-y-1">
+              {matches.map(player => (
+                <button
+                  key={player.id}
+                  type="button"
+                  className="w-full text-left text-xs px-2 py-1 rounded hover:bg-gray-800/60 text-gray-300"
+                  onClick={() => {
+                    onChange({ source: 'picked', playerIds: [...pickedIds, player.id] });
+                    setSearch('');
+                  }}
+                >
+                  {player.name} • {player.role} • {formatMoney(player.base_price)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {pool.source === 'csv' && (
+        <div className="border border-gray-700/40 rounded-lg p-3 space-y-2 text-xs">
+          <label className="flex items-center gap-2 cursor-pointer text-gray-300">
+            <FileUp className="w-4 h-4" />
+            {csvFileName || 'Choose a CSV file (name, role, base_price; optional country, is_overseas, ...)'}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleCsv(e.target.files?.[0])}
+            />
+          </label>
+          <div className="text-gray-500">These players are only used in this room and are not added to the player database.</div>
+          {csvErrors.slice(0, SHOWN_CSV_ERRORS).map((csvError, index) => (
+            <div key={index} className="text-red-300">
+              Line {csvError.line}{csvError.column && ` (${csvError.column})`}: {csvError.message}
+            </div>
+          ))}
+          {csvErrors.length > SHOWN_CSV_ERRORS && (
+            <div className="text-red-300">and {csvErrors.length - SHOWN_CSV_ERRORS} more problems - those rows are left out</div>
+          )}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-400">
+        {describePlayerPool(pool)}
+        {pool.source !== 'picked' && ` • ${poolSize} players`}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerPoolEditor;
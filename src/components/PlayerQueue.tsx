@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { Player, SAMPLE_PLAYERS } from '@/types/auction';
+import { formatMoney } from '@/lib/money';
+import { CATEGORY_SHORT_LABELS, getCategoryColor } from '@/lib/playerRoles';
 
 interface PlayerQueueProps {
   onPlayerSelect?: (player: Player) => void;
@@ -134,18 +136,6 @@ const PlayerQueue: React.FC<PlayerQueueProps> = ({ onPlayerSelect, onNextPlayer,
     }
   };
 
-  const getCategoryColor = (category: string) => {
-    switch (category) {
-      case 'Batsman': return 'bg-green-500';
-      case 'Bowler': return 'bg-red-500';
-      case 'Fast Bowler': return 'bg-red-600';
-      case 'Spin Bowler': return 'bg-red-400';
-      case 'All-Rounder': return 'bg-purple-500';
-      case 'Wicket-Keeper': return 'bg-blue-500';
-      default: return 'bg-gray-500';
-    }
-  };
-
   const getNationalityFlag = (nationality: string) => {
     const flags: { [key: string]: string } = {
       'India': '🇮🇳',
@@ -162,9 +152,7 @@ const PlayerQueue: React.FC<PlayerQueueProps> = ({ onPlayerSelect, onNextPlayer,
     return flags[nationality] || '🌍';
   };
 
-  const formatPrice = (price: number) => {
-    return `₹${price} L`;
-  };
+  const formatPrice = (price: number) => formatMoney(price);
 
   // Show the queue immediately without loading state
   if (!currentPlayer || shuffledPlayers.length === 0) {
@@ -214,8 +202,8 @@ const PlayerQueue: React.FC<PlayerQueueProps> = ({ onPlayerSelect, onNextPlayer,
             <div className="w-32 h-32 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center text-4xl font-bold text-gray-600 mb-4 mx-auto shadow-lg">
               {currentPlayer.name.split(' ').map(n => n[0]).join('')}
             </div>
-            <div className={`absolute -top-2 -right-2 w-8 h-8 ${getCategoryColor(currentPlayer.category)} rounded-full flex items-center justify-center text-white text-xs font-bold shadow-md`}>
-              {currentPlayer.category[0]}
+            <div className={`absolute -top-2 -right-2 w-8 h-8 ${getCategoryColor(currentPlayer.category)} rounded-full flex items-center justify-center text-white text-[10px] font-bold shadow-md`}>
+              {CATEGORY_SHORT_LABELS[currentPlayer.category]}
             </div>
           </div>
 
@@ -239,6 +227,9 @@ const PlayerQueue: React.FC<PlayerQueueProps> = ({ onPlayerSelect, onNextPlayer,
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="text-sm text-gray-500 mb-1">Category</div>
             <div className="font-semibold text-gray-900">{currentPlayer.category}</div>
+            {currentPlayer.subRole && currentPlayer.subRole !== currentPlayer.category && (
+              <div className="text-xs text-gray-500">{currentPlayer.subRole}</div>
+            )}
           </div>
           <div className="bg-gray-50 rounded-lg p-4">
             <div className="text-sm text-gray-500 mb-1">Base Price</div>
@@ -340,7 +331,7 @@ const PlayerQueue: React.FC<PlayerQueueProps> = ({ onPlayerSelect, onNextPlayer,
             <div>
               <div className="font-semibold text-gray-900">{nextPlayer.name}</div>
               <div className="text-xs text-gray-500">
-                {nextPlayer.category} • {formatPrice(nextPlayer.basePrice)}
+                {nextPlayer.subRole || nextPlayer.category} • {formatPrice(nextPlayer.basePrice)}
               </div>
             </div>
           </div>
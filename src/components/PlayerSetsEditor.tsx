@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { formatMoney, fromRupees } from '@/lib/money';
+import { describeSetRule, groupPlayersIntoSets, PLAYER_ROLE_GROUP_LABELS, SettablePlayer } from '@/lib/playerSets';
+import type { PlayerRoleGroup, PlayerSet, PlayerSetRule } from '@/types/auction';
+
+interface PoolPlayer extends SettablePlayer {
+  name: string;
+}
+
+interface PlayerSetsEditorProps {
+  sets: PlayerSet[];
+  onChange: (sets: PlayerSet[]) => void;
+}
+
+/** Base price steps offered for set price bounds, in lakhs */
+const PRICE_OPTIONS = [20, 30, 50, 75, 100, 150, 200];
+
+/**
+ * Edits a room's ordered player sets: name, placement rule and hand-picked players
+ * Shows how many players from the pool each set would take
+ */
+const PlayerSetsEditor: React.FC<PlayerSetsEditorProps> = ({ sets, onChange }) => {
+  const [pool, setPool] = useState<PoolPlayer[]>([]);
+  const [search, setSearch] = useState<Record<string, string>>({});
+
+  // Load the pool once so set sizes and the hand-pick search work
+  useEffect(() => {
+    const loadPool = async () => {
+      const { data, error } = await supabase
+        .from('players')
+        .select('id, name, role, base_price, is_overseas, is_capped')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading players for sets:', error);
+        return;
+      }
+
+      setPool((data || []).map(player => ({ ...player, base_price: fromRupees(player.base_price || 0) })));
+    };
+
+    loadPool();
+  }, []);
+
+  const setSizes = useMemo(() => {
+    const sizes: Record<string, number> = {};
+    groupPlayersIntoSets(pool, sets).forEach(group => {
+      sizes[group.set.id] = group.players.length;
+    });
+    return sizes;
+  }, [pool, sets]);
+
+  const updateSet = (index: number, changes: Partial<PlayerSet>) => {
+    onChange(sets.map((set, i) => (i === index ? { ...set, ...changes } : set)));
+  };
+
+  const updateRule = (index: number, changes: Partial<PlayerSetRule>) => {
+    const rule: PlayerSetRule = { ...(sets[index].rule || {}), ...changes };
+    (Object.keys(rule) as (keyof PlayerSetRule)[]).forEach(key => {
+      if (rule[key] === undefined) delete rule[key];
+    });
+    updateSet(index, { rule });
+  };
+
+  const toggleRole = (index: number, role: PlayerRoleGroup) => {
+    const roles = sets[index].rule?.roles || [];
+    updateRule(index, { roles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role] });
+  };
+
+  const moveSet = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sets.length) return;
+    const next = [...sets];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const addSet = () => {
+    onChange([...sets, { id: `set_${Date.now()}`, name: `Set ${sets.length + 1}`, rule: {} }]);
+  };
+
+  const removeSet = (index: number) => {
+    onChange(sets.filter((_, i) => i !== index));
+  };
+
+  const parsePrice = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-3">
+      {sets.map((set, index) => {
+        const query = (search[set.id] || '').trim().toLowerCase();
+        const matches = query
+          ? pool.filter(p => p.name.toLowerCase().includes(query) && !set.playerIds?.includes(p.id)).slice(0, 6)
+          : [];
+
+        return (
+          <div key={set.id} className="border border-gray-700/40 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500 w-5">{index + 1}.</span>
+              <input
+                type="text"
+                className="form-input flex-1"
+                value={set.name}
+                onChange={(e) => updateSet(index, { name: e.target.value })}
+              />
+              <span className="text-xs text-gray-400 whitespace-nowrap">{setSizes[set.id] || 0} players</span>
+              <button type="button" className="btn btn-secondary px-2" onClick={() => moveSet(index, -1)} disabled={index === 0}>
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button type="button" className="btn btn-secondary px-2" onClick={() => moveSet(index, 1)} disabled={index === sets.length - 1}>
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button type="button" className="btn btn-secondary px-2" onClick={() => removeSet(index)}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <label className="flex items-center gap-1 text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!!set.rule}
+                  onChange={(e) => updateSet(index, { rule: e.target.checked ? {} : undefined })}
+                />
+                By rule
+              </label>
+              {set.rule && (
+                <>
+                  {(Object.keys(PLAYER_ROLE_GROUP_LABELS) as PlayerRoleGroup[]).map(role => (
+                    <label key={role} className="flex items-center gap-1 text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={!!set.rule?.roles?.includes(role)}
+                        onChange={() => toggleRole(index, role)}
+                      />
+                      {PLAYER_ROLE_GROUP_LABELS[role]}
+                    </label>
+                  ))}
+                  <select
+                    className="form-input py-1 text-xs w-auto"
+                    value={set.rule.capped === undefined ? '' : set.rule.capped ? 'capped' : 'uncapped'}
+                    onChange={(e) => updateRule(index, { capped: e.target.value === '' ? undefined : e.target.value === 'capped' })}
+                  >
+                    <option value="">Capped or not</option>
+                    <option value="capped">Capped</option>
+                    <option value="uncapped">Uncapped</option>
+                  </select>
+                  <select
+                    className="form-input py-1 text-xs w-auto"
+                    value={set.rule.minBasePrice ?? ''}
+                    onChange={(e) => updateRule(index, { minBasePrice: parsePrice(e.target.value) })}
+                  >
+                    <option value="">Any min price</option>
+                    {PRICE_OPTIONS.map(price => (
+                      <option key={price} value={price}>From {formatMoney(price)}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="form-input py-1 text-xs w-auto"
+                    value={set.rule.maxBasePrice ?? ''}
+                    onChange={(e) => updateRule(index, { maxBasePrice: parsePrice(e.target.value) })}
+                  >
+                    <option value="">Any max price</option>
+                    {PRICE_OPTIONS.map(price => (
+                      <option key={price} value={price}>Up to {formatMoney(price)}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="text-xs text-gray-500">{describeSetRule(set)}</div>
+
+            {/* Hand-picked players, placed here ahead of any rule */}
+            <div className="flex flex-wrap gap-1">
+              {(set.playerIds || []).map(playerId => (
+                <span key={playerId} className="text-xs bg-purple-500/20 text-purple-300 px-2 py-0.5 rounded-full flex items-center gap-1">
+                  {pool.find(p => p.id === playerId)?.name || 'Unknown player'}
+                  <button
+                    type="button"
+                    onClick={() => updateSet(index, { playerIds: (set.playerIds || []).filter(id => id !== playerId) })}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              className="form-input text-xs"
+              placeholder="Pick players by name"
+              value={search[set.id] || ''}
+              onChange={(e) => setSearch({ ...search, [set.id]: e.target.value })}
+            />
+            {matches.length > 0 && (
+              <div className="space-y-1">
+                {matches.map(player => (
+                  <button
+                    key={player.id}
+                    type="button"
+                    className="w-full text-left text-xs px-2 py-1 rounded hover:bg-gray-800/60 text-gray-300"
+                    onClick={() => {
+                      updateSet(index, { playerIds: [...(set.playerIds || []), player.id] });
+                      setSearch({ ...search, [set.id]: '' });
+                    }}
+                  >
+                    {player.name} • {player.role} • {formatMoney(player.base_price)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button type="button" className="btn btn-secondary text-sm" onClick={addSet}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add Set
+        </button>
+        {(setSizes.remaining || 0) > 0 && (
+          <span className="text-xs text-gray-400">{setSizes.remaining} players in no set go last</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlayerSetsEditor;
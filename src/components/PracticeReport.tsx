@@ -0,0 +1,126 @@
+'use client';
+
+import React from 'react';
+import { Bot, User } from 'lucide-react';
+import { addMoney, formatMoney } from '@/lib/money';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+import FranchiseLogo from './FranchiseLogo';
+import SquadComposition from './SquadComposition';
+import type { BotPersonality, CompletedPlayerRecord } from '@/types/auction';
+
+interface PracticeTeam {
+  id: string;
+  team_short_name?: string;
+  budget_remaining: number;
+  is_bot?: boolean;
+  bot_personality?: BotPersonality | null;
+}
+
+interface PracticeReportProps {
+  participants: PracticeTeam[];
+  soldPlayers: CompletedPlayerRecord[];
+  myParticipantId: string | null;
+}
+
+/**
+ * End-of-practice comparison of the user's squad with each bot's
+ * Teams are ranked by the combined base price of the players they bought, a rough measure of squad quality;
+ * value is that base price per lakh spent, so a team that bought well scores above 1
+ */
+const PracticeReport: React.FC<PracticeReportProps> = ({ participants, soldPlayers, myParticipantId }) => {
+  const rows = participants
+    .map(participant => {
+      const squad = soldPlayers.filter(player => player.sold_to_participant === participant.id);
+      const spent = addMoney(...squad.map(player => player.final_price || 0));
+      const baseValue = addMoney(...squad.map(player => player.base_price || 0));
+      const topBuy = squad.reduce<CompletedPlayerRecord | null>(
+        (top, player) => (!top || player.final_price > top.final_price ? player : top),
+        null
+      );
+
+      return {
+        participant,
+        squad,
+        spent,
+        baseValue,
+        valueRatio: spent > 0 ? baseValue / spent : 0,
+        topBuy
+      };
+    })
+    .sort((a, b) => b.baseValue - a.baseValue || b.valueRatio - a.valueRatio);
+
+  const myRank = rows.findIndex(row => row.participant.id === myParticipantId) + 1;
+
+  return (
+    <div className="space-y-4">
+      {myRank > 0 && (
+        <div className="text-center p-4 bg-gradient-to-br from-blue-500/10 to-purple-500/10 rounded-lg border border-blue-500/20">
+          <div className="text-2xl font-bold text-blue-400">#{myRank} of {rows.length}</div>
+          <div className="text-sm" style={{ color: 'var(--text-muted)' }}>Your squad against the bots, by combined base price</div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {rows.map((row, index) => {
+          const isMe = row.participant.id === myParticipantId;
+
+          return (
+            <div
+              key={row.participant.id}
+              className={`rounded-xl border p-4 ${isMe ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/30 border-gray-700/40'}`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <span className="text-lg font-bold text-gray-400 w-6">{index + 1}</span>
+                  <FranchiseLogo franchiseCode={row.participant.team_short_name || ''} size="sm" />
+                  <div>
+                    <div className="font-semibold text-white">{row.participant.team_short_name}</div>
+                    <div className="text-xs text-gray-400 flex items-center gap-1">
+                      {isMe ? (
+                        <><User className="w-3 h-3" /> You</>
+                      ) : (
+                        <>
+                          <Bot className="w-3 h-3" />
+                          {row.participant.bot_personality ? BOT_PERSONALITIES[row.participant.bot_personality].label : 'Bot'}
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-4 text-center text-sm">
+                  <div>
+                    <div className="font-bold text-white">{row.squad.length}</div>
+                    <div className="text-xs text-gray-400">Players</div>
+                  </div>
+                  <div>
+                    <div className="font-bold text-red-400">{formatMoney(row.spent)}</div>
+                    <div className="text-xs text-gray-400">Spent</div>
+                  </div>
+                  <div>
+                    <div className="font-bold text-yellow-400">{formatMoney(row.baseValue)}</div>
+                    <div className="text-xs text-gray-400">Base value</div>
+                  </div>
+                  <div>
+                    <div className="font-bold text-green-400">{row.valueRatio.toFixed(2)}</div>
+                    <div className="text-xs text-gray-400">Value</div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center justify-between gap-2 mt-3 text-xs text-gray-400">
+                <SquadComposition players={row.squad} />
+                <span>
+                  {row.topBuy ? `Top buy: ${row.topBuy.name} (${formatMoney(row.topBuy.final_price)})` : 'No players bought'}
+                  {' '}• {formatMoney(row.participant.budget_remaining)} left
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeReport;
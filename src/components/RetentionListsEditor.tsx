@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { IPL_TEAMS } from '@/types/auction';
+
+interface PoolPlayer {
+  id: string;
+  name: string;
+  role?: string;
+  previous_team?: string | null;
+}
+
+interface RetentionListsEditorProps {
+  /** Assigned player IDs by team short name */
+  lists: Record<string, string[]>;
+  onChange: (lists: Record<string, string[]>) => void;
+}
+
+/**
+ * Assigns extra retainable players to each franchise, on top of its former players
+ */
+const RetentionListsEditor: React.FC<RetentionListsEditorProps> = ({ lists, onChange }) => {
+  const [pool, setPool] = useState<PoolPlayer[]>([]);
+  const [search, setSearch] = useState<Record<string, string>>({});
+
+  // Load the pool once for former-player counts and the name search
+  useEffect(() => {
+    const loadPool = async () => {
+      const { data, error } = await supabase
+        .from('players')
+        .select('id, name, role, previous_team')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading players for retention lists:', error);
+        return;
+      }
+
+      setPool(data || []);
+    };
+
+    loadPool();
+  }, []);
+
+  const setList = (code: string, playerIds: string[]) => {
+    const next = { ...lists, [code]: playerIds };
+    if (playerIds.length === 0) delete next[code];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {IPL_TEAMS.map(team => {
+        const assigned = lists[team.shortName] || [];
+        const formerCount = pool.filter(p => p.previous_team?.trim().toLowerCase() === team.shortName.toLowerCase()).length;
+        const query = (search[team.shortName] || '').trim().toLowerCase();
+        const matches = query
+          ? pool.filter(p => p.name.toLowerCase().includes(query) && !assigned.includes(p.id)).slice(0, 5)
+          : [];
+
+        return (
+          <div key={team.id} className="border border-gray-700/40 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold" style={{ color: team.color }}>{team.shortName}</span>
+              <span className="text-xs text-gray-400">{formerCount} former players • {assigned.length} assigned</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {assigned.map(playerId => (
+                <span key={playerId} className="text-xs bg-amber-500/20 text-amber-300 px-2 py-0.5 rounded-full flex items-center gap-1">
+                  {pool.find(p => p.id === playerId)?.name || 'Unknown player'}
+                  <button type="button" onClick={() => setList(team.shortName, assigned.filter(id => id !== playerId))}>
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              className="form-input text-xs"
+              placeholder="Assign players by name"
+              value={search[team.shortName] || ''}
+              onChange={(e) => setSearch({ ...search, [team.shortName]: e.target.value })}
+            />
+            {matches.length > 0 && (
+              <div className="space-y-1">
+                {matches.map(player => (
+                  <button
+                    key={player.id}
+                    type="button"
+                    className="w-full text-left text-xs px-2 py-1 rounded hover:bg-gray-800/60 text-gray-300"
+                    onClick={() => {
+                      setList(team.shortName, [...assigned, player.id]);
+                      setSearch({ ...search, [team.shortName]: '' });
+                    }}
+                  >
+                    {player.name} • {player.role}
+                    {player.previous_team && ` • ex-${player.previous_team}`}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RetentionListsEditor;
@@ -0,0 +1,141 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { formatMoney, subtractMoney } from '@/lib/money';
+import { AuctionRules, getRetentionPrice, isRetentionCandidate } from '@/lib/auctionEngine';
+import type { AuctionPlayer, AuctionRetention } from '@/types/auction';
+
+interface RetentionTeam {
+  id: string;
+  team_id?: string | null;
+  team_short_name?: string;
+  budget_remaining: number;
+}
+
+interface RetentionPanelProps {
+  /** The room's player pool */
+  pool: AuctionPlayer[];
+  teams: RetentionTeam[];
+  /** Every team's picks, oldest first */
+  retentions: AuctionRetention[];
+  myParticipantId: string | null;
+  rules: AuctionRules;
+  /** Players the auctioneer made retainable, by team short name */
+  retentionLists?: Record<string, string[]>;
+  onToggleRetention: (playerId: string) => Promise<void>;
+}
+
+/**
+ * Shown before the auction starts: each team picks players to keep at the room's slab prices
+ * Everyone sees each team's picks and what its purse will be once bidding opens
+ */
+const RetentionPanel: React.FC<RetentionPanelProps> = ({
+  pool,
+  teams,
+  retentions,
+  myParticipantId,
+  rules,
+  retentionLists,
+  onToggleRetention
+}) => {
+  const [busy, setBusy] = useState(false);
+
+  const myTeam = teams.find(team => team.id === myParticipantId);
+  const picksFor = (participantId: string) => retentions.filter(r => r.participant_id === participantId);
+  const costFor = (participantId: string) =>
+    picksFor(participantId).reduce((total, _, index) => total + getRetentionPrice(index, rules), 0);
+  const playerName = (playerId: string) => pool.find(p => p.id === playerId)?.name || 'Unknown player';
+
+  const candidates = myTeam
+    ? pool.filter(player =>
+        isRetentionCandidate(
+          { participantId: myTeam.id, teamId: myTeam.team_id || '', teamCode: myTeam.team_short_name, budgetRemaining: myTeam.budget_remaining },
+          player,
+          retentionLists
+        )
+      )
+    : [];
+  const myPicks = myTeam ? picksFor(myTeam.id).map(r => r.player_id) : [];
+
+  const toggle = async (playerId: string) => {
+    setBusy(true);
+    try {
+      await onToggleRetention(playerId);
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-amber-500/10 to-purple-500/10 border border-amber-500/20 rounded-xl p-6 text-left">
+      <div className="flex items-center gap-2 mb-2">
+        <Lock className="w-5 h-5 text-amber-400" />
+        <h3 className="text-lg font-bold text-amber-400">Retentions</h3>
+      </div>
+      <p className="text-sm text-gray-400 mb-4">
+        Up to {rules.retentionsPerTeam} per team • Slabs: {rules.retentionSlabs.map(slab => formatMoney(slab)).join(' / ')}
+      </p>
+
+      {myTeam && (
+        <div className="mb-4">
+          <div className="text-xs text-gray-400 mb-2">
+            Your picks: {myPicks.length}/{rules.retentionsPerTeam} • Purse after retentions:{' '}
+            <span className="text-white font-semibold">{formatMoney(subtractMoney(myTeam.budget_remaining, costFor(myTeam.id)))}</span>
+          </div>
+          {candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">None of your former players are in this pool</p>
+          ) : (
+            <div className="space-y-2 overflow-y-auto pr-2" style={{ maxHeight: '200px' }}>
+              {candidates.map(player => {
+                const pickIndex = myPicks.indexOf(player.id);
+                const takenByOther = pickIndex === -1 && retentions.some(r => r.player_id === player.id);
+
+                return (
+                  <div key={player.id} className="flex items-center justify-between bg-gray-800/40 border border-gray-600/30 rounded-lg px-3 py-2">
+                    <div>
+                      <div className="text-sm font-semibold text-white">{player.name}</div>
+                      <div className="text-xs text-gray-400">
+                        {player.role}
+                        {player.is_overseas && ' • Overseas'}
+                        {pickIndex !== -1 && ` • Pick ${pickIndex + 1} at ${formatMoney(getRetentionPrice(pickIndex, rules))}`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => toggle(player.id)}
+                      disabled={busy || takenByOther || (pickIndex === -1 && myPicks.length >= rules.retentionsPerTeam)}
+                      className={`btn ${pickIndex !== -1 ? 'btn-success' : 'btn-secondary'} py-1 px-3 text-xs`}
+                    >
+                      {pickIndex !== -1 ? 'Retained' : takenByOther ? 'Taken' : 'Retain'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {teams.map(team => {
+          const picks = picksFor(team.id);
+          return (
+            <div key={team.id} className="flex items-start justify-between text-xs border-t border-gray-700/40 pt-1">
+              <span className="text-gray-300 font-semibold w-16">{team.team_short_name || 'Team'}</span>
+              <span className="flex-1 text-gray-400">
+                {picks.length > 0 ? picks.map(r => playerName(r.player_id)).join(', ') : 'No retentions'}
+              </span>
+              <span className="text-gray-300 whitespace-nowrap">
+                {formatMoney(subtractMoney(team.budget_remaining, costFor(team.id)))} left
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RetentionPanel;
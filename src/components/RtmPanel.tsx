@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Shield } from 'lucide-react';
+import { formatMoney } from '@/lib/money';
+import { getNextValidBids } from '@/lib/bidLadder';
+import { serverNow } from '@/lib/serverClock';
+import type { BidIncrementStep, RtmState } from '@/types/auction';
+
+type RtmAction = 'exercise' | 'decline' | 'raise' | 'no_raise' | 'match' | 'pass';
+
+interface RtmPanelProps {
+  rtm: RtmState;
+  playerName: string;
+  basePrice: number;
+  bidLadder: BidIncrementStep[];
+  /** Short names by team ID, for the two teams involved */
+  teamNames: Record<string, string>;
+  myParticipantId: string | null;
+  isAuctioneer: boolean;
+  /** Most the winning team can raise to */
+  winnerMaxBid: number;
+  onRespond: (action: RtmAction, amount?: number) => Promise<void>;
+  onSkip: () => Promise<void>;
+}
+
+const OUTCOME_TEXT: Record<'declined' | 'matched' | 'not_matched', string> = {
+  declined: 'declined the right to match',
+  matched: 'matched - the player goes back to them',
+  not_matched: 'did not match - the winning bid stands'
+};
+
+/**
+ * Right-to-match offer on the current player: who decides next, the price and the clock
+ * The holder and the winning bidder get their buttons; the auctioneer can skip a stalled step
+ */
+const RtmPanel: React.FC<RtmPanelProps> = ({
+  rtm,
+  playerName,
+  basePrice,
+  bidLadder,
+  teamNames,
+  myParticipantId,
+  isAuctioneer,
+  winnerMaxBid,
+  onRespond,
+  onSkip
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!rtm.expires_at) {
+      setSecondsLeft(0);
+      return;
+    }
+
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((Date.parse(rtm.expires_at as string) - serverNow()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [rtm.expires_at]);
+
+  const holder = teamNames[rtm.holder_team_id] || 'Former team';
+  const winner = teamNames[rtm.winner_team_id] || 'Winning team';
+  const isHolder = myParticipantId === rtm.holder_participant_id;
+  const isWinner = myParticipantId === rtm.winner_participant_id;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const status =
+    rtm.stage === 'offered' ? `${holder} can use a right to match on ${playerName} at ${formatMoney(rtm.bid)}` :
+    rtm.stage === 'final_raise' ? `${holder} used their RTM - ${winner} gets one final raise` :
+    rtm.stage === 'match' ? `${holder} can match ${formatMoney(rtm.final_bid)} to take ${playerName}` :
+    `${holder} ${OUTCOME_TEXT[rtm.stage]}`;
+
+  return (
+    <div className="bg-gradient-to-br from-purple-500/15 to-pink-500/10 border border-purple-500/30 rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Shield className="w-5 h-5 text-purple-300" />
+          <h3 className="text-lg font-bold text-purple-300">Right to Match</h3>
+        </div>
+        {rtm.expires_at && (
+          <span className={`font-mono font-bold ${secondsLeft <= 5 ? 'text-red-400' : 'text-purple-200'}`}>{secondsLeft}s</span>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-300">{status}</p>
+
+      {isHolder && rtm.stage === 'offered' && (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => run(() => onRespond('exercise'))} disabled={busy} className="btn btn-success py-3 text-sm">
+            Use RTM
+          </button>
+          <button onClick={() => run(() => onRespond('decline'))} disabled={busy} className="btn btn-secondary py-3 text-sm">
+            Decline
+          </button>
+        </div>
+      )}
+
+      {isWinner && rtm.stage === 'final_raise' && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-4 gap-2">
+            {getNextValidBids(rtm.bid, basePrice, bidLadder).map(amount => (
+              <button
+                key={amount}
+                onClick={() => run(() => onRespond('raise', amount))}
+                disabled={busy || amount > winnerMaxBid}
+                className="btn btn-primary py-2 text-sm"
+              >
+                {formatMoney(amount)}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => run(() => onRespond('no_raise'))} disabled={busy} className="btn btn-secondary py-2 text-sm w-full">
+            Keep {formatMoney(rtm.bid)}
+          </button>
+        </div>
+      )}
+
+      {isHolder && rtm.stage === 'match' && (
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => run(() => onRespond('match'))} disabled={busy} className="btn btn-success py-3 text-sm">
+            Match {formatMoney(rtm.final_bid)}
+          </button>
+          <button onClick={() => run(() => onRespond('pass'))} disabled={busy} className="btn btn-secondary py-3 text-sm">
+            Let Go
+          </button>
+        </div>
+      )}
+
+      {isAuctioneer && rtm.expires_at && (
+        <button onClick={() => run(onSkip)} disabled={busy} className="btn btn-warning py-2 text-sm w-full">
+          Skip This Step
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RtmPanel;
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Star, X } from 'lucide-react';
+import { formatMoney, parseMoney } from '@/lib/money';
+import { formatPlayerRole } from '@/lib/playerRoles';
+import type { AuctionShortlistEntry, AuctionStateRecord, ShortlistPriority } from '@/types/auction';
+import type { ShortlistChanges } from '@/hooks/useShortlist';
+
+interface ShortlistTeam {
+  id: string;
+  team_short_name?: string;
+}
+
+interface ShortlistPanelProps {
+  entries: AuctionShortlistEntry[];
+  auctionState: Pick<AuctionStateRecord, 'player_queue' | 'sold_players' | 'unsold_players' | 'current_player_id'>;
+  participants: ShortlistTeam[];
+  onUpdate: (playerId: string, changes: ShortlistChanges) => Promise<void>;
+  onRemove: (playerId: string) => Promise<void>;
+}
+
+export const SHORTLIST_PRIORITY_LABELS: Record<ShortlistPriority, string> = {
+  1: 'Must have',
+  2: 'Want',
+  3: 'Backup'
+};
+
+/**
+ * The current user's shortlist: priority, planned maximum and notes for each starred player,
+ * with where that player stands in the auction
+ */
+const ShortlistPanel: React.FC<ShortlistPanelProps> = ({ entries, auctionState, participants, onUpdate, onRemove }) => {
+  const [maxDrafts, setMaxDrafts] = useState<Record<string, string>>({});
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
+
+  const save = async (playerId: string, changes: ShortlistChanges) => {
+    try {
+      await onUpdate(playerId, changes);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const saveMaxPrice = (entry: AuctionShortlistEntry) => {
+    const draft = maxDrafts[entry.player_id];
+    if (draft === undefined) return;
+
+    const trimmed = draft.trim();
+    const maxPrice = trimmed === '' ? null : parseMoney(trimmed);
+    if (trimmed !== '' && maxPrice === null) {
+      alert('Enter a price like 2Cr or 75L');
+      return;
+    }
+    setMaxDrafts(prev => {
+      const next = { ...prev };
+      delete next[entry.player_id];
+      return next;
+    });
+    if (maxPrice !== entry.max_price) save(entry.player_id, { max_price: maxPrice });
+  };
+
+  const saveNotes = (entry: AuctionShortlistEntry) => {
+    const draft = noteDrafts[entry.player_id];
+    if (draft === undefined) return;
+    setNoteDrafts(prev => {
+      const next = { ...prev };
+      delete next[entry.player_id];
+      return next;
+    });
+    if ((draft.trim() || null) !== entry.notes) save(entry.player_id, { notes: draft.trim() || null });
+  };
+
+  const describeStatus = (playerId: string) => {
+    const sold = auctionState.sold_players?.find(record => record.id === playerId);
+    if (sold) {
+      const team = participants.find(p => p.id === sold.sold_to_participant)?.team_short_name || sold.sold_to_team;
+      return { label: `Sold to ${team || 'a team'} for ${formatMoney(sold.final_price)}`, className: 'text-gray-400' };
+    }
+    if (auctionState.current_player_id === playerId) return { label: 'Up now', className: 'text-green-400 font-semibold' };
+    if (auctionState.unsold_players?.some(record => record.id === playerId)) return { label: 'Unsold', className: 'text-red-400' };
+    return { label: 'Still to come', className: 'text-blue-400' };
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <Star className="w-6 h-6 mx-auto mb-2 text-gray-500" />
+        <p className="text-sm" style={{ color: 'var(--text-muted)' }}>Star players in the catalogue to build your shortlist</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-96 overflow-y-auto pr-2">
+      {entries.map(entry => {
+        const player = auctionState.player_queue?.find(p => p.id === entry.player_id)
+          || auctionState.sold_players?.find(p => p.id === entry.player_id)
+          || auctionState.unsold_players?.find(p => p.id === entry.player_id);
+        const status = describeStatus(entry.player_id);
+
+        return (
+          <div
+            key={entry.id}
+            className={`rounded-lg border p-3 space-y-2 ${
+              auctionState.current_player_id === entry.player_id ? 'bg-amber-500/10 border-amber-500/40' : 'bg-gray-800/30 border-gray-700/40'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium text-sm text-white truncate">{player?.name || 'Unknown player'}</div>
+                <div className="text-xs text-gray-400">
+                  {formatPlayerRole(player?.role)}
+                  {player?.base_price !== undefined && ` • Base ${formatMoney(player.base_price)}`}
+                  {' • '}<span className={status.className}>{status.label}</span>
+                </div>
+              </div>
+              <button onClick={() => onRemove(entry.player_id)} className="text-gray-400 hover:text-white p-1" title="Remove from shortlist">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <select
+                className="form-input py-1 text-xs w-auto"
+                value={entry.priority}
+                onChange={(e) => save(entry.player_id, { priority: Number(e.target.value) as ShortlistPriority })}
+              >
+                {([1, 2, 3] as ShortlistPriority[]).map(priority => (
+                  <option key={priority} value={priority}>{SHORTLIST_PRIORITY_LABELS[priority]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                className="form-input py-1 text-xs w-28"
+                placeholder="Max, e.g. 2Cr"
+                value={maxDrafts[entry.player_id] ?? (entry.max_price !== null ? formatMoney(entry.max_price) : '')}
+                onChange={(e) => setMaxDrafts({ ...maxDrafts, [entry.player_id]: e.target.value })}
+                onBlur={() => saveMaxPrice(entry)}
+              />
+              <input
+                type="text"
+                className="form-input py-1 text-xs flex-1 min-w-[8rem]"
+                placeholder="Notes"
+                value={noteDrafts[entry.player_id] ?? (entry.notes || '')}
+                onChange={(e) => setNoteDrafts({ ...noteDrafts, [entry.player_id]: e.target.value })}
+                onBlur={() => saveNotes(entry)}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ShortlistPanel;
@@ -0,0 +1,28 @@
+'use client';
+
+import React from 'react';
+import { CATEGORY_SHORT_LABELS, countByCategory, getCategoryBadgeClass, PLAYER_CATEGORIES } from '@/lib/playerRoles';
+
+interface SquadCompositionProps {
+  players: { role?: string | null }[];
+  className?: string;
+}
+
+/**
+ * A squad's player count per category, e.g. BAT 5 · WK 1 · AR 3 · BOWL 6
+ */
+const SquadComposition: React.FC<SquadCompositionProps> = ({ players, className = '' }) => {
+  const counts = countByCategory(players);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      {PLAYER_CATEGORIES.map(category => (
+        <span key={category} className={`role-badge ${getCategoryBadgeClass(category)}`} title={category}>
+          {CATEGORY_SHORT_LABELS[category]} {counts[category]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default SquadComposition;
@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Send } from 'lucide-react';
+import type { AuctionTeamMessage } from '@/types/auction';
+
+interface TeamChatProps {
+  messages: AuctionTeamMessage[];
+  /** Display names of the team's owner and co-owners, by user ID */
+  memberNames: Record<string, string>;
+  myUserId: string | null;
+  onSend: (message: string) => Promise<void>;
+}
+
+/**
+ * A franchise's private strategy chat, seen only by its owner and co-owners
+ */
+const TeamChat: React.FC<TeamChatProps> = ({ messages, memberNames, myUserId, onSend }) => {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [messages.length]);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || sending) return;
+
+    setSending(true);
+    try {
+      await onSend(draft);
+      setDraft('');
+    } catch (error) {
+      alert('Failed to send message: ' + (error as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={listRef} className="max-h-64 overflow-y-auto space-y-2 pr-2">
+        {messages.length === 0 ? (
+          <p className="text-center text-sm py-6" style={{ color: 'var(--text-muted)' }}>
+            Plan your bids here - only your team can see this chat
+          </p>
+        ) : (
+          messages.map(message => {
+            const isMine = message.user_id === myUserId;
+            return (
+              <div key={message.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                <div className="text-xs text-gray-500">
+                  {isMine ? 'You' : memberNames[message.user_id] || 'Teammate'} •{' '}
+                  {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </div>
+                <div className={`rounded-lg px-3 py-1.5 text-sm max-w-[85%] break-words ${
+                  isMine ? 'bg-blue-500/20 text-blue-100' : 'bg-gray-800/60 text-gray-100'
+                }`}>
+                  {message.message}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={send} className="flex items-center gap-2">
+        <input
+          type="text"
+          className="form-input py-1 text-sm flex-1"
+          placeholder="Message your team"
+          value={draft}
+          maxLength={500}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <button type="submit" disabled={sending || !draft.trim()} className="btn btn-primary btn-sm">
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default TeamChat;
@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
+import { formatMoney, fromRupees } from '@/lib/money';
 
 interface SimpleAuctionState {
   id?: string;
@@ -230,7 +231,7 @@ export function useAuctionData(roomId: string) {
         console.log('🚀 Starting auction...');
 
         // First, load players to create the auction queue
-        const { data: players, error: playersError } = await supabase
+        const { data: playerRows, error: playersError } = await supabase
           .from('players')
           .select('*')
           .order('base_price', { ascending: false }); // Start with highest value players
@@ -240,10 +241,13 @@ export function useAuctionData(roomId: string) {
           throw playersError;
         }
 
-        if (!players || players.length === 0) {
+        if (!playerRows || playerRows.length === 0) {
           throw new Error('No players available for auction');
         }
 
+        // Base prices are stored in rupees; the auction works in lakhs
+        const players = playerRows.map(player => ({ ...player, base_price: fromRupees(player.base_price) }));
+
         const firstPlayer = players[0];
         console.log('First player for auction:', firstPlayer);
 
@@ -395,7 +399,7 @@ export function useAuctionData(roomId: string) {
     // Place bid
     placeBid: async (amount: number, userId: string) => {
       try {
-        console.log(`💰 Placing bid: ₹${amount}L by user ${userId}`);
+        console.log(`💰 Placing bid: ${formatMoney(amount)} by user ${userId}`);
 
         const { error } = await supabase
           .from('auction_state')
@@ -9,7 +9,55 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
-import { SAMPLE_PLAYERS } from '@/types/auction';
+import { SAMPLE_PLAYERS, AuctionStateRecord } from '@/types/auction';
+import type { AuctionAuditEntry, AuctionAutoBid, AuctionPlayer, AuctionRoomSettings, BotPersonality } from '@/types/auction';
+import {
+  canStartAcceleratedRound,
+  getMaxAllowableBid,
+  AuctionRules,
+  AuctionEvent,
+  AuctionTeam,
+  DEFAULT_AUCTION_RULES
+} from '@/lib/auctionEngine';
+import { formatMoney, fromRupees, subtractMoney } from '@/lib/money';
+import { loadRoomPlayerPool } from '@/lib/playerPool';
+import { BOT_PERSONALITIES } from '@/lib/botStrategy';
+
+/**
+ * Converts a `players` row's rupee base price to lakhs, the unit the auction works in
+ */
+const withLakhBasePrice = <T extends { base_price?: number }>(player: T): T => ({
+  ...player,
+  base_price: fromRupees(player.base_price || 0)
+});
+
+/**
+ * Loads the players a room auctions, as chosen in its settings
+ */
+async function loadRoomPool(roomId: string): Promise<AuctionPlayer[]> {
+  const { data: room } = await supabase
+    .from('auction_rooms')
+    .select('settings')
+    .eq('id', roomId)
+    .single();
+
+  return loadRoomPlayerPool(supabase, roomId, (room?.settings as Partial<AuctionRoomSettings> | null)?.playerPool);
+}
+
+/**
+ * Loads the current player's details
+ * Players uploaded for one room are not in `players`, so they come from the room's queue
+ */
+async function loadCurrentPlayer(playerId: string, queue?: AuctionPlayer[]): Promise<AuctionPlayer | null> {
+  const { data: playerData } = await supabase
+    .from('players')
+    .select('*')
+    .eq('id', playerId)
+    .maybeSingle();
+
+  if (playerData) return withLakhBasePrice(playerData);
+  return queue?.find(player => player.id === playerId) || null;
+}
 
 /**
  * Room-specific Fisher-Yates shuffle for consistent randomness per room
@@ -26,13 +74,10 @@ function shufflePlayersWithSeed<T>(players: T[], seed: string): T[] {
  */
 async function loadShuffledPlayers(roomId?: string): Promise<any[]> {
   try {
-    // First try to load players from database
-    const { data: players, error } = await supabase
-      .from('players')
-      .select('*')
-      .order('base_price', { ascending: false });
+    // First try to load the room's pool from the database
+    const players = roomId ? await loadRoomPool(roomId) : [];
 
-    let playersToShuffle = players && players.length > 0 ? players : SAMPLE_PLAYERS;
+    let playersToShuffle: object[] = players.length > 0 ? players : SAMPLE_PLAYERS;
 
     // Create room-specific seed that doesn't change over time for the same room
     const roomSeed = roomId ? `auction_room_${roomId}_shuffle` : `fallback_${Date.now()}`;
@@ -48,23 +93,10 @@ async function loadShuffledPlayers(roomId?: string): Promise<any[]> {
 /**
  * Interface representing the current auction state
  */
-interface AuctionState {
+interface AuctionState extends AuctionStateRecord {
   id: string;
-  room_id: string;
-  is_active: boolean;
-  is_paused: boolean;
-  current_player_id: string | null;
   current_player: Player | null;
-  current_bid: number;
-  base_price: number;
-  current_bidder_id: string | null;
-  leading_team: string | null;
-  time_remaining: number;
-  current_player_index: number;
-  total_players: number;
   player_queue: Player[];
-  sold_players: Player[];
-  unsold_players: Player[];
   updated_at: string;
   // Add sale notification for real-time broadcasting
   sale_notification?: {
@@ -84,6 +116,8 @@ interface Player {
   base_price: number;
   role?: string;
   team?: string;
+  set_id?: string;
+  set_name?: string;
   [key: string]: any;
 }
 
@@ -92,7 +126,10 @@ interface Player {
  */
 interface ParticipantData {
   id: string;
-  user_id: string;
+  /** Null for a bot franchise */
+  user_id: string | null;
+  /** The owner's profile name, or the bot's personality */
+  user_name?: string;
   auction_room_id: string;
   team_name: string;
   budget: number;
@@ -101,6 +138,8 @@ interface ParticipantData {
   is_auctioneer?: boolean;
   team_id?: string;
   team_short_name?: string;
+  is_bot?: boolean;
+  bot_personality?: BotPersonality | null;
   updated_at: string;
 }
 
@@ -111,7 +150,7 @@ interface BidData {
   id: string;
   room_id: string;
   player_id: string;
-  bidder_id: string;
+  bidder_id: string | null;
   bid_amount: number;
   created_at: string;
 }
@@ -166,16 +205,18 @@ export function useAuctionRealtime(
           let userData = null;
           let franchiseData = null;
 
-          // Try to get user profile data
-          try {
-            const { data: userProfile } = await supabase
-              .from('users_profiles')
-              .select('full_name, avatar_url')
-              .eq('id', participant.user_id)
-              .single();
-            userData = userProfile;
-          } catch (userError) {
-            // Silent error handling for user profile loading
+          // Try to get user profile data - bots have no user
+          if (participant.user_id) {
+            try {
+              const { data: userProfile } = await supabase
+                .from('users_profiles')
+                .select('full_name, avatar_url')
+                .eq('id', participant.user_id)
+                .single();
+              userData = userProfile;
+            } catch (userError) {
+              // Silent error handling for user profile loading
+            }
           }
 
           // Try to get franchise data if team_id exists
@@ -195,7 +236,9 @@ export function useAuctionRealtime(
           // Format participant with available data
           const formattedParticipant = {
             ...participant,
-            user_name: userData?.full_name || participant.team_name || 'Unknown User',
+            user_name: participant.is_bot
+              ? `${BOT_PERSONALITIES[participant.bot_personality as BotPersonality]?.label || 'Computer'} bot`
+              : userData?.full_name || participant.team_name || 'Unknown User',
             user_avatar: userData?.avatar_url || null,
             team_name: franchiseData?.name || participant.team_name || 'No Team',
             team_short_name: franchiseData?.short_name || participant.team_name?.substring(0, 3)?.toUpperCase() || 'NT',
@@ -242,16 +285,7 @@ export function useAuctionRealtime(
         if (!stateData.player_queue || !Array.isArray(stateData.player_queue) || stateData.player_queue.length === 0) {
 
           try {
-            const { data: players, error: playersError } = await supabase
-              .from('players')
-              .select('*')
-              .order('base_price', { ascending: false });
-
-            if (playersError) {
-              stateData.player_queue = [];
-            } else {
-              stateData.player_queue = players || [];
-            }
+            stateData.player_queue = await loadRoomPool(roomId);
           } catch (error) {
             stateData.player_queue = [];
           }
@@ -264,12 +298,7 @@ export function useAuctionRealtime(
       // Load current player if exists
       let currentPlayer = null;
       if (stateData?.current_player_id) {
-        const { data: playerData } = await supabase
-          .from('players')
-          .select('*')
-          .eq('id', stateData.current_player_id)
-          .single();
-        currentPlayer = playerData;
+        currentPlayer = await loadCurrentPlayer(stateData.current_player_id, stateData.player_queue);
       }
 
       setAuctionState({
@@ -322,12 +351,7 @@ export function useAuctionRealtime(
             // Load current player details if changed
             let currentPlayer = null;
             if (payload.new?.current_player_id) {
-              const { data: playerData } = await supabase
-                .from('players')
-                .select('*')
-                .eq('id', payload.new.current_player_id)
-                .single();
-              currentPlayer = playerData;
+              currentPlayer = await loadCurrentPlayer(payload.new.current_player_id, (payload.new as AuctionStateRecord).player_queue);
             }
 
             // Immediately update state for live updates
@@ -442,10 +466,44 @@ export function useAuctionRealtime(
     };
   }, [roomId, refresh, forceRefreshParticipants, setupRealtimeSubscriptions, cleanupSubscriptions]);
 
+  /**
+   * Sends one of the auctioneer's controls to the server, which runs it through the rules engine
+   * against the stored state, writes the changed columns and logs it
+   * Throws the rule violation message if the event is not allowed
+   *
+   * @param event - The engine event
+   * @param queue - Players to use if the stored queue has been lost (resume and next only)
+   */
+  const applyEvent = async (event: AuctionEvent, queue?: Player[]) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Your session has expired - please sign in again');
+
+    const response = await fetch(`/api/auction/${roomId}/event`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ event, queue })
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.ok) {
+      throw new Error(result.message || result.error || 'The auction could not be updated');
+    }
+
+    const { state, teams, completed } = result as { state: AuctionStateRecord; teams: AuctionTeam[]; completed: boolean };
+
+    // Immediate local state update for instant UI feedback
+    setAuctionState(prev => prev ? { ...prev, ...state } as AuctionState : null);
+
+    return { state, teams, completed };
+  };
+
   // Auction control functions
   const auctionControls = {
     startAuction: async () => {
-      if (!roomId) throw new Error('Room ID is required');
+      if (!roomId || !auctionState) throw new Error('Room ID is required');
 
       console.log('🚀 Starting auction for room:', roomId);
 
@@ -455,72 +513,22 @@ export function useAuctionRealtime(
           throw new Error('No shuffled players provided. Make sure usePlayerQueue is loaded first.');
         }
 
-        const firstPlayer = shuffledPlayers[0];
-
-        // Get room data for timer settings
-        const { data: roomData } = await supabase
-          .from('auction_rooms')
-          .select('timer_seconds')
-          .eq('id', roomId)
-          .single();
-
-        const timerSeconds = roomData?.timer_seconds || 30;
-
         console.log(`🔄 Starting auction with ${shuffledPlayers.length} shuffled players for room ${roomId}`);
+
+        // Start with the properly shuffled queue from usePlayerQueue
+        // The server charges retained players to their teams and keeps them out of the queue
+        const { state: startedState } = await applyEvent({ type: 'start', queue: shuffledPlayers });
+        const firstPlayer = startedState.player_queue[0];
         console.log(`🎯 Starting with player: ${firstPlayer.name}`);
 
-        // Update auction state to start with the properly shuffled queue from usePlayerQueue
-        const { error } = await supabase
-          .from('auction_state')
-          .update({
-            is_active: true,
-            is_paused: false,
-            current_player_id: firstPlayer.id,
-            current_player_index: 0,
-            current_bid: 0,
-            base_price: firstPlayer.basePrice || firstPlayer.base_price,
-            leading_team: null,
-            current_bidder_id: null,
-            time_remaining: timerSeconds,
-            total_players: shuffledPlayers.length,
-            player_queue: shuffledPlayers, // Use the shuffled players from usePlayerQueue
-            sold_players: [],
-            unsold_players: [],
-            updated_at: new Date().toISOString()
-          })
-          .eq('room_id', roomId);
-
-        if (error) {
-          console.error('Error updating auction state:', error);
-          throw new Error(`Failed to start auction: ${error.message}`);
+        const retainedCount = startedState.sold_players.length;
+        if (retainedCount > 0) {
+          console.log(`🔒 ${retainedCount} players retained before the auction`);
         }
 
-        // Also update room status
-        const { error: roomError } = await supabase
-          .from('auction_rooms')
-          .update({ status: 'active' })
-          .eq('id', roomId);
+        console.log('✅ Auction started successfully with', startedState.player_queue.length, 'players');
 
-        if (roomError) {
-          console.warn('Warning: Could not update room status:', roomError);
-        }
-
-        console.log('✅ Auction started successfully with', shuffledPlayers.length, 'players');
-
-        // Immediate local state update for instant UI feedback
-        setAuctionState(prev => prev ? {
-          ...prev,
-          is_active: true,
-          is_paused: false,
-          current_player_id: firstPlayer.id,
-          current_player: firstPlayer,
-          current_player_index: 0,
-          current_bid: 0,
-          base_price: firstPlayer.basePrice || firstPlayer.base_price,
-          time_remaining: timerSeconds,
-          total_players: shuffledPlayers.length,
-          player_queue: shuffledPlayers
-        } : null);
+        setAuctionState(prev => prev ? { ...prev, current_player: firstPlayer } : null);
 
         // Force refresh after a brief delay to sync with database
         setTimeout(async () => {
@@ -535,93 +543,36 @@ export function useAuctionRealtime(
     },
 
     pauseAuction: async () => {
-      if (!roomId) throw new Error('Room ID is required');
-
-      const { error } = await supabase
-        .from('auction_state')
-        .update({
-          is_paused: true,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', roomId);
+      if (!roomId || !auctionState) throw new Error('Room ID is required');
 
-      if (error) throw error;
+      await applyEvent({ type: 'pause' });
     },
 
     resumeAuction: async () => {
-      if (!roomId) throw new Error('Room ID is required');
-
-      // Get current auction state to preserve player queue
-      const { data: currentState } = await supabase
-        .from('auction_state')
-        .select('*')
-        .eq('room_id', roomId)
-        .single();
+      if (!roomId || !auctionState) throw new Error('Room ID is required');
 
       // Ensure we have a valid player queue - if missing, reload with fresh randomization
-      let playerQueue = currentState?.player_queue;
-      if (!playerQueue || !Array.isArray(playerQueue) || playerQueue.length === 0) {
+      let playerQueue: Player[] | undefined;
+      if (!Array.isArray(auctionState.player_queue) || auctionState.player_queue.length === 0) {
         console.log('🔧 Player queue missing during resume, reloading with fresh randomization...');
-        const shuffledPlayers = await loadShuffledPlayers();
-        playerQueue = shuffledPlayers;
+        playerQueue = await loadShuffledPlayers(roomId);
       }
 
-      // Update database first, then immediately update local state
-      const { error } = await supabase
-        .from('auction_state')
-        .update({
-          is_paused: false,
-          player_queue: playerQueue, // Ensure queue is preserved/restored
-          total_players: playerQueue.length,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', roomId);
-
-      if (error) throw error;
-
-      // Immediate local state update to prevent UI flicker
-      setAuctionState(prev => prev ? {
-        ...prev,
-        is_paused: false,
-        player_queue: playerQueue,
-        total_players: playerQueue.length
-      } : null);
+      await applyEvent({ type: 'resume' }, playerQueue);
     },
 
     nextPlayer: async () => {
       if (!roomId || !auctionState) throw new Error('Invalid state');
 
-      // PAUSE AUCTION FIRST - Ensure clean state transition
-      if (auctionState.is_active && !auctionState.is_paused) {
-        console.log('⏸️ Pausing auction before moving to next player...');
-        await supabase
-          .from('auction_state')
-          .update({
-            is_paused: true,
-            updated_at: new Date().toISOString()
-          })
-          .eq('room_id', roomId);
-
-        // Wait for pause to take effect
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-
       console.log('🔄 Moving to next player. Current state:', {
         currentIndex: auctionState.current_player_index,
         totalPlayers: auctionState.total_players,
-        queueLength: auctionState.player_queue?.length || 0,
-        queueType: typeof auctionState.player_queue,
-        queueIsArray: Array.isArray(auctionState.player_queue)
+        queueLength: auctionState.player_queue?.length || 0
       });
 
-      const currentIndex = auctionState.current_player_index;
-      const nextIndex = currentIndex + 1;
-
-      // Get the current queue and validate it - with more robust handling
-      let currentQueue = auctionState.player_queue;
-
-      // If queue is invalid, use the shuffled players from usePlayerQueue instead of reloading from DB
-      if (!currentQueue || !Array.isArray(currentQueue) || currentQueue.length === 0) {
+      // If the queue is invalid, use the shuffled players from usePlayerQueue instead of reloading from DB
+      let currentQueue: Player[] | undefined;
+      if (!Array.isArray(auctionState.player_queue) || auctionState.player_queue.length === 0) {
         console.log('🔧 Player queue is invalid, using shuffled players from usePlayerQueue...');
 
         if (!shuffledPlayers || shuffledPlayers.length === 0) {
@@ -629,189 +580,211 @@ export function useAuctionRealtime(
         }
 
         console.log(`✅ Using ${shuffledPlayers.length} shuffled players from usePlayerQueue`);
-
-        // Update the auction state in database with shuffled queue
-        const { error: updateError } = await supabase
-          .from('auction_state')
-          .update({
-            player_queue: shuffledPlayers,
-            total_players: shuffledPlayers.length,
-            updated_at: new Date().toISOString()
-          })
-          .eq('room_id', roomId);
-
-        if (updateError) {
-          console.error('❌ Error updating auction state with shuffled queue:', updateError);
-          throw new Error('Failed to update auction state');
-        }
-
-        // Update local state immediately
-        setAuctionState(prev => prev ? {
-          ...prev,
-          player_queue: shuffledPlayers,
-          total_players: shuffledPlayers.length
-        } : null);
-
-        // Use shuffled queue for current operation
         currentQueue = shuffledPlayers;
-
-        console.log('✅ Shuffled player queue restored successfully');
       }
 
-      // Final validation - ensure we have a valid queue
-      if (!currentQueue || !Array.isArray(currentQueue) || currentQueue.length === 0) {
-        throw new Error('Player queue is still invalid after using shuffled players');
+      const { state: nextState, completed } = await applyEvent({ type: 'next' }, currentQueue);
+
+      // Unsold players left over - keep the room open for an accelerated round
+      if (completed && canStartAcceleratedRound(nextState)) {
+        console.log(`🔁 Round ${nextState.round_number || 1} finished with ${nextState.unsold_players.length} unsold players`);
+        return;
       }
 
-      // Check if we've reached the end of the auction
-      if (nextIndex >= currentQueue.length) {
+      // Out of players - the server has marked the room completed
+      if (completed) {
         console.log('🏁 Auction completed - no more players');
-
-        // End auction
-        await supabase
-          .from('auction_state')
-          .update({
-            is_active: false,
-            is_paused: true,
-            updated_at: new Date().toISOString()
-          })
-          .eq('room_id', roomId);
-
-        await supabase
-          .from('auction_rooms')
-          .update({ status: 'completed' })
-          .eq('id', roomId);
-
         return;
       }
 
-      // Get the next player from the validated queue
-      const nextPlayer = currentQueue[nextIndex];
-      if (!nextPlayer) {
-        console.error('❌ Next player not found at index', nextIndex, 'in queue of length', currentQueue.length);
-        throw new Error(`Next player not found at index ${nextIndex}`);
-      }
+      console.log('✅ Moved to next player at index', nextState.current_player_index);
+    },
 
-      console.log('✅ Moving to next player:', nextPlayer.name || nextPlayer.id, 'at index', nextIndex);
+    // Bring unsold players back for an accelerated round - every one of them, or only those teams nominated
+    startAcceleratedRound: async (mode: 'all' | 'nominated') => {
+      if (!roomId || !auctionState) throw new Error('Invalid state');
 
-      // Get room data for timer settings
-      const { data: roomData } = await supabase
-        .from('auction_rooms')
-        .select('timer_seconds')
-        .eq('id', roomId)
-        .single();
+      let playerIds: string[] | undefined;
+      if (mode === 'nominated') {
+        const { data: nominations, error: nominationsError } = await supabase
+          .from('auction_nominations')
+          .select('player_id')
+          .eq('room_id', roomId)
+          .order('created_at', { ascending: true });
 
-      const timerSeconds = roomData?.timer_seconds || 30;
+        if (nominationsError) throw nominationsError;
 
-      // Update auction state with next player
-      const { error } = await supabase
-        .from('auction_state')
-        .update({
-          current_player_id: nextPlayer.id,
-          current_player_index: nextIndex,
-          current_bid: 0,
-          base_price: nextPlayer.base_price,
-          leading_team: null,
-          current_bidder_id: null,
-          time_remaining: timerSeconds, // Use room's timer setting instead of hardcoded 30
-          updated_at: new Date().toISOString()
-        })
+        // Most-nominated players come up first; ties keep the order they were first nominated in
+        const counts = new Map<string, number>();
+        (nominations || []).forEach(n => counts.set(n.player_id, (counts.get(n.player_id) || 0) + 1));
+        playerIds = Array.from(counts.keys()).sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0));
+
+        if (playerIds.length === 0) {
+          throw new Error('No team has nominated a player yet');
+        }
+      }
+
+      const { state: nextState } = await applyEvent({ type: 'start_round', playerIds });
+
+      // Nominations only count for the round they were made for
+      const { error: clearError } = await supabase
+        .from('auction_nominations')
+        .delete()
         .eq('room_id', roomId);
 
-      if (error) {
-        console.error('❌ Error updating auction state for next player:', error);
-        throw error;
+      if (clearError) {
+        console.warn('Warning: Could not clear nominations:', clearError);
       }
 
-      console.log('✅ Successfully moved to next player');
+      console.log(`⚡ Accelerated round ${nextState.round_number} started with ${nextState.player_queue.length} players`);
+
+      setTimeout(async () => {
+        await refresh();
+      }, 300);
+    },
+
+    // Bidding has closed on a former player of another team - hand that team its right to match
+    offerRtm: async () => {
+      if (!roomId || !auctionState) throw new Error('Invalid state');
+
+      const { state: nextState } = await applyEvent({ type: 'rtm_offer' });
+      console.log('🃏 Right to match offered:', nextState.rtm);
+    },
+
+    // Settle the pending right-to-match step as a "no" (the team is away or out of time)
+    skipRtm: async () => {
+      if (!roomId || !auctionState) throw new Error('Invalid state');
+
+      const { state: nextState } = await applyEvent({ type: 'rtm_skip' });
+      console.log('⏭️ Right-to-match step skipped:', nextState.rtm?.stage);
     },
 
     // Add function to add time to the current auction timer
     addTime: async (seconds: number) => {
       if (!roomId || !auctionState) throw new Error('Invalid state');
 
-      // PAUSE AUCTION FIRST - Ensure clean state transition
-      if (auctionState.is_active && !auctionState.is_paused) {
-        console.log('⏸️ Pausing auction before adding time...');
-        await supabase
-          .from('auction_state')
-          .update({
-            is_paused: true,
-            updated_at: new Date().toISOString()
-          })
-          .eq('room_id', roomId);
-
-        // Wait for pause to take effect
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      // Moves the deadline when the clock is running, or tops up the frozen time when paused
+      const { state: nextState } = await applyEvent({ type: 'add_time', seconds });
 
-      const newTimeRemaining = Math.max(0, auctionState.time_remaining + seconds);
+      console.log(`⏰ Added ${seconds} seconds to auction timer. New time: ${nextState.time_remaining}`);
+    },
 
-      const { error } = await supabase
-        .from('auction_state')
-        .update({
-          time_remaining: newTimeRemaining,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', roomId);
+    // Mark current player as sold to the leading team, or as unsold
+    // The server charges the winner's purse and squad in the same transaction as the sale
+    completeCurrentPlayer: async (isSold: boolean = false) => {
+      if (!roomId || !auctionState || !auctionState.current_player) throw new Error('Invalid state');
 
-      if (error) {
-        console.error('❌ Error adding time to auction:', error);
-        throw error;
+      const { state: nextState } = await applyEvent({ type: isSold ? 'sell' : 'unsold', player: auctionState.current_player });
+
+      const completedPlayer = isSold
+        ? nextState.sold_players[nextState.sold_players.length - 1]
+        : nextState.unsold_players[nextState.unsold_players.length - 1];
+
+      console.log(`🏷️ Marking player as ${isSold ? 'SOLD' : 'UNSOLD'}:`, {
+        player: completedPlayer.name,
+        price: completedPlayer.final_price,
+        team: completedPlayer.sold_to_team || 'None'
+      });
+
+      console.log('✅ Player completion recorded successfully at', nextState.updated_at);
+
+      return completedPlayer;
+    },
+
+    // Ask the server to settle an expired lot or bring up the next player (auto-advance rooms)
+    // Every client may call this - the server makes sure each step only happens once
+    autoAdvance: async () => {
+      if (!roomId) throw new Error('Room ID is required');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return null;
+
+      const response = await fetch(`/api/auction/${roomId}/advance`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.access_token}` }
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Auto-advance failed');
       }
 
-      console.log(`⏰ Added ${seconds} seconds to auction timer. New time: ${newTimeRemaining}`);
+      if (result.action !== 'none') {
+        console.log('⏭️ Auto-advance:', result);
+      }
+      return result;
     },
 
-    // Add function to mark current player as sold or unsold
-    completeCurrentPlayer: async (isSold: boolean = false, winningBid: number = 0, winningTeam: string | null = null) => {
-      if (!roomId || !auctionState || !auctionState.current_player) throw new Error('Invalid state');
+    // Fill empty franchises with bots before the auction starts
+    addBots: async (personality: BotPersonality, count?: number) => {
+      if (!roomId) throw new Error('Room ID is required');
 
-      const currentPlayer = auctionState.current_player;
-      const completedPlayer = {
-        ...currentPlayer,
-        final_price: isSold ? winningBid : 0,
-        sold_to_team: isSold ? winningTeam : null,
-        is_sold: isSold,
-        completed_at: new Date().toISOString()
-      };
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
 
-      // Update the auction state to move completed player to appropriate array
-      const updatedSoldPlayers = isSold
-        ? [...(auctionState.sold_players || []), completedPlayer]
-        : auctionState.sold_players || [];
+      const response = await fetch(`/api/auction/${roomId}/bots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ action: 'add', personality, count })
+      });
 
-      const updatedUnsoldPlayers = !isSold
-        ? [...(auctionState.unsold_players || []), completedPlayer]
-        : auctionState.unsold_players || [];
+      const result = await response.json();
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Could not add bots');
+      }
 
-      // Remove the current player from the queue to prevent repetition
-      const updatedQueue = [...auctionState.player_queue];
-      const currentIndex = auctionState.current_player_index;
+      console.log('🤖 Bots added:', result.bots.length);
+      await forceRefreshParticipants();
+      return result.bots;
+    },
 
-      console.log(`🏷️ Marking player as ${isSold ? 'SOLD' : 'UNSOLD'}:`, {
-        player: currentPlayer.name,
-        price: isSold ? winningBid : 0,
-        team: isSold ? winningTeam : 'None',
-        currentIndex,
-        queueLength: updatedQueue.length
+    removeBot: async (participantId: string) => {
+      if (!roomId) throw new Error('Room ID is required');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      const response = await fetch(`/api/auction/${roomId}/bots`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ action: 'remove', participantId })
       });
 
-      const { error } = await supabase
-        .from('auction_state')
-        .update({
-          sold_players: updatedSoldPlayers,
-          unsold_players: updatedUnsoldPlayers,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', roomId);
+      const result = await response.json();
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Could not remove the bot');
+      }
 
-      if (error) {
-        console.error('❌ Error updating completed player:', error);
-        throw error;
+      await forceRefreshParticipants();
+    },
+
+    // Take back the last sale or unsold marking - the server refunds the buyer and logs who did it
+    undoLastAction: async () => {
+      if (!roomId) throw new Error('Room ID is required');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      const response = await fetch(`/api/auction/${roomId}/undo`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.access_token}` }
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Undo failed');
       }
 
-      console.log('✅ Player completion recorded successfully');
+      console.log('↩️ Undid last action:', result.entry);
+      await refresh();
+      await forceRefreshParticipants();
+      return result.entry as AuctionAuditEntry;
     },
   };
 
@@ -820,81 +793,148 @@ export function useAuctionRealtime(
     placeBid: async (amount: number) => {
       if (!roomId || !userId || !auctionState) throw new Error('Invalid state');
 
-      const participant = participants.find(p => p.user_id === userId);
-      if (!participant) throw new Error('You are not a participant in this auction');
-
-      if (amount <= auctionState.current_bid) {
-        throw new Error('Bid must be higher than current bid');
+      // Check if there's a current player
+      if (!auctionState.current_player_id) {
+        throw new Error('No player is currently up for auction');
       }
 
-      // Enhanced budget validation with detailed messages
-      if (amount > participant.budget_remaining) {
-        const shortfall = amount - participant.budget_remaining;
-        throw new Error(`Insufficient budget! You need ₹${shortfall}L more. Your remaining budget: ₹${participant.budget_remaining}L`);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      // The server checks turn, squad and budget rules and records the bid atomically
+      const response = await fetch(`/api/auction/${roomId}/bid`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          playerId: auctionState.current_player_id,
+          amount
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.accepted) {
+        throw new Error(result.message || result.error || 'Bid was rejected');
       }
 
-      // Check if auction is active
-      if (!auctionState.is_active || auctionState.is_paused) {
-        throw new Error('Cannot place bid when auction is paused or inactive');
+      return result.bid as BidData;
+    },
+
+    // Drop this team out of the bidding for the current player
+    pass: async () => {
+      if (!roomId || !userId || !auctionState?.current_player_id) throw new Error('No player is currently up for auction');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      const response = await fetch(`/api/auction/${roomId}/pass`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ playerId: auctionState.current_player_id })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Pass was rejected');
       }
 
-      // Check if there's a current player
-      if (!auctionState.current_player_id) {
-        throw new Error('No player is currently up for auction');
+      return result.passedTeams as string[];
+    },
+
+    // Set this team's auto-bid ceiling on the current player, or clear it with null
+    setAutoBid: async (maxAmount: number | null) => {
+      if (!roomId || !userId || !auctionState?.current_player_id) throw new Error('No player is currently up for auction');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
+
+      const response = await fetch(`/api/auction/${roomId}/auto-bid`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({
+          playerId: auctionState.current_player_id,
+          maxAmount
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Auto-bid was rejected');
       }
 
-      // Insert new bid
-      const { error: bidError } = await supabase
-        .from('auction_bids')
-        .insert({
-          room_id: roomId,
-          player_id: auctionState.current_player_id,
-          bidder_id: userId,
-          team_id: participant.id,
-          bid_amount: amount,
-          is_winning_bid: true
-        });
+      console.log('🤖 Auto-bid ceiling saved, auto-bids placed:', result.placed?.length || 0);
+      return result.autoBid as AuctionAutoBid | null;
+    },
 
-      if (bidError) throw bidError;
+    // Answer a right-to-match offer - the server checks it is this team's turn
+    respondToRtm: async (action: 'exercise' | 'decline' | 'raise' | 'no_raise' | 'match' | 'pass', amount?: number) => {
+      if (!roomId || !userId) throw new Error('Invalid state');
 
-      // Update current bid in auction state
-      const { error: stateError } = await supabase
-        .from('auction_state')
-        .update({
-          current_bid: amount,
-          leading_team: participant.team_id,
-          current_bidder_id: userId,
-          time_remaining: Math.max(auctionState.time_remaining, 10), // Extend time to at least 10 seconds
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', roomId);
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Your session has expired - please sign in again');
 
-      if (stateError) throw stateError;
+      const response = await fetch(`/api/auction/${roomId}/rtm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ action, amount })
+      });
 
-      // Mark previous bids as not winning
-      await supabase
-        .from('auction_bids')
-        .update({ is_winning_bid: false })
-        .eq('room_id', roomId)
-        .eq('player_id', auctionState.current_player_id)
-        .neq('bidder_id', userId);
+      const result = await response.json();
+
+      if (!response.ok || !result.ok) {
+        throw new Error(result.message || result.error || 'Right-to-match answer was rejected');
+      }
+
+      return result.rtm;
     },
 
-    // Helper function to check if a user can afford a bid
-    canAffordBid: (amount: number, userIdToCheck: string): { canAfford: boolean; message?: string } => {
+    // Helper function to check if a user can afford a bid and still fill their minimum squad
+    canAffordBid: (
+      amount: number,
+      userIdToCheck: string,
+      rules: AuctionRules = DEFAULT_AUCTION_RULES
+    ): { canAfford: boolean; message?: string } => {
       const participant = participants.find(p => p.user_id === userIdToCheck);
       if (!participant) {
         return { canAfford: false, message: 'Participant not found' };
       }
 
       if (amount > participant.budget_remaining) {
-        const shortfall = amount - participant.budget_remaining;
+        const shortfall = subtractMoney(amount, participant.budget_remaining);
         return {
           canAfford: false,
-          message: `Insufficient budget! Need ₹${shortfall}L more. Remaining: ₹${participant.budget_remaining}L`
+          message: `Insufficient budget! Need ${formatMoney(shortfall)} more. Remaining: ${formatMoney(participant.budget_remaining)}`
         };
       }
 
+      if (auctionState) {
+        const maxBid = getMaxAllowableBid(
+          auctionState,
+          { participantId: participant.id, teamId: participant.team_id || '', budgetRemaining: participant.budget_remaining },
+          rules
+        );
+        if (amount > maxBid) {
+          return {
+            canAfford: false,
+            message: `Max bid is ${formatMoney(maxBid)} - the rest is reserved for your remaining squad slots`
+          };
+        }
+      }
+
       return { canAfford: true };
     }
   };
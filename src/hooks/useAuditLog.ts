@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Custom hook for a room's audit trail
+ * Lists auctioneer corrections (undone sales and unsold markings) as they happen, newest first
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionAuditEntry } from '@/types/auction';
+
+/**
+ * Custom hook to follow the audit log of an auction room
+ *
+ * @param roomId - The ID of the auction room
+ * @returns The room's audit entries, newest first
+ *
+ * @example
+ * ```typescript
+ * const { entries } = useAuditLog(roomId);
+ * ```
+ */
+export function useAuditLog(roomId: string) {
+  const [entries, setEntries] = useState<AuctionAuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Loads the room's audit entries
+   */
+  const loadEntries = useCallback(async () => {
+    if (!roomId) {
+      setEntries([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('auction_audit_log')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error loading audit log:', error);
+        return;
+      }
+
+      setEntries(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  /**
+   * Initial load and real-time subscription, so every screen sees a correction as soon as it is made
+   */
+  useEffect(() => {
+    if (!roomId) return;
+
+    loadEntries();
+
+    const subscription = supabase
+      .channel(`audit_log_${roomId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'auction_audit_log',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        console.log('📋 Audit log entry added, refreshing...');
+        loadEntries();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, loadEntries]);
+
+  return {
+    entries,
+    loading,
+    refetch: loadEntries
+  };
+}
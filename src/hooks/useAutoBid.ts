@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Custom hook for the current team's auto-bid ceiling on the player up for auction
+ * The ceiling is private to the team: row-level security lets its primary owner and co-owners
+ * read it, and the server does the bidding. A team has one ceiling per player, so it is shared
+ * by everyone managing the team.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionAutoBid } from '@/types/auction';
+
+/**
+ * Custom hook to watch the team's auto-bid ceiling on one player
+ *
+ * @param roomId - The ID of the auction room
+ * @param participantId - The team the signed-in user owns or co-owns
+ * @param playerId - The player currently up, or null between lots
+ * @returns The ceiling (null when none is set) and a manual refetch; `user_id` is who set it
+ *
+ * @example
+ * ```typescript
+ * const { autoBid } = useAutoBid(roomId, myParticipant.id, auctionState.current_player_id);
+ * ```
+ */
+export function useAutoBid(roomId: string, participantId: string | null, playerId: string | null) {
+  const [autoBid, setCurrentAutoBid] = useState<AuctionAutoBid | null>(null);
+
+  const loadAutoBid = useCallback(async () => {
+    if (!roomId || !participantId || !playerId) {
+      setCurrentAutoBid(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('auction_auto_bids')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('participant_id', participantId)
+      .eq('player_id', playerId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading auto-bid ceiling:', error);
+      return;
+    }
+
+    setCurrentAutoBid(data);
+  }, [roomId, participantId, playerId]);
+
+  /**
+   * Initial load and real-time subscription; the server drops a ceiling its rules can no longer honour
+   */
+  useEffect(() => {
+    loadAutoBid();
+    if (!roomId || !participantId) return;
+
+    const subscription = supabase
+      .channel(`auto_bids_${roomId}_${participantId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_auto_bids',
+        filter: `participant_id=eq.${participantId}`
+      }, () => {
+        console.log('🤖 Auto-bid ceiling changed, refreshing...');
+        loadAutoBid();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, participantId, loadAutoBid]);
+
+  return {
+    autoBid,
+    refetch: loadAutoBid
+  };
+}
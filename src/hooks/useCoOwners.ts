@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Custom hook for the co-owners of a room's franchises
+ * A franchise's primary owner invites friends with a link; co-owners bid for the team and share its purse and squad
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionCoOwner } from '@/types/auction';
+
+/**
+ * Custom hook to load a room's co-owners and manage the user's own franchise's
+ *
+ * @param roomId - The ID of the auction room
+ * @param userId - The signed-in user's ID
+ * @returns Every co-owner in the room (with names), the team the user co-owns, and invite/accept/remove actions
+ *
+ * @example
+ * ```typescript
+ * const { coOwners, coOwnedParticipantId, inviteCoOwner } = useCoOwners(roomId, user.id);
+ * ```
+ */
+export function useCoOwners(roomId: string, userId: string | null) {
+  const [coOwners, setCoOwners] = useState<AuctionCoOwner[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Loads the room's co-owners, oldest first, with their profile names
+   */
+  const loadCoOwners = useCallback(async () => {
+    if (!roomId) {
+      setCoOwners([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('auction_co_owners')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('added_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading co-owners:', error);
+        return;
+      }
+
+      const rows = (data || []) as AuctionCoOwner[];
+      if (rows.length === 0) {
+        setCoOwners([]);
+        return;
+      }
+
+      const { data: profiles } = await supabase
+        .from('users_profiles')
+        .select('id, full_name')
+        .in('id', rows.map(row => row.user_id));
+
+      setCoOwners(rows.map(row => ({
+        ...row,
+        user_name: profiles?.find(profile => profile.id === row.user_id)?.full_name || 'Co-owner'
+      })));
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  /**
+   * Initial load and real-time subscription, so teams see co-owners come and go
+   */
+  useEffect(() => {
+    if (!roomId) return;
+
+    loadCoOwners();
+
+    const subscription = supabase
+      .channel(`co_owners_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_co_owners',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        console.log('🤝 Co-owners changed, refreshing...');
+        loadCoOwners();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, loadCoOwners]);
+
+  const coOwnedParticipantId = coOwners.find(coOwner => coOwner.user_id === userId)?.participant_id || null;
+
+  /**
+   * Sends a co-owner action to the server, which checks who may do what
+   */
+  const callCoOwnersApi = async (body: Record<string, unknown>) => {
+    if (!roomId) throw new Error('Room ID is required');
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Your session has expired - please sign in again');
+
+    const response = await fetch(`/api/auction/${roomId}/co-owners`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify(body)
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.ok) {
+      throw new Error(result.message || result.error || 'Co-owner request failed');
+    }
+    return result as { ok: true; participantId: string; code?: string };
+  };
+
+  /**
+   * Creates a new invite code for the user's franchise; earlier links stop working
+   *
+   * @returns The invite code
+   */
+  const inviteCoOwner = async () => {
+    const result = await callCoOwnersApi({ action: 'invite' });
+    return result.code as string;
+  };
+
+  /**
+   * Joins the franchise an invite code belongs to
+   *
+   * @param code - The code from the invite link
+   */
+  const acceptInvite = async (code: string) => {
+    const result = await callCoOwnersApi({ action: 'accept', code });
+    await loadCoOwners();
+    return result.participantId;
+  };
+
+  /**
+   * Takes a co-owner off the user's franchise (primary owner only)
+   *
+   * @param coOwnerUserId - The co-owner's user ID
+   */
+  const removeCoOwner = async (coOwnerUserId: string) => {
+    await callCoOwnersApi({ action: 'remove', userId: coOwnerUserId });
+    await loadCoOwners();
+  };
+
+  return {
+    coOwners,
+    coOwnedParticipantId,
+    loading,
+    inviteCoOwner,
+    acceptInvite,
+    removeCoOwner,
+    refetch: loadCoOwners
+  };
+}
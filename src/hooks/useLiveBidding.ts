@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
+import { addMoney, formatMoney } from '@/lib/money';
 
 /**
  * Interface representing a bid in the auction
@@ -194,10 +195,10 @@ export function useLiveBidding(roomId: string, userId: string | null) {
       // Validate minimum bid amount
       const currentBid = auctionStateData.current_bid || 0;
       const basePrice = auctionStateData.current_player.base_price || 50;
-      const minimumBid = currentBid === 0 ? basePrice : currentBid + 25;
+      const minimumBid = currentBid === 0 ? basePrice : addMoney(currentBid, 25);
 
       if (amount < minimumBid) {
-        throw new Error(`Bid must be at least ₹${minimumBid}L`);
+        throw new Error(`Bid must be at least ${formatMoney(minimumBid)}`);
       }
 
       // Insert bid into new bidding_history table
@@ -7,6 +7,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
+import { addMoney, fromRupees } from '@/lib/money';
 
 /**
  * Interface representing a purchased player in a user's squad
@@ -99,14 +100,14 @@ export function useMySquad(roomId: string, participantId: string | null) {
             name: playerDetail?.name || 'Unknown Player',
             role: playerDetail?.role || 'Unknown',
             country: playerDetail?.country || 'Unknown',
-            base_price: playerDetail?.base_price || 0
+            base_price: fromRupees(playerDetail?.base_price || 0)
           }
         };
       });
 
       setMyPlayers(transformedPlayers);
       setPlayersCount(transformedPlayers.length);
-      setTotalSpent(transformedPlayers.reduce((total, p) => total + p.final_price, 0));
+      setTotalSpent(addMoney(...transformedPlayers.map(p => p.final_price)));
 
     } catch (error) {
       console.error('Squad loading error:', error);
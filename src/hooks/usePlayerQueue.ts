@@ -2,13 +2,15 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
-import { Player, SAMPLE_PLAYERS } from '@/types/auction';
+import { describePlayerPool, loadRoomPlayerPool } from '@/lib/playerPool';
+import { buildSetQueue } from '@/lib/playerSets';
+import type { AuctionPlayer, AuctionRoomSettings } from '@/types/auction';
 
 interface PlayerQueueState {
-  players: Player[];
+  players: AuctionPlayer[];
   currentIndex: number;
-  currentPlayer: Player | null;
-  nextPlayer: Player | null;
+  currentPlayer: AuctionPlayer | null;
+  nextPlayer: AuctionPlayer | null;
   isLoading: boolean;
   error: string | null;
 }
@@ -27,11 +29,11 @@ export function usePlayerQueue(roomId: string) {
    * ROOM-SPECIFIC PLAYER SHUFFLING ALGORITHM
    * Uses the same algorithm as PlayerQueue component but with room-specific seeding
    */
-  const shufflePlayersWithRoomSeed = useCallback((players: Player[], roomId: string) => {
+  const shufflePlayersWithRoomSeed = useCallback((players: AuctionPlayer[], roomId: string, setId?: string) => {
     const shuffled = [...players];
 
-    // Create room-specific seed (consistent for the same room)
-    const seed = `auction_room_${roomId}_shuffle`;
+    // Create room-specific seed (consistent for the same room, and different for each set)
+    const seed = setId ? `auction_room_${roomId}_set_${setId}_shuffle` : `auction_room_${roomId}_shuffle`;
 
     // Method 1: Create multiple hash variants for more entropy
     let hash1 = 0;
@@ -104,33 +106,27 @@ export function usePlayerQueue(roomId: string) {
     try {
       setQueueState(prev => ({ ...prev, isLoading: true, error: null }));
 
-      // Load actual cricketers from the database
-      const { data: playersFromDB, error: playersError } = await supabase
-        .from('players')
-        .select('*')
-        .order('name');
+      // Load the room's settings, then the players its pool takes
+      const { data: roomData } = await supabase
+        .from('auction_rooms')
+        .select('settings')
+        .eq('id', roomId)
+        .single();
 
-      if (playersError) {
-        throw new Error(`Failed to load players: ${playersError.message}`);
-      }
+      const settings = roomData?.settings as Partial<AuctionRoomSettings> | null;
+      const playersToShuffle = await loadRoomPlayerPool(supabase, roomId, settings?.playerPool);
 
-      if (!playersFromDB || playersFromDB.length === 0) {
-        throw new Error('No players found in database');
+      if (playersToShuffle.length === 0) {
+        throw new Error(settings?.playerPool
+          ? `This room's player pool is empty (${describePlayerPool(settings.playerPool)})`
+          : 'No players found in database - import them from /admin/players');
       }
 
-      // Convert database players to Player type format
-      const playersToShuffle: Player[] = playersFromDB.map(player => ({
-        id: player.id,
-        name: player.name,
-        team: player.team || 'Unknown',
-        role: player.role || 'All-rounder',
-        base_price: player.base_price || 100000, // Fix: use base_price not basePrice
-        nationality: player.nationality || 'Unknown',
-        battingStyle: player.batting_style || 'Right-hand bat',
-        bowlingStyle: player.bowling_style || 'Right-arm medium'
-      }));
-
-      const shuffledPlayers = shufflePlayersWithRoomSeed(playersToShuffle, roomId);
+      // Rooms with sets run them in order and shuffle only within each set
+      const playerSets = settings?.playerSets;
+      const shuffledPlayers = playerSets && playerSets.length > 0
+        ? buildSetQueue(playersToShuffle, playerSets, (setPlayers, set) => shufflePlayersWithRoomSeed(setPlayers, roomId, set.id))
+        : shufflePlayersWithRoomSeed(playersToShuffle, roomId);
 
       setQueueState({
         players: shuffledPlayers,
@@ -145,7 +141,7 @@ export function usePlayerQueue(roomId: string) {
       setQueueState(prev => ({
         ...prev,
         isLoading: false,
-        error: 'Failed to initialize player queue'
+        error: (error as Error).message || 'Failed to initialize player queue'
       }));
     }
   }, [roomId, shufflePlayersWithRoomSeed]);
@@ -153,7 +149,7 @@ export function usePlayerQueue(roomId: string) {
   /**
    * Move to the next player in the queue
    */
-  const moveToNextPlayer = useCallback((): Player | null => {
+  const moveToNextPlayer = useCallback((): AuctionPlayer | null => {
     const nextIndex = queueState.currentIndex + 1;
 
     if (nextIndex >= queueState.players.length) {
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Custom hook for the pre-auction retention phase
+ * Each team picks players to keep before bidding opens; picks are charged down the room's slabs when the auction starts
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionRetention } from '@/types/auction';
+
+/**
+ * Custom hook to track and edit retentions in a room
+ *
+ * @param roomId - The ID of the auction room
+ * @param participantId - The current user's participant ID, or null for the auctioneer
+ * @param maxPerTeam - Most players one team may retain
+ * @returns All retentions in pick order, the current team's picks and a toggle for them
+ *
+ * @example
+ * ```typescript
+ * const { myRetentions, toggleRetention } = useRetentions(roomId, participantId, 3);
+ * ```
+ */
+export function useRetentions(roomId: string, participantId: string | null, maxPerTeam: number) {
+  const [retentions, setRetentions] = useState<AuctionRetention[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Loads every retention for the room, oldest pick first
+   */
+  const loadRetentions = useCallback(async () => {
+    if (!roomId) {
+      setRetentions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('auction_retentions')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading retentions:', error);
+        return;
+      }
+
+      setRetentions(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  /**
+   * Initial load and real-time subscription, so every screen sees picks as they are made
+   */
+  useEffect(() => {
+    if (!roomId) return;
+
+    loadRetentions();
+
+    const subscription = supabase
+      .channel(`retentions_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_retentions',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        console.log('🔒 Retentions changed, refreshing...');
+        loadRetentions();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, loadRetentions]);
+
+  const myRetentions = participantId
+    ? retentions.filter(r => r.participant_id === participantId).map(r => r.player_id)
+    : [];
+
+  /**
+   * Retains a player for the current team, or releases them
+   * Releasing a pick moves the later ones up a slab
+   *
+   * @param playerId - The player to toggle
+   */
+  const toggleRetention = async (playerId: string) => {
+    if (!roomId || !participantId) throw new Error('Only teams can retain players');
+
+    if (myRetentions.includes(playerId)) {
+      const { error } = await supabase
+        .from('auction_retentions')
+        .delete()
+        .eq('room_id', roomId)
+        .eq('participant_id', participantId)
+        .eq('player_id', playerId);
+
+      if (error) throw error;
+    } else {
+      if (myRetentions.length >= maxPerTeam) {
+        throw new Error(`You can retain at most ${maxPerTeam} players`);
+      }
+      if (retentions.some(r => r.player_id === playerId)) {
+        throw new Error('Another team has already retained this player');
+      }
+
+      const { error } = await supabase
+        .from('auction_retentions')
+        .insert({ room_id: roomId, participant_id: participantId, player_id: playerId });
+
+      if (error) throw error;
+    }
+
+    await loadRetentions();
+  };
+
+  return {
+    retentions,
+    myRetentions,
+    loading,
+    toggleRetention,
+    refetch: loadRetentions
+  };
+}
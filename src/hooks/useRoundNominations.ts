@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Custom hook for nominating unsold players for an accelerated round
+ * Each team picks unsold players it wants brought back; the auctioneer sees the tally
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionNomination } from '@/types/auction';
+
+/**
+ * Custom hook to track and edit accelerated-round nominations in a room
+ *
+ * @param roomId - The ID of the auction room
+ * @param participantId - The current user's participant ID, or null for the auctioneer
+ * @param maxPerTeam - Most players one team may nominate
+ * @returns All nominations, the current team's picks and a toggle for them
+ *
+ * @example
+ * ```typescript
+ * const { myNominations, toggleNomination, countFor } = useRoundNominations(roomId, participantId, 5);
+ * ```
+ */
+export function useRoundNominations(roomId: string, participantId: string | null, maxPerTeam: number) {
+  const [nominations, setNominations] = useState<AuctionNomination[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Loads every nomination for the room
+   */
+  const loadNominations = useCallback(async () => {
+    if (!roomId) {
+      setNominations([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('auction_nominations')
+        .select('*')
+        .eq('room_id', roomId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading nominations:', error);
+        return;
+      }
+
+      setNominations(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  /**
+   * Initial load and real-time subscription, so every screen sees nominations as they are made
+   */
+  useEffect(() => {
+    if (!roomId) return;
+
+    loadNominations();
+
+    const subscription = supabase
+      .channel(`nominations_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_nominations',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        console.log('📝 Nominations changed, refreshing...');
+        loadNominations();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, loadNominations]);
+
+  const myNominations = participantId
+    ? nominations.filter(n => n.participant_id === participantId).map(n => n.player_id)
+    : [];
+
+  /**
+   * Nominates a player for the current team, or withdraws the nomination
+   *
+   * @param playerId - The unsold player to toggle
+   */
+  const toggleNomination = async (playerId: string) => {
+    if (!roomId || !participantId) throw new Error('Only teams can nominate players');
+
+    if (myNominations.includes(playerId)) {
+      const { error } = await supabase
+        .from('auction_nominations')
+        .delete()
+        .eq('room_id', roomId)
+        .eq('participant_id', participantId)
+        .eq('player_id', playerId);
+
+      if (error) throw error;
+    } else {
+      if (myNominations.length >= maxPerTeam) {
+        throw new Error(`You can nominate at most ${maxPerTeam} players`);
+      }
+
+      const { error } = await supabase
+        .from('auction_nominations')
+        .insert({ room_id: roomId, participant_id: participantId, player_id: playerId });
+
+      if (error) throw error;
+    }
+
+    await loadNominations();
+  };
+
+  /**
+   * Number of teams that nominated a player
+   */
+  const countFor = (playerId: string) => nominations.filter(n => n.player_id === playerId).length;
+
+  return {
+    nominations,
+    myNominations,
+    loading,
+    toggleNomination,
+    countFor,
+    refetch: loadNominations
+  };
+}
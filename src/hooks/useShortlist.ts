@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Custom hook for a user's private shortlist in a room
+ * Users star players they want, with a priority, a planned maximum and notes, instead of keeping a spreadsheet
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionShortlistEntry } from '@/types/auction';
+
+/**
+ * The parts of a shortlist entry the user edits
+ */
+export type ShortlistChanges = Partial<Pick<AuctionShortlistEntry, 'priority' | 'max_price' | 'notes'>>;
+
+/**
+ * Custom hook to load and edit the current user's shortlist in a room
+ *
+ * @param roomId - The ID of the auction room
+ * @param userId - The signed-in user's ID
+ * @returns The user's entries (highest priority first), a star toggle and an editor for each entry
+ *
+ * @example
+ * ```typescript
+ * const { shortlist, toggleShortlist, updateShortlistEntry } = useShortlist(roomId, user.id);
+ * ```
+ */
+export function useShortlist(roomId: string, userId: string | null) {
+  const [shortlist, setShortlist] = useState<AuctionShortlistEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Loads the user's entries, highest priority first, then oldest first
+   */
+  const loadShortlist = useCallback(async () => {
+    if (!roomId || !userId) {
+      setShortlist([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('auction_shortlists')
+        .select('*')
+        .eq('room_id', roomId)
+        .eq('user_id', userId)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading shortlist:', error);
+        return;
+      }
+
+      setShortlist(data || []);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId, userId]);
+
+  /**
+   * Initial load and real-time subscription, so edits show up in the user's other tabs
+   */
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    loadShortlist();
+
+    const subscription = supabase
+      .channel(`shortlist_${roomId}_${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_shortlists',
+        filter: `user_id=eq.${userId}`
+      }, () => {
+        console.log('⭐ Shortlist changed, refreshing...');
+        loadShortlist();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, userId, loadShortlist]);
+
+  const shortlistedIds = shortlist.map(entry => entry.player_id);
+
+  /**
+   * Stars a player at medium priority, or removes them from the shortlist
+   *
+   * @param playerId - The player to toggle
+   */
+  const toggleShortlist = async (playerId: string) => {
+    if (!roomId || !userId) throw new Error('Sign in to keep a shortlist');
+
+    if (shortlistedIds.includes(playerId)) {
+      const { error } = await supabase
+        .from('auction_shortlists')
+        .delete()
+        .eq('room_id', roomId)
+        .eq('user_id', userId)
+        .eq('player_id', playerId);
+
+      if (error) throw error;
+    } else {
+      const { error } = await supabase
+        .from('auction_shortlists')
+        .insert({ room_id: roomId, user_id: userId, player_id: playerId, priority: 2 });
+
+      if (error) throw error;
+    }
+
+    await loadShortlist();
+  };
+
+  /**
+   * Saves a change to one entry's priority, planned maximum or notes
+   *
+   * @param playerId - The shortlisted player
+   * @param changes - Fields to change
+   */
+  const updateShortlistEntry = async (playerId: string, changes: ShortlistChanges) => {
+    if (!roomId || !userId) throw new Error('Sign in to keep a shortlist');
+
+    // Show the change straight away; the reload below brings back the stored row
+    setShortlist(prev => prev.map(entry => (entry.player_id === playerId ? { ...entry, ...changes } : entry)));
+
+    const { error } = await supabase
+      .from('auction_shortlists')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .eq('player_id', playerId);
+
+    if (error) {
+      await loadShortlist();
+      throw error;
+    }
+
+    await loadShortlist();
+  };
+
+  return {
+    shortlist,
+    shortlistedIds,
+    loading,
+    toggleShortlist,
+    updateShortlistEntry,
+    refetch: loadShortlist
+  };
+}
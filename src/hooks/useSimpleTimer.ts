@@ -1,38 +1,47 @@
 /**
- * @fileoverview Enhanced real-time synchronized timer for auctions
- * Ensures timer is perfectly synced across all users
+ * @fileoverview Deadline-based auction countdown
+ * `auction_state.bidding_ends_at` holds the deadline in server time; every client counts down
+ * to it locally, so the clock reads the same on every screen without anyone writing the timer.
  */
 
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { supabase } from '@/lib/supabase';
+import { serverNow, syncServerClock } from '@/lib/serverClock';
+
+/** How often the countdown is recomputed; shorter than a second so the display never skips */
+const TICK_MS = 250;
 
 /**
- * Custom hook for managing synchronized auction timers
- * @param roomId - The auction room identifier
- * @param initialTime - Initial time in seconds
- * @param isActive - Whether the timer is active
+ * Custom hook for counting down to the auction deadline
+ * @param biddingEndsAt - Deadline for the current player (server time), null while paused
+ * @param pausedTime - Seconds left while the clock is paused (`auction_state.time_remaining`)
+ * @param isActive - Whether the auction is active
  * @param isPaused - Whether the timer is paused
  * @param onTimeUpdate - Callback for time updates
- * @param onTimeout - Callback when timer reaches zero
- * @returns Timer state and controls
+ * @param onTimeout - Callback when timer reaches zero, called once per deadline
+ * @returns Timer state
  */
 export function useSimpleTimer(
-  roomId: string,
-  initialTime: number,
+  biddingEndsAt: string | null | undefined,
+  pausedTime: number,
   isActive: boolean,
   isPaused: boolean,
   onTimeUpdate?: (time: number) => void,
   onTimeout?: () => void
 ) {
-  const [timeRemaining, setTimeRemaining] = useState(initialTime);
-  const [isRunning, setIsRunning] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const running = isActive && !isPaused && !!biddingEndsAt;
+
+  const computeRemaining = useCallback(() => {
+    if (!running || !biddingEndsAt) return Math.max(0, pausedTime);
+    const msLeft = new Date(biddingEndsAt).getTime() - serverNow();
+    return Math.max(0, Math.ceil(msLeft / 1000));
+  }, [running, biddingEndsAt, pausedTime]);
+
+  const [timeRemaining, setTimeRemaining] = useState(computeRemaining);
   const onTimeUpdateRef = useRef(onTimeUpdate);
   const onTimeoutRef = useRef(onTimeout);
-  const lastSyncRef = useRef(Date.now());
+  const expiredDeadlineRef = useRef<string | null>(null);
 
   // Update refs to avoid recreating effects
   useEffect(() => {
@@ -43,116 +52,41 @@ export function useSimpleTimer(
     onTimeoutRef.current = onTimeout;
   }, [onTimeout]);
 
-  // Sync timer with database periodically
-  const syncWithDatabase = useCallback(async () => {
-    if (!roomId) return;
-
-    try {
-      const { data } = await supabase
-        .from('auction_state')
-        .select('time_remaining, is_active, is_paused')
-        .eq('room_id', roomId)
-        .single();
-
-      if (data) {
-        const dbTime = data.time_remaining || 0;
-        const localTime = timeRemaining;
-
-        // Only sync if there's a significant difference (more than 2 seconds)
-        if (Math.abs(dbTime - localTime) > 2) {
-          setTimeRemaining(dbTime);
-
-          if (onTimeUpdateRef.current) {
-            onTimeUpdateRef.current(dbTime);
-          }
-        }
-
-        lastSyncRef.current = Date.now();
-      }
-    } catch (error) {
-      // Timer sync failed - error handling without console output
-    }
-  }, [roomId, timeRemaining]);
-
-  // Update timer from external changes
+  // Measure the server clock offset once so the countdown matches the server's deadline
   useEffect(() => {
-    if (initialTime !== timeRemaining) {
-      setTimeRemaining(initialTime);
-    }
-  }, [initialTime]);
+    syncServerClock().then(() => setTimeRemaining(computeRemaining()));
+  }, [computeRemaining]);
 
-  // Timer logic with database sync
+  // Recompute from the deadline instead of decrementing, so a slow tab never drifts
   useEffect(() => {
-    const shouldRun = isActive && !isPaused && timeRemaining > 0;
-    setIsRunning(shouldRun);
-
-    // Clear existing intervals
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    if (syncIntervalRef.current) {
-      clearInterval(syncIntervalRef.current);
-      syncIntervalRef.current = null;
-    }
-
-    if (shouldRun) {
-      // Main timer countdown
-      intervalRef.current = setInterval(() => {
-        setTimeRemaining(prev => {
-          const newTime = Math.max(0, prev - 1);
+    const tick = () => {
+      const remaining = computeRemaining();
 
-          // Notify parent component of time update
-          if (onTimeUpdateRef.current) {
-            onTimeUpdateRef.current(newTime);
-          }
-
-          // Update database every second for real-time sync
-          supabase
-            .from('auction_state')
-            .update({ time_remaining: newTime })
-            .eq('room_id', roomId)
-            .then(({ error }) => {
-              // Silent error handling for database updates
-            });
-
-          // Handle timeout
-          if (newTime === 0 && onTimeoutRef.current) {
-            onTimeoutRef.current();
-          }
-
-          return newTime;
-        });
-      }, 1000);
-
-      // Sync with database every 3 seconds to prevent drift
-      syncIntervalRef.current = setInterval(syncWithDatabase, 3000);
-    }
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
+      setTimeRemaining(prev => {
+        if (prev !== remaining && onTimeUpdateRef.current) {
+          onTimeUpdateRef.current(remaining);
+        }
+        return remaining;
+      });
+
+      // Handle timeout - once per deadline, however many ticks see zero
+      if (running && remaining === 0 && biddingEndsAt && expiredDeadlineRef.current !== biddingEndsAt) {
+        expiredDeadlineRef.current = biddingEndsAt;
+        if (onTimeoutRef.current) {
+          onTimeoutRef.current();
+        }
       }
     };
-  }, [isActive, isPaused, timeRemaining, roomId, syncWithDatabase]);
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-      }
-    };
-  }, []);
+    tick();
+    if (!running) return;
+
+    const interval = setInterval(tick, TICK_MS);
+    return () => clearInterval(interval);
+  }, [running, biddingEndsAt, computeRemaining]);
 
   return {
     timeRemaining,
-    isRunning
+    isRunning: running && timeRemaining > 0
   };
 }
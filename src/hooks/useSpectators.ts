@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Custom hook for a room's spectators
+ * Watching users keep a row in `auction_spectators` fresh while the room is open; everyone in the room sees the live count
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionRoomSettings } from '@/types/auction';
+
+/**
+ * How often a spectator refreshes their row, and how long a row counts after its last refresh
+ */
+const HEARTBEAT_MS = 30_000;
+const SEEN_WINDOW_MS = 90_000;
+
+/**
+ * Custom hook to count a room's spectators and, when the user is one, keep them registered
+ *
+ * @param roomId - The ID of the auction room
+ * @param userId - The signed-in user's ID
+ * @param watching - Whether this user is in the room as a spectator
+ * @returns The number of users watching, and whether the room refused or removed this spectator
+ *
+ * @example
+ * ```typescript
+ * const { spectatorCount, blocked } = useSpectators(roomId, user.id, isSpectator);
+ * ```
+ */
+export function useSpectators(roomId: string, userId: string | null, watching: boolean) {
+  const [spectatorCount, setSpectatorCount] = useState(0);
+  const [blocked, setBlocked] = useState(false);
+
+  /**
+   * Counts spectators seen within the last window
+   */
+  const loadCount = useCallback(async () => {
+    if (!roomId) return;
+
+    const { count, error } = await supabase
+      .from('auction_spectators')
+      .select('id', { count: 'exact', head: true })
+      .eq('room_id', roomId)
+      .gte('last_seen_at', new Date(Date.now() - SEEN_WINDOW_MS).toISOString());
+
+    if (error) {
+      console.error('Error loading spectators:', error);
+      return;
+    }
+
+    setSpectatorCount(count || 0);
+  }, [roomId]);
+
+  /**
+   * Live count, recounted on every change and on each heartbeat so closed tabs drop out
+   */
+  useEffect(() => {
+    if (!roomId) return;
+
+    loadCount();
+
+    const subscription = supabase
+      .channel(`spectators_${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'auction_spectators',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        loadCount();
+      })
+      .subscribe();
+
+    const interval = setInterval(loadCount, HEARTBEAT_MS);
+
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(interval);
+    };
+  }, [roomId, loadCount]);
+
+  /**
+   * Registers the spectator and refreshes their row; row-level security refuses rooms that don't allow
+   * spectators. The room's settings are followed too, so turning spectators off (or a practice room)
+   * removes the spectator straight away rather than at the next heartbeat
+   */
+  useEffect(() => {
+    if (!roomId || !userId || !watching) return;
+
+    let cancelled = false;
+
+    const leave = () => supabase
+      .from('auction_spectators')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .then(({ error }) => {
+        if (error) console.error('Error leaving as spectator:', error);
+      });
+
+    const heartbeat = async () => {
+      const { error } = await supabase
+        .from('auction_spectators')
+        .upsert({
+          room_id: roomId,
+          user_id: userId,
+          last_seen_at: new Date().toISOString()
+        }, { onConflict: 'room_id,user_id' });
+
+      if (cancelled) return;
+      if (error) {
+        console.log('👀 Spectating refused:', error.message);
+        setBlocked(true);
+        return;
+      }
+      setBlocked(false);
+    };
+
+    console.log('👀 Joining as spectator...');
+    heartbeat();
+    const interval = setInterval(heartbeat, HEARTBEAT_MS);
+
+    const roomSubscription = supabase
+      .channel(`spectator_room_${roomId}_${userId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'auction_rooms',
+        filter: `id=eq.${roomId}`
+      }, (payload) => {
+        const settings = (payload.new?.settings || {}) as Partial<AuctionRoomSettings>;
+        if (settings.allowSpectators !== false && !settings.practice) return;
+
+        console.log('👀 Spectators turned off for this room');
+        clearInterval(interval);
+        setBlocked(true);
+        leave();
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      roomSubscription.unsubscribe();
+      leave();
+    };
+  }, [roomId, userId, watching]);
+
+  return {
+    spectatorCount,
+    blocked,
+    refetch: loadCount
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Custom hook for a franchise's private strategy chat
+ * Only the team's primary owner and co-owners can read or post; row-level security enforces it
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { AuctionTeamMessage } from '@/types/auction';
+
+/**
+ * Most recent messages loaded into the chat
+ */
+const MESSAGE_LIMIT = 100;
+
+/**
+ * Custom hook to follow and post to one team's chat
+ *
+ * @param roomId - The ID of the auction room
+ * @param participantId - The team, or null when the user has none
+ * @param userId - The signed-in user's ID
+ * @returns Messages oldest first and a send function
+ *
+ * @example
+ * ```typescript
+ * const { messages, sendMessage } = useTeamChat(roomId, myParticipant?.id || null, user.id);
+ * ```
+ */
+export function useTeamChat(roomId: string, participantId: string | null, userId: string | null) {
+  const [messages, setMessages] = useState<AuctionTeamMessage[]>([]);
+
+  const loadMessages = useCallback(async () => {
+    if (!roomId || !participantId) {
+      setMessages([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('auction_team_messages')
+      .select('*')
+      .eq('participant_id', participantId)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGE_LIMIT);
+
+    if (error) {
+      console.error('Error loading team chat:', error);
+      return;
+    }
+
+    setMessages(((data || []) as AuctionTeamMessage[]).reverse());
+  }, [roomId, participantId]);
+
+  useEffect(() => {
+    if (!roomId || !participantId) return;
+
+    loadMessages();
+
+    const subscription = supabase
+      .channel(`team_chat_${participantId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'auction_team_messages',
+        filter: `participant_id=eq.${participantId}`
+      }, (payload) => {
+        const message = payload.new as AuctionTeamMessage;
+        setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message].slice(-MESSAGE_LIMIT)));
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [roomId, participantId, loadMessages]);
+
+  /**
+   * Posts a message to the team's chat
+   *
+   * @param text - The message (trimmed; 500 characters at most)
+   */
+  const sendMessage = async (text: string) => {
+    if (!roomId || !participantId || !userId) throw new Error('Join a team to use its chat');
+
+    const message = text.trim();
+    if (!message) return;
+
+    const { error } = await supabase
+      .from('auction_team_messages')
+      .insert({ room_id: roomId, participant_id: participantId, user_id: userId, message: message.slice(0, 500) });
+
+    if (error) throw error;
+  };
+
+  return {
+    messages,
+    sendMessage,
+    refetch: loadMessages
+  };
+}
@@ -0,0 +1,349 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyAuctionEvent,
+  getMaxAllowableBid,
+  AuctionEvent,
+  AuctionRules,
+  AuctionTeam,
+  AuctionTransition,
+  DEFAULT_AUCTION_RULES
+} from '@/lib/auctionEngine';
+import type { AuctionPlayer, AuctionStateRecord } from '@/types/auction';
+
+const NOW = '2026-10-19T10:00:00.000Z';
+const secondsAfter = (seconds: number) => new Date(Date.parse(NOW) + seconds * 1000).toISOString();
+
+const RULES: AuctionRules = { ...DEFAULT_AUCTION_RULES, playersPerTeam: 3, minSquadSize: 3, maxOverseasPlayers: 1 };
+
+const PLAYERS: AuctionPlayer[] = [
+  { id: 'p1', name: 'Opener', base_price: 20, role: 'BAT' },
+  { id: 'p2', name: 'Quick', base_price: 50, role: 'BOWL', is_overseas: true },
+  { id: 'p3', name: 'Keeper', base_price: 30, role: 'WK', previous_team: 'CSK' }
+];
+
+const MI: AuctionTeam = { participantId: 'pa', teamId: 'team-a', teamCode: 'MI', budgetRemaining: 1000 };
+const CSK: AuctionTeam = { participantId: 'pb', teamId: 'team-b', teamCode: 'CSK', budgetRemaining: 1000 };
+const TEAMS = [MI, CSK];
+
+const EMPTY_STATE: AuctionStateRecord = {
+  room_id: 'room-1',
+  is_active: false,
+  is_paused: false,
+  current_player_id: null,
+  current_bid: 0,
+  base_price: 0,
+  current_bidder_id: null,
+  leading_team: null,
+  time_remaining: 30,
+  current_player_index: 0,
+  total_players: 0,
+  player_queue: [],
+  sold_players: [],
+  unsold_players: []
+};
+
+/**
+ * Applies an event and fails the test if the engine refused it
+ */
+function apply(state: AuctionStateRecord, event: AuctionEvent, teams = TEAMS, rules = RULES, now = NOW) {
+  const result = applyAuctionEvent(state, event, { rules, teams, now });
+  if (!result.ok) throw new Error(`${event.type} refused: ${result.violation.message}`);
+  return result;
+}
+
+const violationOf = (result: AuctionTransition) => (result.ok ? null : result.violation.code);
+
+/**
+ * The auction started with the given queue, the first player up and the clock running
+ */
+const openLot = (queue = PLAYERS, rules = RULES) => apply(EMPTY_STATE, { type: 'start', queue }, TEAMS, rules).state;
+
+const bid = (participantId: string, amount: number): AuctionEvent => ({ type: 'bid', participantId, bidderId: `user-${participantId}`, amount });
+
+describe('bid validation', () => {
+  it('accepts an opening bid at the base price and makes that team the leader', () => {
+    const { state } = apply(openLot(), bid('pa', 20));
+
+    expect(state.current_bid).toBe(20);
+    expect(state.leading_team).toBe('team-a');
+    expect(state.current_bidder_id).toBe('user-pa');
+  });
+
+  it('records no bidder for a bot bid', () => {
+    const { state } = apply(openLot(), { type: 'bid', participantId: 'pb', bidderId: null, amount: 20 });
+
+    expect(state.leading_team).toBe('team-b');
+    expect(state.current_bidder_id).toBeNull();
+  });
+
+  it('refuses bids below the base price, below the next rung or off the ladder', () => {
+    const lot = openLot();
+    expect(violationOf(applyAuctionEvent(lot, bid('pa', 15), { rules: RULES, teams: TEAMS, now: NOW }))).toBe('bid_too_low');
+    expect(violationOf(applyAuctionEvent(lot, bid('pa', 22), { rules: RULES, teams: TEAMS, now: NOW }))).toBe('off_ladder');
+
+    const raised = apply(lot, bid('pa', 20)).state;
+    expect(violationOf(applyAuctionEvent(raised, bid('pb', 20), { rules: RULES, teams: TEAMS, now: NOW }))).toBe('bid_too_low');
+    expect(apply(raised, bid('pb', 25)).state.current_bid).toBe(25);
+  });
+
+  it('refuses a second bid in a row from the leading team', () => {
+    const raised = apply(openLot(), bid('pa', 20)).state;
+
+    expect(violationOf(applyAuctionEvent(raised, bid('pa', 25), { rules: RULES, teams: TEAMS, now: NOW }))).toBe('consecutive_bid');
+  });
+
+  it('refuses bids from teams that passed, unknown teams and on another player', () => {
+    const lot = openLot();
+    const passed = apply(lot, { type: 'pass', participantId: 'pb' }).state;
+    const context = { rules: RULES, teams: TEAMS, now: NOW };
+
+    expect(violationOf(applyAuctionEvent(passed, bid('pb', 20), context))).toBe('team_passed');
+    expect(violationOf(applyAuctionEvent(lot, bid('nobody', 20), context))).toBe('unknown_team');
+    expect(violationOf(applyAuctionEvent(lot, { ...bid('pa', 20), playerId: 'p2' } as AuctionEvent, context))).toBe('player_changed');
+  });
+
+  it('refuses bids while paused or once the clock has run out', () => {
+    const lot = openLot();
+    const paused = apply(lot, { type: 'pause' }).state;
+
+    expect(violationOf(applyAuctionEvent(paused, bid('pa', 20), { rules: RULES, teams: TEAMS, now: NOW }))).toBe('auction_paused');
+    expect(violationOf(applyAuctionEvent(lot, bid('pa', 20), { rules: RULES, teams: TEAMS, now: secondsAfter(31) }))).toBe('time_expired');
+  });
+
+  it('pushes the deadline out for a bid in the closing seconds', () => {
+    const lot = openLot();
+
+    const early = apply(lot, bid('pa', 20)).state;
+    expect(early.bidding_ends_at).toBe(lot.bidding_ends_at);
+
+    const late = apply(lot, bid('pa', 20), TEAMS, RULES, secondsAfter(25)).state;
+    expect(late.bidding_ends_at).toBe(secondsAfter(25 + RULES.bidExtensionSeconds));
+  });
+
+  it('refuses bids the team cannot afford or must keep back for its open slots', () => {
+    const lot = openLot();
+    const context = (budgetRemaining: number) => ({ rules: RULES, teams: [{ ...MI, budgetRemaining }, CSK], now: NOW });
+
+    expect(violationOf(applyAuctionEvent(lot, bid('pa', 20), context(15)))).toBe('insufficient_budget');
+    // 100 left, two more slots to fill at a cheapest base price of 30
+    expect(violationOf(applyAuctionEvent(lot, bid('pa', 45), context(100)))).toBe('purse_reserve');
+    expect(applyAuctionEvent(lot, bid('pa', 40), context(100)).ok).toBe(true);
+  });
+
+  it('refuses bids from a full squad or past the overseas quota', () => {
+    const bought = (id: string, is_overseas = false) => ({
+      id, name: id, is_overseas, final_price: 20, sold_to_team: 'team-a', sold_to_participant: 'pa'
+    });
+    const overseasLot = { ...openLot([PLAYERS[1], PLAYERS[0]]), sold_players: [bought('x1', true)] };
+    const fullSquad = { ...openLot(), sold_players: [bought('x1'), bought('x2'), bought('x3')] };
+    const context = { rules: RULES, teams: TEAMS, now: NOW };
+
+    expect(violationOf(applyAuctionEvent(overseasLot, bid('pa', 50), context))).toBe('overseas_limit');
+    expect(violationOf(applyAuctionEvent(fullSquad, bid('pa', 20), context))).toBe('squad_full');
+  });
+});
+
+describe('getMaxAllowableBid', () => {
+  const state = openLot();
+
+  it('keeps back the cheapest base price still to come for every slot left after this one', () => {
+    expect(getMaxAllowableBid(state, MI, RULES)).toBe(1000 - 2 * 30);
+  });
+
+  it('counts players already bought toward the squad', () => {
+    const withOne = {
+      ...state,
+      sold_players: [{ id: 'x1', name: 'x1', final_price: 20, sold_to_team: 'team-a', sold_to_participant: 'pa' }]
+    };
+    expect(getMaxAllowableBid(withOne, MI, RULES)).toBe(1000 - 30);
+  });
+
+  it('falls back to the IPL minimum base price when no other players are left', () => {
+    const lastPlayer = openLot([PLAYERS[0]]);
+    expect(getMaxAllowableBid(lastPlayer, MI, RULES)).toBe(1000 - 2 * 20);
+  });
+
+  it('is never negative', () => {
+    expect(getMaxAllowableBid(state, { ...MI, budgetRemaining: 10 }, RULES)).toBe(0);
+  });
+});
+
+describe('pass, sell and unsold', () => {
+  it('records a pass once and refuses one from the leading team', () => {
+    const lot = openLot();
+    const once = apply(lot, { type: 'pass', participantId: 'pb' }).state;
+    const twice = apply(once, { type: 'pass', participantId: 'pb' }).state;
+    expect(twice.passed_teams).toEqual(['pb']);
+
+    const raised = apply(lot, bid('pa', 20)).state;
+    expect(violationOf(applyAuctionEvent(raised, { type: 'pass', participantId: 'pa' }, { rules: RULES, teams: TEAMS, now: NOW }))).toBe('consecutive_bid');
+  });
+
+  it('sells to the leading team and charges its purse', () => {
+    const raised = apply(apply(openLot(), bid('pa', 20)).state, bid('pb', 25)).state;
+    const { state, teams } = apply(raised, { type: 'sell' });
+
+    expect(state.sold_players).toEqual([
+      expect.objectContaining({ id: 'p1', final_price: 25, sold_to_team: 'team-b', sold_to_participant: 'pb', acquired_via: 'auction' })
+    ]);
+    expect(teams.find(t => t.participantId === 'pb')?.budgetRemaining).toBe(975);
+    expect(teams.find(t => t.participantId === 'pa')?.budgetRemaining).toBe(1000);
+  });
+
+  it('refuses to sell without a bid or to settle a player twice', () => {
+    const lot = openLot();
+    const context = { rules: RULES, teams: TEAMS, now: NOW };
+    expect(violationOf(applyAuctionEvent(lot, { type: 'sell' }, context))).toBe('no_winning_bid');
+
+    const sold = apply(apply(lot, bid('pa', 20)).state, { type: 'sell' }).state;
+    expect(violationOf(applyAuctionEvent(sold, { type: 'sell' }, context))).toBe('player_completed');
+    expect(violationOf(applyAuctionEvent(sold, { type: 'unsold' }, context))).toBe('player_completed');
+  });
+
+  it('marks a player nobody bid on unsold, but not one with a bid', () => {
+    const lot = openLot();
+    const { state, teams } = apply(lot, { type: 'unsold' });
+    expect(state.unsold_players).toEqual([expect.objectContaining({ id: 'p1', final_price: 0, sold_to_team: null })]);
+    expect(teams).toEqual(TEAMS);
+
+    const raised = apply(lot, bid('pa', 20)).state;
+    expect(violationOf(applyAuctionEvent(raised, { type: 'unsold' }, { rules: RULES, teams: TEAMS, now: NOW }))).toBe('has_winning_bid');
+  });
+
+  it('brings up the next player paused with a clean lot, and ends the round after the last', () => {
+    const sold = apply(apply(openLot(), bid('pa', 20)).state, { type: 'sell' }).state;
+    const next = apply(sold, { type: 'next' });
+    expect(next.state).toMatchObject({ current_player_id: 'p2', is_paused: true, current_bid: 0, leading_team: null, passed_teams: [] });
+    expect(next.completed).toBe(false);
+
+    const last = apply(openLot([PLAYERS[0]]), { type: 'unsold' }).state;
+    const end = apply(last, { type: 'next' });
+    expect(end.completed).toBe(true);
+    expect(end.state.is_active).toBe(false);
+  });
+
+  it('restores a lost queue from the one the event carries, and ignores it otherwise', () => {
+    const sold = apply(apply(openLot(), bid('pa', 20)).state, { type: 'sell' }).state;
+    const lost = { ...sold, player_queue: [], total_players: 0 };
+
+    const { state } = apply(lost, { type: 'next', queue: PLAYERS });
+    expect(state).toMatchObject({ player_queue: PLAYERS, total_players: 3, current_player_id: 'p2' });
+
+    const kept = apply(sold, { type: 'next', queue: [PLAYERS[2]] }).state;
+    expect(kept.player_queue).toEqual(PLAYERS);
+  });
+});
+
+describe('right to match', () => {
+  const RTM_RULES: AuctionRules = { ...RULES, rtmCardsPerTeam: 1 };
+  const context = { rules: RTM_RULES, teams: TEAMS, now: NOW };
+
+  // Keeper last played for CSK; MI wins the bidding at 40
+  const closedLot = () => apply(openLot([PLAYERS[2], PLAYERS[0]], RTM_RULES), bid('pa', 40), TEAMS, RTM_RULES).state;
+  const offered = () => apply(closedLot(), { type: 'rtm_offer' }, TEAMS, RTM_RULES).state;
+
+  it('must be offered before the sale and closes bidding while it is pending', () => {
+    expect(violationOf(applyAuctionEvent(closedLot(), { type: 'sell' }, context))).toBe('rtm_available');
+
+    const state = offered();
+    expect(state.is_paused).toBe(true);
+    expect(state.rtm).toMatchObject({ stage: 'offered', holder_participant_id: 'pb', winner_participant_id: 'pa', bid: 40 });
+    expect(violationOf(applyAuctionEvent(state, { type: 'sell' }, context))).toBe('rtm_pending');
+    expect(violationOf(applyAuctionEvent(state, { type: 'resume' }, context))).toBe('rtm_pending');
+  });
+
+  it('only lets the holder exercise the card', () => {
+    expect(violationOf(applyAuctionEvent(offered(), { type: 'rtm_exercise', participantId: 'pa', exercise: true }, context))).toBe('rtm_not_yours');
+  });
+
+  it('sells to the winning bidder when the holder declines', () => {
+    const declined = apply(offered(), { type: 'rtm_exercise', participantId: 'pb', exercise: false }, TEAMS, RTM_RULES).state;
+    expect(declined.rtm?.stage).toBe('declined');
+
+    const { state, teams } = apply(declined, { type: 'sell' }, TEAMS, RTM_RULES);
+    expect(state.sold_players[0]).toMatchObject({ sold_to_participant: 'pa', final_price: 40, acquired_via: 'auction', rtm: { outcome: 'declined' } });
+    expect(teams.find(t => t.participantId === 'pa')?.budgetRemaining).toBe(960);
+  });
+
+  it('sells to the holder at the raised price when it matches', () => {
+    const exercised = apply(offered(), { type: 'rtm_exercise', participantId: 'pb', exercise: true }, TEAMS, RTM_RULES).state;
+    expect(exercised.rtm?.stage).toBe('final_raise');
+    expect(violationOf(applyAuctionEvent(exercised, { type: 'rtm_raise', participantId: 'pa', amount: 47 }, context))).toBe('off_ladder');
+
+    const raised = apply(exercised, { type: 'rtm_raise', participantId: 'pa', amount: 50 }, TEAMS, RTM_RULES).state;
+    expect(raised.rtm).toMatchObject({ stage: 'match', final_bid: 50 });
+
+    const matched = apply(raised, { type: 'rtm_match', participantId: 'pb', match: true }, TEAMS, RTM_RULES).state;
+    expect(matched).toMatchObject({ leading_team: 'team-b', current_bid: 50, rtm: { stage: 'matched' } });
+
+    const { state, teams } = apply(matched, { type: 'sell' }, TEAMS, RTM_RULES);
+    expect(state.sold_players[0]).toMatchObject({ sold_to_participant: 'pb', final_price: 50, acquired_via: 'rtm' });
+    expect(teams.find(t => t.participantId === 'pb')?.budgetRemaining).toBe(950);
+  });
+
+  it('settles a timed-out step as a no', () => {
+    const skipped = apply(offered(), { type: 'rtm_skip' }, TEAMS, RTM_RULES).state;
+    expect(skipped.rtm?.stage).toBe('declined');
+    expect(violationOf(applyAuctionEvent(skipped, { type: 'rtm_skip' }, context))).toBe('rtm_unavailable');
+  });
+
+  it('is not offered once the holder has used its cards', () => {
+    const usedCard = {
+      ...closedLot(),
+      sold_players: [{ id: 'x1', name: 'x1', final_price: 20, sold_to_team: 'team-b', sold_to_participant: 'pb', acquired_via: 'rtm' as const }]
+    };
+    expect(violationOf(applyAuctionEvent(usedCard, { type: 'rtm_offer' }, context))).toBe('rtm_unavailable');
+    expect(applyAuctionEvent(usedCard, { type: 'sell' }, context).ok).toBe(true);
+  });
+});
+
+describe('undo', () => {
+  const context = { rules: RULES, teams: TEAMS, now: NOW };
+
+  it('has nothing to undo before the first lot is settled', () => {
+    expect(violationOf(applyAuctionEvent(openLot(), { type: 'undo' }, context))).toBe('nothing_to_undo');
+  });
+
+  it('refunds the buyer and puts the player back up, paused', () => {
+    const sold = apply(apply(openLot(), bid('pa', 20)).state, { type: 'sell' });
+    const next = apply(sold.state, { type: 'next' }, sold.teams, RULES, secondsAfter(5));
+    const { state, teams } = apply(next.state, { type: 'undo' }, next.teams, RULES, secondsAfter(6));
+
+    expect(teams.find(t => t.participantId === 'pa')?.budgetRemaining).toBe(1000);
+    expect(state.sold_players).toEqual([]);
+    expect(state).toMatchObject({
+      is_active: true,
+      is_paused: true,
+      current_player_id: 'p1',
+      current_player_index: 0,
+      current_bid: 0,
+      leading_team: null,
+      time_remaining: RULES.timerSeconds
+    });
+  });
+
+  it('takes back an unsold marking', () => {
+    const unsold = apply(openLot(), { type: 'unsold' }).state;
+    const { state, teams } = apply(unsold, { type: 'undo' });
+
+    expect(state.unsold_players).toEqual([]);
+    expect(state.current_player_id).toBe('p1');
+    expect(teams).toEqual(TEAMS);
+  });
+
+  it('reopens a finished round', () => {
+    const last = apply(openLot([PLAYERS[0]]), { type: 'unsold' }).state;
+    const ended = apply(last, { type: 'next' }, TEAMS, RULES, secondsAfter(5)).state;
+
+    expect(apply(ended, { type: 'undo' }, TEAMS, RULES, secondsAfter(6)).state).toMatchObject({ is_active: true, current_player_id: 'p1' });
+  });
+
+  it('refuses once bidding has started on the next player', () => {
+    const unsold = apply(openLot(), { type: 'unsold' }).state;
+    const next = apply(unsold, { type: 'next' }, TEAMS, RULES, secondsAfter(5)).state;
+    const resumed = apply(next, { type: 'resume' }, TEAMS, RULES, secondsAfter(6)).state;
+    const raised = apply(resumed, bid('pa', 50), TEAMS, RULES, secondsAfter(7)).state;
+
+    expect(violationOf(applyAuctionEvent(raised, { type: 'undo' }, { ...context, now: secondsAfter(8) }))).toBe('lot_in_progress');
+  });
+});
@@ -0,0 +1,1033 @@
+/**
+ * @fileoverview Pure auction rules engine for CrickRush
+ * Takes the current auction state and an event, and returns the next state or a typed rule violation.
+ * Has no Supabase or React dependencies, so the hooks and the API routes share one set of rules.
+ */
+
+import { addMoney, formatMoney, subtractMoney, Lakhs } from '@/lib/money';
+import { getMinimumBid, getRoomBidLadder, isOnLadder, IPL_BID_LADDER } from '@/lib/bidLadder';
+import { DEFAULT_ROOM_SETTINGS } from '@/types/auction';
+import type {
+  AuctionPlayer,
+  AuctionRoomSettings,
+  AuctionStateRecord,
+  BidIncrementStep,
+  CompletedPlayerRecord,
+  RtmState
+} from '@/types/auction';
+
+/**
+ * Room-level settings the rules depend on
+ */
+export interface AuctionRules {
+  /** Maximum squad size per team */
+  playersPerTeam: number;
+  /** Squad size every team must be able to reach - bids must leave purse for the open slots */
+  minSquadSize: number;
+  /** Maximum overseas players per team */
+  maxOverseasPlayers: number;
+  /** Seconds on the clock when a new player comes up */
+  timerSeconds: number;
+  /** A bid in the closing seconds pushes the deadline out to at least this many seconds away */
+  bidExtensionSeconds: number;
+  /** Raises must land on this ladder */
+  bidIncrements: BidIncrementStep[];
+  /** Seconds on the clock for each player in an accelerated round */
+  acceleratedTimerSeconds: number;
+  /** Percentage knocked off base prices in an accelerated round (0 keeps them) */
+  acceleratedBasePriceCut: number;
+  /** Right-to-match cards per team; 0 turns RTM off */
+  rtmCardsPerTeam: number;
+  /** Seconds each side gets for a right-to-match decision */
+  rtmDecisionSeconds: number;
+  /** Players each team may retain before the auction; 0 skips retention */
+  retentionsPerTeam: number;
+  /** Price of each retention in order; picks past the last slab cost the last slab */
+  retentionSlabs: Lakhs[];
+}
+
+export const DEFAULT_AUCTION_RULES: AuctionRules = {
+  playersPerTeam: 15,
+  minSquadSize: 15,
+  maxOverseasPlayers: 8,
+  timerSeconds: 30,
+  bidExtensionSeconds: 10,
+  bidIncrements: IPL_BID_LADDER,
+  acceleratedTimerSeconds: 15,
+  acceleratedBasePriceCut: 0,
+  rtmCardsPerTeam: 0,
+  rtmDecisionSeconds: 20,
+  retentionsPerTeam: 0,
+  retentionSlabs: [1800, 1400, 1100]
+};
+
+/**
+ * The `auction_rooms` columns the rules are built from
+ */
+export interface RoomRulesSource {
+  players_per_team: number;
+  timer_seconds?: number | null;
+  settings?: Partial<AuctionRoomSettings> | null;
+}
+
+/**
+ * Builds the engine rules for a room from its columns and settings
+ */
+export function getRoomRules(room: RoomRulesSource): AuctionRules {
+  return {
+    ...DEFAULT_AUCTION_RULES,
+    playersPerTeam: room.players_per_team || DEFAULT_AUCTION_RULES.playersPerTeam,
+    minSquadSize: Math.min(
+      room.settings?.minSquadSize ?? room.players_per_team ?? DEFAULT_AUCTION_RULES.minSquadSize,
+      room.players_per_team || DEFAULT_AUCTION_RULES.playersPerTeam
+    ),
+    maxOverseasPlayers: room.settings?.maxOverseasPlayers ?? DEFAULT_ROOM_SETTINGS.maxOverseasPlayers ?? DEFAULT_AUCTION_RULES.maxOverseasPlayers,
+    timerSeconds: room.timer_seconds || DEFAULT_AUCTION_RULES.timerSeconds,
+    bidIncrements: getRoomBidLadder(room.settings),
+    acceleratedTimerSeconds: room.settings?.acceleratedTimerSeconds || DEFAULT_AUCTION_RULES.acceleratedTimerSeconds,
+    acceleratedBasePriceCut: Math.min(90, Math.max(0, room.settings?.acceleratedBasePriceCut ?? DEFAULT_AUCTION_RULES.acceleratedBasePriceCut)),
+    rtmCardsPerTeam: Math.max(0, room.settings?.rtmCardsPerTeam ?? DEFAULT_AUCTION_RULES.rtmCardsPerTeam),
+    rtmDecisionSeconds: room.settings?.rtmDecisionSeconds || DEFAULT_AUCTION_RULES.rtmDecisionSeconds,
+    retentionsPerTeam: Math.max(0, room.settings?.retentionsPerTeam ?? DEFAULT_AUCTION_RULES.retentionsPerTeam),
+    retentionSlabs: room.settings?.retentionSlabs?.length ? room.settings.retentionSlabs : DEFAULT_AUCTION_RULES.retentionSlabs
+  };
+}
+
+/**
+ * The parts of a participant the rules need to know about
+ */
+export interface AuctionTeam {
+  participantId: string;
+  teamId: string;
+  /** Franchise short name (e.g. "CSK"), matched against a player's previous team for RTM */
+  teamCode?: string;
+  budgetRemaining: number;
+}
+
+/**
+ * Everything outside `auction_state` that an event is evaluated against
+ */
+export interface AuctionContext {
+  rules: AuctionRules;
+  teams: AuctionTeam[];
+  /** ISO timestamp (server time) used for deadlines, `updated_at` and completion times */
+  now: string;
+}
+
+/**
+ * A player a team keeps before the auction opens
+ */
+export interface RetainedPick {
+  participantId: string;
+  player: AuctionPlayer;
+}
+
+export type AuctionEvent =
+  /** Opens the main round; retained players (in pick order per team) are charged and kept out of the queue */
+  | { type: 'start'; queue: AuctionPlayer[]; retained?: RetainedPick[] }
+  /** Brings unsold players back for an accelerated round - the given ones in order, or all of them */
+  | { type: 'start_round'; playerIds?: string[] }
+  /** `auto` marks a bid the server placed from the team's proxy ceiling; bots bid with no `bidderId` */
+  | { type: 'bid'; participantId: string; bidderId: string | null; amount: number; playerId?: string; auto?: boolean }
+  | { type: 'pass'; participantId: string }
+  | { type: 'sell'; player?: AuctionPlayer }
+  | { type: 'unsold'; player?: AuctionPlayer }
+  /** `queue` stands in for a stored queue that has been lost, and is kept in the state from then on */
+  | { type: 'next'; queue?: AuctionPlayer[] }
+  | { type: 'pause' }
+  | { type: 'resume'; queue?: AuctionPlayer[] }
+  | { type: 'add_time'; seconds: number }
+  /** Takes back the last sale or unsold marking: refunds the buyer and puts the player back up, paused */
+  | { type: 'undo' }
+  /** Bidding has closed on a former player of another team - give that team its right to match */
+  | { type: 'rtm_offer' }
+  | { type: 'rtm_exercise'; participantId: string; exercise: boolean }
+  /** The winning bidder's one final raise; no amount keeps the winning bid */
+  | { type: 'rtm_raise'; participantId: string; amount?: number }
+  | { type: 'rtm_match'; participantId: string; match: boolean }
+  /** Settles the pending RTM step as if the side had said no (timeout or auctioneer override) */
+  | { type: 'rtm_skip' };
+
+export type RuleViolationCode =
+  | 'auction_not_active'
+  | 'auction_already_active'
+  | 'auction_paused'
+  | 'auction_not_paused'
+  | 'empty_queue'
+  | 'no_current_player'
+  | 'player_changed'
+  | 'player_completed'
+  | 'time_expired'
+  | 'unknown_team'
+  | 'bid_too_low'
+  | 'off_ladder'
+  | 'consecutive_bid'
+  | 'team_passed'
+  | 'squad_full'
+  | 'overseas_limit'
+  | 'insufficient_budget'
+  | 'purse_reserve'
+  | 'no_winning_bid'
+  | 'has_winning_bid'
+  | 'rtm_available'
+  | 'rtm_pending'
+  | 'rtm_unavailable'
+  | 'rtm_not_yours'
+  | 'rtm_expired'
+  | 'retention_limit'
+  | 'retention_taken'
+  | 'nothing_to_undo'
+  | 'lot_in_progress';
+
+export interface RuleViolation {
+  code: RuleViolationCode;
+  message: string;
+}
+
+export type AuctionTransition =
+  | {
+      ok: true;
+      state: AuctionStateRecord;
+      teams: AuctionTeam[];
+      /** True when a `next` event ran out of players and ended the current round */
+      completed: boolean;
+    }
+  | { ok: false; violation: RuleViolation };
+
+const violation = (code: RuleViolationCode, message: string): AuctionTransition => ({
+  ok: false,
+  violation: { code, message }
+});
+
+/**
+ * Finds the player currently under the hammer from the queue
+ */
+export function getCurrentPlayer(state: AuctionStateRecord): AuctionPlayer | null {
+  if (!state.current_player_id) return null;
+
+  const queue = state.player_queue || [];
+  const atIndex = queue[state.current_player_index];
+  if (atIndex?.id === state.current_player_id) return atIndex;
+
+  return queue.find(player => player.id === state.current_player_id) || null;
+}
+
+/**
+ * Number of players a participant has bought so far
+ */
+export function getSquadCount(state: AuctionStateRecord, participantId: string): number {
+  return (state.sold_players || []).filter(player => player.sold_to_participant === participantId).length;
+}
+
+/**
+ * Number of overseas players a participant has bought so far
+ */
+export function getOverseasCount(state: AuctionStateRecord, participantId: string): number {
+  return (state.sold_players || []).filter(
+    player => player.sold_to_participant === participantId && player.is_overseas
+  ).length;
+}
+
+/**
+ * Round the auction is in: 1 for the main queue, 2 and up for accelerated rounds
+ */
+export function getRoundNumber(state: AuctionStateRecord): number {
+  return state.round_number || 1;
+}
+
+/**
+ * Seconds on the clock for each player in the current round
+ */
+export function getRoundTimerSeconds(state: AuctionStateRecord, rules: AuctionRules): number {
+  return getRoundNumber(state) > 1 ? rules.acceleratedTimerSeconds : rules.timerSeconds;
+}
+
+/**
+ * True once a round has finished and unsold players could be brought back for an accelerated round
+ */
+export function canStartAcceleratedRound(state: AuctionStateRecord): boolean {
+  return !state.is_active && (state.unsold_players || []).length > 0;
+}
+
+/**
+ * True once the right-to-match offer has an outcome and the player can be sold
+ */
+export const isRtmResolved = (rtm: RtmState): boolean =>
+  rtm.stage === 'declined' || rtm.stage === 'matched' || rtm.stage === 'not_matched';
+
+/**
+ * Number of right-to-match cards a participant has used (cards are only spent on a match)
+ */
+export function getRtmCardsUsed(state: AuctionStateRecord, participantId: string): number {
+  return (state.sold_players || []).filter(
+    player => player.sold_to_participant === participantId && player.acquired_via === 'rtm'
+  ).length;
+}
+
+const isFormerTeam = (team: AuctionTeam, previousTeam: string): boolean =>
+  [team.teamCode, team.teamId].some(code => !!code && code.toLowerCase() === previousTeam.trim().toLowerCase());
+
+/**
+ * The team that can use a right to match on the current player, if any
+ * The player's former team must be in the room, not already leading, have a card left
+ * and be able to take the player at the winning bid.
+ *
+ * @param state - Current `auction_state` row (bidding closed, with a leading bid)
+ * @param teams - Every team in the room
+ * @param rules - Room rules (RTM cards, squad and purse limits)
+ * @returns The card holder, or null if no RTM applies
+ */
+export function getRtmHolder(state: AuctionStateRecord, teams: AuctionTeam[], rules: AuctionRules): AuctionTeam | null {
+  if (rules.rtmCardsPerTeam <= 0 || state.rtm) return null;
+
+  const player = getCurrentPlayer(state);
+  const previousTeam = player?.previous_team;
+  if (!player || !previousTeam || !state.leading_team || !(state.current_bid > 0)) return null;
+
+  const holder = teams.find(team => isFormerTeam(team, previousTeam));
+  if (!holder || holder.teamId === state.leading_team) return null;
+  if (getRtmCardsUsed(state, holder.participantId) >= rules.rtmCardsPerTeam) return null;
+
+  return checkCanBuy(state, holder, player, Number(state.current_bid), rules) ? null : holder;
+}
+
+/** Reserve per open slot when the pool has no base prices to go on (the IPL minimum) */
+const FALLBACK_MIN_BASE_PRICE: Lakhs = 20;
+
+/**
+ * Cheapest base price among players still to come up, used to price the slots a team must still fill
+ */
+export function getMinimumBasePrice(state: AuctionStateRecord): Lakhs {
+  const prices = (state.player_queue || [])
+    .filter(player => player.id !== state.current_player_id && !isCompleted(state, player.id))
+    .map(player => Number(player.base_price) || 0)
+    .filter(price => price > 0);
+
+  return prices.length > 0 ? Math.min(...prices) : FALLBACK_MIN_BASE_PRICE;
+}
+
+/**
+ * Most a team can bid on the current player and still afford its remaining mandatory slots
+ * Remaining purse minus the cheapest base price for every slot still open after this player
+ *
+ * @param state - Current `auction_state` row
+ * @param team - The bidding team's purse
+ * @param rules - Room rules (minimum squad size)
+ * @returns Maximum allowable bid in lakhs, never negative
+ */
+export function getMaxAllowableBid(state: AuctionStateRecord, team: AuctionTeam, rules: AuctionRules): Lakhs {
+  const openSlotsAfterThis = Math.max(0, rules.minSquadSize - getSquadCount(state, team.participantId) - 1);
+  const reserve = openSlotsAfterThis * getMinimumBasePrice(state);
+  return Math.max(0, subtractMoney(team.budgetRemaining, reserve));
+}
+
+/**
+ * Seconds left on the clock for the current player
+ * While running the clock is the `bidding_ends_at` deadline; while paused it is the frozen `time_remaining`
+ *
+ * @param state - Current `auction_state` row
+ * @param now - Current server time, as an ISO string or epoch milliseconds
+ * @returns Whole seconds remaining, never negative
+ */
+export function getSecondsRemaining(state: AuctionStateRecord, now: string | number): number {
+  if (state.is_active && !state.is_paused && state.bidding_ends_at) {
+    const nowMs = typeof now === 'number' ? now : new Date(now).getTime();
+    const msLeft = new Date(state.bidding_ends_at).getTime() - nowMs;
+    return Math.max(0, Math.ceil(msLeft / 1000));
+  }
+  return Math.max(0, state.time_remaining ?? 0);
+}
+
+const deadlineIn = (now: string, seconds: number): string =>
+  new Date(new Date(now).getTime() + seconds * 1000).toISOString();
+
+const isCompleted = (state: AuctionStateRecord, playerId: string): boolean =>
+  (state.sold_players || []).some(player => player.id === playerId) ||
+  (state.unsold_players || []).some(player => player.id === playerId);
+
+/**
+ * Checks a team has room for the player and can pay `amount` while keeping its squad reserve
+ */
+function checkCanBuy(
+  state: AuctionStateRecord,
+  team: AuctionTeam,
+  player: AuctionPlayer | null,
+  amount: number,
+  rules: AuctionRules
+): RuleViolation | null {
+  if (getSquadCount(state, team.participantId) >= rules.playersPerTeam) {
+    return { code: 'squad_full', message: `Your squad is full! You have reached the maximum of ${rules.playersPerTeam} players.` };
+  }
+
+  if (player?.is_overseas && getOverseasCount(state, team.participantId) >= rules.maxOverseasPlayers) {
+    return {
+      code: 'overseas_limit',
+      message: `Your overseas quota is full! You already have the maximum of ${rules.maxOverseasPlayers} overseas players.`
+    };
+  }
+
+  if (amount > team.budgetRemaining) {
+    const shortfall = subtractMoney(amount, team.budgetRemaining);
+    return {
+      code: 'insufficient_budget',
+      message: `Insufficient budget! You need ${formatMoney(shortfall)} more. Your remaining budget: ${formatMoney(team.budgetRemaining)}`
+    };
+  }
+
+  const maxBid = getMaxAllowableBid(state, team, rules);
+  if (amount > maxBid) {
+    return {
+      code: 'purse_reserve',
+      message: `Your max bid is ${formatMoney(maxBid)} - you need to keep ${formatMoney(subtractMoney(team.budgetRemaining, maxBid))} to fill your minimum squad of ${rules.minSquadSize}.`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The most recent sale or unsold marking, which `undo` would take back
+ * Retentions are never undone, and neither are lots from an earlier round's queue
+ */
+export function getLastCompletedLot(state: AuctionStateRecord): { record: CompletedPlayerRecord; sold: boolean } | null {
+  const lots = [
+    ...(state.sold_players || [])
+      .filter(record => record.acquired_via !== 'retained')
+      .map(record => ({ record, sold: true, at: record.purchased_at })),
+    ...(state.unsold_players || []).map(record => ({ record, sold: false, at: record.completed_at }))
+  ].filter(lot => (state.player_queue || []).some(player => player.id === lot.record.id));
+
+  if (lots.length === 0) return null;
+
+  const last = lots.reduce((latest, lot) => (Date.parse(lot.at || '') >= Date.parse(latest.at || '') ? lot : latest));
+  return { record: last.record, sold: last.sold };
+}
+
+/**
+ * Price of a team's nth retention (0-based), down the room's slabs
+ */
+export function getRetentionPrice(index: number, rules: AuctionRules): Lakhs {
+  const slabs = rules.retentionSlabs.length > 0 ? rules.retentionSlabs : DEFAULT_AUCTION_RULES.retentionSlabs;
+  return slabs[Math.min(index, slabs.length - 1)];
+}
+
+/**
+ * Whether a team may retain a player: a former player of theirs, or one the auctioneer listed for them
+ *
+ * @param retentionLists - Player IDs the auctioneer assigned, by team short name
+ */
+export function isRetentionCandidate(
+  team: AuctionTeam,
+  player: Pick<AuctionPlayer, 'id' | 'previous_team'>,
+  retentionLists?: Record<string, string[]>
+): boolean {
+  if (player.previous_team && isFormerTeam(team, player.previous_team)) return true;
+  return Object.entries(retentionLists || {}).some(
+    ([code, playerIds]) => isFormerTeam(team, code) && playerIds.includes(player.id)
+  );
+}
+
+/**
+ * Checks there is a right-to-match offer on the current player waiting at the given step
+ */
+function checkRtmStep(
+  state: AuctionStateRecord,
+  stage: RtmState['stage'],
+  participantId: string | null,
+  now: string
+): RuleViolation | null {
+  const rtm = state.rtm;
+  if (!rtm || rtm.player_id !== state.current_player_id || rtm.stage !== stage) {
+    return { code: 'rtm_unavailable', message: 'There is no right-to-match decision waiting on you' };
+  }
+
+  const actor = stage === 'final_raise' ? rtm.winner_participant_id : rtm.holder_participant_id;
+  if (participantId !== null && participantId !== actor) {
+    return { code: 'rtm_not_yours', message: 'This right-to-match decision belongs to another team' };
+  }
+  if (participantId !== null && rtm.expires_at && Date.parse(now) > Date.parse(rtm.expires_at)) {
+    return { code: 'rtm_expired', message: 'Time ran out for this right-to-match decision' };
+  }
+  return null;
+}
+
+/**
+ * Checks the lot is open for bidding or passing
+ */
+function checkLotOpen(state: AuctionStateRecord, now: string): RuleViolation | null {
+  if (!state.is_active) {
+    return { code: 'auction_not_active', message: 'Cannot place bid when auction is paused or inactive' };
+  }
+  if (state.is_paused) {
+    return { code: 'auction_paused', message: 'Cannot place bid when auction is paused or inactive' };
+  }
+  if (!state.current_player_id) {
+    return { code: 'no_current_player', message: 'No player is currently up for auction' };
+  }
+  if (isCompleted(state, state.current_player_id)) {
+    return { code: 'player_completed', message: 'Bidding for this player has closed' };
+  }
+  if (getSecondsRemaining(state, now) <= 0) {
+    return { code: 'time_expired', message: 'Timer has run out for this player' };
+  }
+  return null;
+}
+
+/**
+ * Applies one auction event to the current state
+ *
+ * @param state - Current `auction_state` row
+ * @param event - What happened (start, start_round, bid, pass, sell, unsold, next, pause, resume, add_time, undo, rtm_*)
+ * @param context - Room rules, team purses and the current time
+ * @returns The next state and team purses, or the rule the event broke
+ *
+ * @example
+ * ```typescript
+ * const result = applyAuctionEvent(state, { type: 'pause' }, context);
+ * if (!result.ok) alert(result.violation.message);
+ * ```
+ */
+export function applyAuctionEvent(
+  state: AuctionStateRecord,
+  event: AuctionEvent,
+  context: AuctionContext
+): AuctionTransition {
+  const { rules, teams, now } = context;
+  const done = (next: Partial<AuctionStateRecord>, nextTeams: AuctionTeam[] = teams, completed = false): AuctionTransition => ({
+    ok: true,
+    state: { ...state, ...next, updated_at: now },
+    teams: nextTeams,
+    completed
+  });
+
+  if ((event.type === 'next' || event.type === 'resume') && event.queue?.length && (state.player_queue || []).length === 0) {
+    return applyAuctionEvent({ ...state, player_queue: event.queue, total_players: event.queue.length }, { type: event.type }, context);
+  }
+
+  switch (event.type) {
+    case 'start': {
+      if (state.is_active) {
+        return violation('auction_already_active', 'The auction has already started');
+      }
+      if ((state.sold_players || []).length > 0 || (state.unsold_players || []).length > 0) {
+        return violation('auction_already_active', 'The main round has already been run - start an accelerated round instead');
+      }
+      if (!event.queue || event.queue.length === 0) {
+        return violation('empty_queue', 'No players available for auction');
+      }
+
+      // Charge each retention down the team's slabs; retained players count toward squad and overseas limits
+      const retainedRecords: CompletedPlayerRecord[] = [];
+      const retainedTeams = teams.map(team => ({ ...team }));
+      for (const pick of event.retained || []) {
+        const team = retainedTeams.find(t => t.participantId === pick.participantId);
+        if (!team) {
+          return violation('unknown_team', 'Retaining participant not found');
+        }
+        if (retainedRecords.some(record => record.id === pick.player.id)) {
+          return violation('retention_taken', `${pick.player.name} has already been retained`);
+        }
+
+        const picksSoFar = getSquadCount({ ...state, sold_players: retainedRecords }, team.participantId);
+        if (picksSoFar >= rules.retentionsPerTeam) {
+          return violation('retention_limit', `${team.teamCode || 'A team'} can retain at most ${rules.retentionsPerTeam} players`);
+        }
+
+        const price = getRetentionPrice(picksSoFar, rules);
+        const problem = checkCanBuy(
+          { ...state, sold_players: retainedRecords, player_queue: event.queue, current_player_id: null },
+          team,
+          pick.player,
+          price,
+          rules
+        );
+        if (problem) {
+          return violation(problem.code, `${team.teamCode || 'A team'} cannot retain ${pick.player.name}: ${problem.message}`);
+        }
+
+        team.budgetRemaining = subtractMoney(team.budgetRemaining, price);
+        retainedRecords.push({
+          id: pick.player.id,
+          name: pick.player.name,
+          role: pick.player.type || pick.player.role || 'ALL',
+          is_overseas: !!pick.player.is_overseas,
+          base_price: pick.player.base_price,
+          final_price: price,
+          sold_to_team: team.teamId,
+          sold_to_participant: team.participantId,
+          acquired_via: 'retained',
+          purchased_at: now
+        });
+      }
+
+      const queue = event.queue.filter(player => !retainedRecords.some(record => record.id === player.id));
+      if (queue.length === 0) {
+        return violation('empty_queue', 'No players available for auction');
+      }
+
+      const firstPlayer = queue[0];
+      return done({
+        is_active: true,
+        is_paused: false,
+        current_player_id: firstPlayer.id,
+        current_player_index: 0,
+        current_bid: 0,
+        base_price: firstPlayer.base_price,
+        leading_team: null,
+        current_bidder_id: null,
+        time_remaining: rules.timerSeconds,
+        bidding_ends_at: deadlineIn(now, rules.timerSeconds),
+        total_players: queue.length,
+        player_queue: queue,
+        sold_players: retainedRecords,
+        unsold_players: [],
+        passed_teams: [],
+        round_number: 1,
+        rtm: null
+      }, retainedTeams);
+    }
+
+    case 'start_round': {
+      if (state.is_active) {
+        return violation('auction_already_active', 'Finish the current round before starting another');
+      }
+
+      const unsold = state.unsold_players || [];
+      const chosenIds = event.playerIds
+        ? Array.from(new Set(event.playerIds)).filter(id => unsold.some(record => record.id === id))
+        : unsold.map(record => record.id);
+      if (chosenIds.length === 0) {
+        return violation('empty_queue', 'No unsold players to bring back');
+      }
+
+      // Rebuild each player from the previous queue where possible, and reprice from the original base price
+      const cut = rules.acceleratedBasePriceCut;
+      const queue: AuctionPlayer[] = chosenIds.map(id => {
+        const record = unsold.find(r => r.id === id) as CompletedPlayerRecord;
+        const previous = (state.player_queue || []).find(player => player.id === id);
+        const originalPrice = Number(record.base_price ?? previous?.original_base_price ?? previous?.base_price) || FALLBACK_MIN_BASE_PRICE;
+        return {
+          ...(previous || { id, name: record.name, role: record.role, type: record.role, is_overseas: record.is_overseas }),
+          base_price: cut > 0 ? Math.max(1, Math.round(originalPrice * (100 - cut) / 100)) : originalPrice,
+          original_base_price: originalPrice
+        };
+      });
+
+      const firstPlayer = queue[0];
+      const timerSeconds = rules.acceleratedTimerSeconds;
+      return done({
+        is_active: true,
+        is_paused: false,
+        current_player_id: firstPlayer.id,
+        current_player_index: 0,
+        current_bid: 0,
+        base_price: firstPlayer.base_price,
+        leading_team: null,
+        current_bidder_id: null,
+        time_remaining: timerSeconds,
+        bidding_ends_at: deadlineIn(now, timerSeconds),
+        next_player_at: null,
+        total_players: queue.length,
+        player_queue: queue,
+        // The players coming back are open lots again
+        unsold_players: unsold.filter(record => !chosenIds.includes(record.id)),
+        passed_teams: [],
+        round_number: getRoundNumber(state) + 1,
+        rtm: null
+      });
+    }
+
+    case 'bid': {
+      const closed = checkLotOpen(state, now);
+      if (closed) return { ok: false, violation: closed };
+
+      if (event.playerId && event.playerId !== state.current_player_id) {
+        return violation('player_changed', 'Bidding has moved on to another player');
+      }
+
+      const team = teams.find(t => t.participantId === event.participantId);
+      if (!team) {
+        return violation('unknown_team', 'You are not a participant in this auction');
+      }
+
+      const currentBid = Number(state.current_bid) || 0;
+      const basePrice = Number(state.base_price) || 0;
+      const minimumBid = getMinimumBid(currentBid, basePrice, rules.bidIncrements);
+      if (event.amount <= currentBid) {
+        return violation('bid_too_low', 'Bid must be higher than current bid');
+      }
+      if (currentBid === 0 && event.amount < basePrice) {
+        return violation('bid_too_low', 'Opening bid must be at least the base price');
+      }
+      if (event.amount < minimumBid) {
+        return violation('bid_too_low', `The next bid must be at least ${formatMoney(minimumBid)}`);
+      }
+      if (!isOnLadder(event.amount, basePrice, rules.bidIncrements)) {
+        return violation('off_ladder', `${formatMoney(event.amount)} is not on this room's bid ladder`);
+      }
+
+      if (state.leading_team && state.leading_team === team.teamId) {
+        return violation('consecutive_bid', 'Another team must place a bid before you can bid again');
+      }
+
+      if ((state.passed_teams || []).includes(team.participantId)) {
+        return violation('team_passed', 'You have passed on this player');
+      }
+
+      const cannotBuy = checkCanBuy(state, team, getCurrentPlayer(state), event.amount, rules);
+      if (cannotBuy) return { ok: false, violation: cannotBuy };
+
+      // Anti-snipe: a late bid moves the deadline out, an early one leaves it alone
+      const secondsLeft = getSecondsRemaining(state, now);
+      const extend = secondsLeft < rules.bidExtensionSeconds;
+
+      return done({
+        current_bid: event.amount,
+        leading_team: team.teamId,
+        current_bidder_id: event.bidderId,
+        time_remaining: Math.max(secondsLeft, rules.bidExtensionSeconds),
+        bidding_ends_at: extend ? deadlineIn(now, rules.bidExtensionSeconds) : state.bidding_ends_at
+      });
+    }
+
+    case 'pass': {
+      const closed = checkLotOpen(state, now);
+      if (closed) return { ok: false, violation: closed };
+
+      const team = teams.find(t => t.participantId === event.participantId);
+      if (!team) {
+        return violation('unknown_team', 'You are not a participant in this auction');
+      }
+      if (state.leading_team === team.teamId) {
+        return violation('consecutive_bid', 'The leading team cannot pass');
+      }
+
+      const passed = state.passed_teams || [];
+      return done({
+        passed_teams: passed.includes(team.participantId) ? passed : [...passed, team.participantId]
+      });
+    }
+
+    case 'sell':
+    case 'unsold': {
+      const player = getCurrentPlayer(state) || event.player || null;
+      if (!state.current_player_id || !player) {
+        return violation('no_current_player', 'No player is currently up for auction');
+      }
+      if (isCompleted(state, player.id)) {
+        return violation('player_completed', `${player.name} has already been sold or marked unsold`);
+      }
+
+      const role = player.type || player.role || 'ALL';
+
+      if (event.type === 'unsold') {
+        if (state.leading_team && state.current_bid > 0) {
+          return violation('has_winning_bid', 'This player has a valid bid - sell to the highest bidder instead');
+        }
+
+        const unsoldRecord: CompletedPlayerRecord = {
+          id: player.id,
+          name: player.name,
+          role,
+          is_overseas: !!player.is_overseas,
+          base_price: player.original_base_price ?? player.base_price,
+          final_price: 0,
+          sold_to_team: null,
+          sold_to_participant: null,
+          round_number: getRoundNumber(state),
+          completed_at: now
+        };
+        return done({ unsold_players: [...(state.unsold_players || []), unsoldRecord] });
+      }
+
+      if (!state.leading_team || state.current_bid <= 0) {
+        return violation('no_winning_bid', 'No valid bidder found');
+      }
+
+      const rtm = state.rtm && state.rtm.player_id === player.id ? state.rtm : null;
+      if (rtm && !isRtmResolved(rtm)) {
+        return violation('rtm_pending', 'Waiting for the right-to-match decision');
+      }
+      const rtmHolder = getRtmHolder(state, teams, rules);
+      if (rtmHolder) {
+        return violation('rtm_available', `${rtmHolder.teamCode || 'The former team'} holds a right to match on ${player.name} - offer it before selling`);
+      }
+
+      const winner = teams.find(t => t.teamId === state.leading_team);
+      if (!winner) {
+        return violation('unknown_team', 'Leading participant not found');
+      }
+
+      const soldRecord: CompletedPlayerRecord = {
+        id: player.id,
+        name: player.name,
+        role,
+        is_overseas: !!player.is_overseas,
+        base_price: player.original_base_price ?? player.base_price,
+        final_price: Number(state.current_bid) || 0,
+        sold_to_team: state.leading_team,
+        sold_to_participant: winner.participantId,
+        round_number: getRoundNumber(state),
+        acquired_via: rtm?.stage === 'matched' ? 'rtm' : 'auction',
+        ...(rtm && { rtm: { holder_team: rtm.holder_team_id, outcome: rtm.stage as 'declined' | 'matched' | 'not_matched' } }),
+        purchased_at: now
+      };
+
+      const nextTeams = teams.map(t =>
+        t.participantId === winner.participantId
+          ? { ...t, budgetRemaining: subtractMoney(t.budgetRemaining, soldRecord.final_price) }
+          : t
+      );
+
+      return done({ sold_players: [...(state.sold_players || []), soldRecord] }, nextTeams);
+    }
+
+    case 'next': {
+      if (!state.is_active) {
+        return violation('auction_not_active', 'The auction is not running');
+      }
+
+      const queue = state.player_queue || [];
+      const nextIndex = state.current_player_index + 1;
+
+      // Out of players - this round is over
+      if (nextIndex >= queue.length) {
+        return done({ is_active: false, is_paused: true, bidding_ends_at: null, next_player_at: null, rtm: null }, teams, true);
+      }
+
+      const nextPlayer = queue[nextIndex];
+      return done({
+        is_paused: true,
+        current_player_id: nextPlayer.id,
+        current_player_index: nextIndex,
+        current_bid: 0,
+        base_price: nextPlayer.base_price,
+        leading_team: null,
+        current_bidder_id: null,
+        time_remaining: getRoundTimerSeconds(state, rules),
+        bidding_ends_at: null,
+        next_player_at: null,
+        passed_teams: [],
+        rtm: null
+      });
+    }
+
+    case 'pause': {
+      if (!state.is_active) {
+        return violation('auction_not_active', 'The auction is not running');
+      }
+      if (state.is_paused) {
+        return violation('auction_paused', 'The auction is already paused');
+      }
+      // Freeze the clock: remember what was left and drop the deadline
+      return done({ is_paused: true, time_remaining: getSecondsRemaining(state, now), bidding_ends_at: null });
+    }
+
+    case 'resume': {
+      if (!state.is_active) {
+        return violation('auction_not_active', 'The auction is not running');
+      }
+      if (!state.is_paused) {
+        return violation('auction_not_paused', 'The auction is not paused');
+      }
+      if (state.rtm) {
+        return violation('rtm_pending', 'Bidding has closed for the right to match - sell the player once it is settled');
+      }
+      return done({ is_paused: false, bidding_ends_at: deadlineIn(now, state.time_remaining) });
+    }
+
+    case 'add_time': {
+      if (!state.is_active) {
+        return violation('auction_not_active', 'The auction is not running');
+      }
+
+      if (state.rtm) {
+        return violation('rtm_pending', 'Bidding has closed for the right to match');
+      }
+
+      const newTime = Math.max(0, getSecondsRemaining(state, now) + event.seconds);
+      if (state.is_paused) {
+        return done({ time_remaining: newTime });
+      }
+      return done({ time_remaining: newTime, bidding_ends_at: deadlineIn(now, newTime) });
+    }
+
+    case 'undo': {
+      const lot = getLastCompletedLot(state);
+      if (!lot) {
+        return violation('nothing_to_undo', 'There is no sale or unsold player in this round to undo');
+      }
+
+      const { record, sold } = lot;
+      if (
+        state.current_player_id !== record.id &&
+        state.current_bid > 0 &&
+        state.current_player_id &&
+        !isCompleted(state, state.current_player_id)
+      ) {
+        return violation('lot_in_progress', `Bidding has already started on the next player - settle that lot before undoing ${record.name}`);
+      }
+
+      const queue = state.player_queue || [];
+      const index = queue.findIndex(player => player.id === record.id);
+      const buyer = sold ? teams.find(t => t.participantId === record.sold_to_participant) : null;
+      const nextTeams = buyer
+        ? teams.map(t => (t === buyer ? { ...t, budgetRemaining: addMoney(t.budgetRemaining, record.final_price) } : t))
+        : teams;
+
+      return done({
+        is_active: true,
+        is_paused: true,
+        current_player_id: record.id,
+        current_player_index: index,
+        current_bid: 0,
+        base_price: queue[index].base_price,
+        leading_team: null,
+        current_bidder_id: null,
+        time_remaining: getRoundTimerSeconds(state, rules),
+        bidding_ends_at: null,
+        next_player_at: null,
+        passed_teams: [],
+        rtm: null,
+        sold_players: sold ? (state.sold_players || []).filter(p => p !== record) : state.sold_players,
+        unsold_players: sold ? state.unsold_players : (state.unsold_players || []).filter(p => p !== record)
+      }, nextTeams);
+    }
+
+    case 'rtm_offer': {
+      if (!state.is_active) {
+        return violation('auction_not_active', 'The auction is not running');
+      }
+      if (state.rtm) {
+        return violation('rtm_pending', 'The right to match has already been offered on this player');
+      }
+
+      const holder = getRtmHolder(state, teams, rules);
+      const winner = teams.find(t => t.teamId === state.leading_team);
+      if (!holder || !winner || !state.current_player_id) {
+        return violation('rtm_unavailable', 'No team holds a right to match on this player');
+      }
+
+      // Bidding closes while the two teams decide
+      const bid = Number(state.current_bid) || 0;
+      return done({
+        is_paused: true,
+        time_remaining: 0,
+        bidding_ends_at: null,
+        rtm: {
+          stage: 'offered',
+          player_id: state.current_player_id,
+          holder_participant_id: holder.participantId,
+          holder_team_id: holder.teamId,
+          winner_participant_id: winner.participantId,
+          winner_team_id: winner.teamId,
+          bid,
+          final_bid: bid,
+          expires_at: deadlineIn(now, rules.rtmDecisionSeconds)
+        }
+      });
+    }
+
+    case 'rtm_exercise': {
+      const notReady = checkRtmStep(state, 'offered', event.participantId, now);
+      if (notReady) return { ok: false, violation: notReady };
+
+      const rtm = state.rtm as RtmState;
+      return done({
+        rtm: event.exercise
+          ? { ...rtm, stage: 'final_raise', expires_at: deadlineIn(now, rules.rtmDecisionSeconds) }
+          : { ...rtm, stage: 'declined', expires_at: null }
+      });
+    }
+
+    case 'rtm_raise': {
+      const notReady = checkRtmStep(state, 'final_raise', event.participantId, now);
+      if (notReady) return { ok: false, violation: notReady };
+
+      const rtm = state.rtm as RtmState;
+      const finalBid = event.amount ?? rtm.bid;
+
+      if (event.amount !== undefined) {
+        const basePrice = Number(state.base_price) || 0;
+        const minimumRaise = getMinimumBid(rtm.bid, basePrice, rules.bidIncrements);
+        if (event.amount < minimumRaise) {
+          return violation('bid_too_low', `The final raise must be at least ${formatMoney(minimumRaise)}`);
+        }
+        if (!isOnLadder(event.amount, basePrice, rules.bidIncrements)) {
+          return violation('off_ladder', `${formatMoney(event.amount)} is not on this room's bid ladder`);
+        }
+
+        const winner = teams.find(t => t.participantId === rtm.winner_participant_id);
+        if (!winner) {
+          return violation('unknown_team', 'Winning participant not found');
+        }
+        const cannotBuy = checkCanBuy(state, winner, getCurrentPlayer(state), event.amount, rules);
+        if (cannotBuy) return { ok: false, violation: cannotBuy };
+      }
+
+      return done({
+        current_bid: finalBid,
+        rtm: { ...rtm, stage: 'match', final_bid: finalBid, expires_at: deadlineIn(now, rules.rtmDecisionSeconds) }
+      });
+    }
+
+    case 'rtm_match': {
+      const notReady = checkRtmStep(state, 'match', event.participantId, now);
+      if (notReady) return { ok: false, violation: notReady };
+
+      const rtm = state.rtm as RtmState;
+      if (!event.match) {
+        return done({ rtm: { ...rtm, stage: 'not_matched', expires_at: null } });
+      }
+
+      const holder = teams.find(t => t.participantId === rtm.holder_participant_id);
+      if (!holder) {
+        return violation('unknown_team', 'Right-to-match holder not found');
+      }
+      const cannotBuy = checkCanBuy(state, holder, getCurrentPlayer(state), rtm.final_bid, rules);
+      if (cannotBuy) return { ok: false, violation: cannotBuy };
+
+      // The holder takes the player at the final price
+      return done({
+        current_bid: rtm.final_bid,
+        leading_team: rtm.holder_team_id,
+        current_bidder_id: null,
+        rtm: { ...rtm, stage: 'matched', expires_at: null }
+      });
+    }
+
+    case 'rtm_skip': {
+      const rtm = state.rtm;
+      if (!rtm || isRtmResolved(rtm)) {
+        return violation('rtm_unavailable', 'No right-to-match decision is pending');
+      }
+
+      if (rtm.stage === 'offered') {
+        return done({ rtm: { ...rtm, stage: 'declined', expires_at: null } });
+      }
+      if (rtm.stage === 'final_raise') {
+        return done({ rtm: { ...rtm, stage: 'match', expires_at: deadlineIn(now, rules.rtmDecisionSeconds) } });
+      }
+      return done({ rtm: { ...rtm, stage: 'not_matched', expires_at: null } });
+    }
+  }
+}
+
+/**
+ * Lists the columns that differ between two states, for writing back only what an event changed
+ *
+ * @param previous - State before the event
+ * @param next - State returned by {@link applyAuctionEvent}
+ * @returns Changed columns and their new values
+ */
+export function getStateChanges(previous: AuctionStateRecord, next: AuctionStateRecord): Partial<AuctionStateRecord> {
+  const changes: Partial<AuctionStateRecord> = {};
+
+  (Object.keys(next) as (keyof AuctionStateRecord)[]).forEach(key => {
+    if (next[key] !== previous[key]) {
+      (changes as Record<string, unknown>)[key] = next[key];
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { AuctionEvent, AuctionRules, AuctionTeam, DEFAULT_AUCTION_RULES } from '@/lib/auctionEngine';
+import { getLogType, replayAuctionLog, toAuctionEventRow, AuctionLogEntry } from '@/lib/auctionLog';
+import type { AuctionPlayer } from '@/types/auction';
+
+const NOW = '2026-10-19T10:00:00.000Z';
+const secondsAfter = (seconds: number) => new Date(Date.parse(NOW) + seconds * 1000).toISOString();
+
+const RULES: AuctionRules = { ...DEFAULT_AUCTION_RULES, playersPerTeam: 3, minSquadSize: 3, maxOverseasPlayers: 1 };
+
+const PLAYERS: AuctionPlayer[] = [
+  { id: 'p1', name: 'Opener', base_price: 20, role: 'BAT' },
+  { id: 'p2', name: 'Quick', base_price: 50, role: 'BOWL' }
+];
+
+const TEAMS: AuctionTeam[] = [
+  { participantId: 'pa', teamId: 'team-a', budgetRemaining: 1000 },
+  { participantId: 'pb', teamId: 'team-b', budgetRemaining: 1000 }
+];
+
+/**
+ * Log entries for the events, one second apart in the order given
+ */
+const logOf = (events: AuctionEvent[]): AuctionLogEntry[] =>
+  events.map((event, index) => ({
+    seq: index + 1,
+    room_id: 'room-1',
+    type: getLogType(event),
+    event,
+    player_id: null,
+    actor_id: null,
+    occurred_at: secondsAfter(index)
+  }));
+
+const bid = (participantId: string, amount: number): AuctionEvent => ({ type: 'bid', participantId, bidderId: `user-${participantId}`, amount });
+
+describe('replayAuctionLog', () => {
+  it('rebuilds the state and purses from the log, in sequence order', () => {
+    const log = logOf([{ type: 'start', queue: PLAYERS }, bid('pa', 20), bid('pb', 25), { type: 'sell' }]);
+    const { state, teams, applied, rejected } = replayAuctionLog('room-1', [...log].reverse(), RULES, TEAMS);
+
+    expect([applied, rejected]).toEqual([4, []]);
+    expect(state.room_id).toBe('room-1');
+    expect(state.sold_players).toEqual([expect.objectContaining({ id: 'p1', final_price: 25, sold_to_participant: 'pb' })]);
+    expect(teams.find(team => team.participantId === 'pb')?.budgetRemaining).toBe(975);
+  });
+
+  it('runs each event at the time it was first applied', () => {
+    const [start, late] = logOf([{ type: 'start', queue: PLAYERS }, bid('pa', 20)]);
+    const { rejected } = replayAuctionLog('room-1', [start, { ...late, occurred_at: secondsAfter(RULES.timerSeconds + 1) }], RULES, TEAMS);
+
+    expect(rejected).toEqual([expect.objectContaining({ seq: 2, type: 'bid', code: 'time_expired' })]);
+  });
+
+  it('skips and reports events the rules refuse, and carries on', () => {
+    const log = logOf([{ type: 'start', queue: PLAYERS }, bid('pa', 20), bid('pa', 25), bid('pb', 25)]);
+    const { state, applied, rejected } = replayAuctionLog('room-1', log, RULES, TEAMS);
+
+    expect(applied).toBe(3);
+    expect(rejected).toEqual([expect.objectContaining({ seq: 3, type: 'bid', code: 'consecutive_bid' })]);
+    expect(state.current_bid).toBe(25);
+    expect(state.leading_team).toBe('team-b');
+  });
+});
+
+describe('toAuctionEventRow', () => {
+  it('labels the row with the log type of its event', () => {
+    const event: AuctionEvent = { type: 'pass', participantId: 'pb' };
+
+    expect(toAuctionEventRow({ roomId: 'room-1', event, playerId: 'p1', actorId: 'user-pb', occurredAt: NOW })).toEqual({
+      room_id: 'room-1',
+      type: 'pass',
+      event,
+      player_id: 'p1',
+      actor_id: 'user-pb',
+      occurred_at: NOW
+    });
+  });
+});
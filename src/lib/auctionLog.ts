@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Append-only auction event log for CrickRush
+ * Every engine event that changes `auction_state` is also written to `auction_events`, with the
+ * server time it was applied at. Replaying the log through the rules engine rebuilds the state,
+ * so a disputed sale can be traced step by step and a damaged state row can be recovered.
+ */
+
+import { applyAuctionEvent, AuctionEvent, AuctionRules, AuctionTeam, RuleViolationCode } from '@/lib/auctionEngine';
+import type { AuctionStateRecord } from '@/types/auction';
+
+/**
+ * What a log entry records, as shown to people reading the log
+ */
+export type AuctionLogType =
+  | 'auction_started'
+  | 'round_started'
+  | 'player_up'
+  | 'bid'
+  | 'pass'
+  | 'sale'
+  | 'unsold'
+  | 'pause'
+  | 'resume'
+  | 'time_added'
+  | 'undo'
+  | 'rtm';
+
+/**
+ * One row of `auction_events`
+ */
+export interface AuctionLogEntry {
+  /** Position in the room's log; replay goes in this order */
+  seq: number;
+  room_id: string;
+  type: AuctionLogType;
+  /** The engine event exactly as it was applied */
+  event: AuctionEvent;
+  /** Player under the hammer once the event was applied */
+  player_id: string | null;
+  /** User who caused the event; null for automatic steps (auto-advance, timeouts) */
+  actor_id: string | null;
+  /** Server time the event was applied at - replay uses it as the engine's clock */
+  occurred_at: string;
+  created_at?: string;
+}
+
+const LOG_TYPES: Record<AuctionEvent['type'], AuctionLogType> = {
+  start: 'auction_started',
+  start_round: 'round_started',
+  bid: 'bid',
+  pass: 'pass',
+  sell: 'sale',
+  unsold: 'unsold',
+  next: 'player_up',
+  pause: 'pause',
+  resume: 'resume',
+  add_time: 'time_added',
+  undo: 'undo',
+  rtm_offer: 'rtm',
+  rtm_exercise: 'rtm',
+  rtm_raise: 'rtm',
+  rtm_match: 'rtm',
+  rtm_skip: 'rtm'
+};
+
+/**
+ * Log type for an engine event
+ */
+export const getLogType = (event: AuctionEvent): AuctionLogType => LOG_TYPES[event.type];
+
+/**
+ * One applied event, as handed to the log
+ */
+export interface AuctionEventInput {
+  roomId: string;
+  event: AuctionEvent;
+  playerId: string | null;
+  actorId: string | null;
+  occurredAt: string;
+}
+
+/**
+ * The `auction_events` row for an applied event, without the `seq` the database assigns
+ * Rows are written by the `apply_auction_transition` function, in the same transaction as the step they record
+ */
+export const toAuctionEventRow = ({ roomId, event, playerId, actorId, occurredAt }: AuctionEventInput) => ({
+  room_id: roomId,
+  type: getLogType(event),
+  event,
+  player_id: playerId,
+  actor_id: actorId,
+  occurred_at: occurredAt
+});
+
+/**
+ * The state row of a room before anything has happened in it
+ */
+export function createEmptyAuctionState(roomId: string): AuctionStateRecord {
+  return {
+    room_id: roomId,
+    is_active: false,
+    is_paused: false,
+    current_player_id: null,
+    current_bid: 0,
+    base_price: 0,
+    current_bidder_id: null,
+    leading_team: null,
+    time_remaining: 0,
+    bidding_ends_at: null,
+    current_player_index: 0,
+    total_players: 0,
+    player_queue: [],
+    sold_players: [],
+    unsold_players: [],
+    passed_teams: [],
+    next_player_at: null,
+    round_number: 1,
+    rtm: null
+  };
+}
+
+/**
+ * Result of replaying a room's log
+ */
+export interface AuctionReplay {
+  state: AuctionStateRecord;
+  /** Team purses after the last event */
+  teams: AuctionTeam[];
+  /** Events that went through */
+  applied: number;
+  /** Events the rules refused on replay - a sign the log and the stored state disagree */
+  rejected: { seq: number; type: AuctionLogType; code: RuleViolationCode; message: string }[];
+}
+
+/**
+ * Rebuilds a room's auction state by running its log through the rules engine in order
+ * Each event is evaluated at the time it was originally applied, starting from an empty
+ * state and each team's starting purse. Refused events are skipped and reported.
+ *
+ * @param roomId - The room the log belongs to
+ * @param entries - The room's log, in any order
+ * @param rules - The room's rules
+ * @param teams - Every team with its starting purse
+ * @returns The rebuilt state and purses, and any events that no longer apply
+ *
+ * @example
+ * ```typescript
+ * const { state, rejected } = replayAuctionLog(roomId, entries, getRoomRules(room), startingTeams);
+ * ```
+ */
+export function replayAuctionLog(
+  roomId: string,
+  entries: AuctionLogEntry[],
+  rules: AuctionRules,
+  teams: AuctionTeam[]
+): AuctionReplay {
+  const replay: AuctionReplay = { state: createEmptyAuctionState(roomId), teams, applied: 0, rejected: [] };
+
+  [...entries]
+    .sort((a, b) => a.seq - b.seq)
+    .forEach(entry => {
+      const transition = applyAuctionEvent(replay.state, entry.event, { rules, teams: replay.teams, now: entry.occurred_at });
+
+      if (!transition.ok) {
+        replay.rejected.push({ seq: entry.seq, type: entry.type, ...transition.violation });
+        return;
+      }
+
+      replay.state = transition.state;
+      replay.teams = transition.teams;
+      replay.applied++;
+    });
+
+  return replay;
+}
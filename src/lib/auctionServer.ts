@@ -0,0 +1,1783 @@
+/**
+ * @fileoverview Server-authoritative auction operations
+ * Every write that decides who wins a player goes through here so the rules are
+ * checked against the database row being updated, not a possibly stale browser copy
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import {
+  applyAuctionEvent,
+  canStartAcceleratedRound,
+  getCurrentPlayer,
+  getLastCompletedLot,
+  getMaxAllowableBid,
+  getRoomRules,
+  getRtmHolder,
+  getSecondsRemaining,
+  getSquadCount,
+  getStateChanges,
+  isRetentionCandidate,
+  isRtmResolved,
+  AuctionEvent,
+  AuctionTeam,
+  RuleViolationCode
+} from '@/lib/auctionEngine';
+import { replayAuctionLog, toAuctionEventRow, AuctionEventInput, AuctionLogEntry, AuctionReplay } from '@/lib/auctionLog';
+import { getHighestBidUpTo, getMinimumBid } from '@/lib/bidLadder';
+import { chooseBotBid, getBotValuation, BotTeam } from '@/lib/botStrategy';
+import { formatMoney, subtractMoney } from '@/lib/money';
+import { DEFAULT_ROOM_SETTINGS, IPL_TEAMS, MAX_CO_OWNERS_PER_TEAM } from '@/types/auction';
+import type { AuctionAuditEntry, AuctionAutoBid, AuctionPlayer, AuctionRoomSettings, BotPersonality, AuctionStateRecord, RtmStage, RtmState } from '@/types/auction';
+
+/**
+ * Reasons a bid can be refused by the server
+ */
+export type BidRejectionCode =
+  | 'not_participant'
+  | 'auction_inactive'
+  | 'no_current_player'
+  | 'player_changed'
+  | 'bid_too_low'
+  | 'off_ladder'
+  | 'consecutive_bid'
+  | 'squad_full'
+  | 'overseas_limit'
+  | 'insufficient_budget'
+  | 'purse_reserve'
+  | 'outbid';
+
+/**
+ * A bid that has been written to `auction_bids` and is now leading
+ */
+export interface AcceptedBid {
+  id: string;
+  room_id: string;
+  player_id: string;
+  /** User who placed the bid; null for a bot franchise */
+  bidder_id: string | null;
+  team_id: string;
+  bid_amount: number;
+  is_auto_bid?: boolean;
+  created_at: string;
+}
+
+/**
+ * Outcome of a bid placement attempt
+ */
+export type BidResult =
+  | { accepted: true; bid: AcceptedBid }
+  | { accepted: false; code: BidRejectionCode; message: string };
+
+interface PlaceBidInput {
+  roomId: string;
+  /** Bidding user; null when a bot franchise bids */
+  userId: string | null;
+  playerId: string;
+  amount: number;
+  /** Placed by the server from the team's proxy ceiling */
+  auto?: boolean;
+  /** Bid for this bot franchise, placed by the server */
+  botParticipantId?: string;
+}
+
+/**
+ * Maps engine rule violations onto the bid API's rejection codes
+ */
+const VIOLATION_TO_REJECTION: Partial<Record<RuleViolationCode, BidRejectionCode>> = {
+  unknown_team: 'not_participant',
+  auction_not_active: 'auction_inactive',
+  auction_paused: 'auction_inactive',
+  no_current_player: 'no_current_player',
+  player_completed: 'no_current_player',
+  time_expired: 'no_current_player',
+  player_changed: 'player_changed',
+  bid_too_low: 'bid_too_low',
+  off_ladder: 'off_ladder',
+  consecutive_bid: 'consecutive_bid',
+  team_passed: 'consecutive_bid',
+  squad_full: 'squad_full',
+  overseas_limit: 'overseas_limit',
+  insufficient_budget: 'insufficient_budget',
+  purse_reserve: 'purse_reserve'
+};
+
+const reject = (code: BidRejectionCode, message: string): BidResult => ({
+  accepted: false,
+  code,
+  message
+});
+
+/**
+ * The team a user plays for in a room: the one they own, or the one they co-own
+ *
+ * @param roomId - The auction room
+ * @param userId - The user
+ * @param columns - `auction_participants` columns to select
+ * @returns The participant row, or null when the user has no team in the room
+ */
+async function findUserTeam<T>(roomId: string, userId: string, columns: string): Promise<T | null> {
+  const { data: owned } = await supabaseAdmin
+    .from('auction_participants')
+    .select(columns)
+    .eq('auction_room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (owned) return owned as T;
+
+  const { data: coOwner } = await supabaseAdmin
+    .from('auction_co_owners')
+    .select('participant_id')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!coOwner) return null;
+
+  const { data: coOwned } = await supabaseAdmin
+    .from('auction_participants')
+    .select(columns)
+    .eq('id', coOwner.participant_id)
+    .maybeSingle();
+
+  return (coOwned as T | null) ?? null;
+}
+
+/**
+ * A purse and squad change for one team, added to its `auction_participants` row
+ * (or, for a restore, the values to set outright)
+ */
+interface TeamChange {
+  id: string;
+  budget_change?: number;
+  squad_change?: number;
+  budget_remaining?: number;
+  squad_size?: number;
+}
+
+/**
+ * A lot's flags in the legacy `player_queue_items` table, kept in step with `auction_state`
+ */
+interface QueueItemChange {
+  player_id: string;
+  is_sold: boolean;
+  is_current: boolean;
+}
+
+/**
+ * One engine step to write with the `apply_auction_transition` database function
+ */
+interface TransitionWrite {
+  roomId: string;
+  /** `auction_state` columns that must still hold these values, or nothing is written */
+  guard: Partial<AuctionStateRecord>;
+  changes: Partial<AuctionStateRecord>;
+  teams?: TeamChange[];
+  /** Inserted as the winning bid; earlier bids on the player stop winning */
+  bid?: Omit<AcceptedBid, 'id' | 'room_id' | 'created_at'>;
+  events?: AuctionEventInput[];
+  roomStatus?: string;
+  queueItems?: QueueItemChange[];
+  /** Recorded in `auction_audit_log` with the step */
+  audit?: Omit<AuctionAuditEntry, 'id' | 'room_id' | 'created_at'>;
+}
+
+/**
+ * Writes a state change together with its purse changes, bid, queue items, event log rows and
+ * audit entry in one transaction
+ *
+ * @param write - The guarded state change and everything that goes with it
+ * @returns Whether the guard held (nothing is written when it did not), and the bid and audit entry that were inserted
+ */
+async function commitTransition({
+  roomId,
+  guard,
+  changes,
+  teams = [],
+  bid,
+  events = [],
+  roomStatus,
+  queueItems = [],
+  audit
+}: TransitionWrite): Promise<{ committed: boolean; bid: AcceptedBid | null; audit: AuctionAuditEntry | null }> {
+  const { data, error } = await supabaseAdmin.rpc('apply_auction_transition', {
+    p_room_id: roomId,
+    p_guard: guard,
+    p_changes: changes,
+    p_teams: teams,
+    p_bid: bid ?? null,
+    p_events: events.map(toAuctionEventRow),
+    p_room_status: roomStatus ?? null,
+    p_queue_items: queueItems,
+    p_audit: audit ?? null
+  });
+
+  if (error) throw error;
+  if (!data) return { committed: false, bid: null, audit: null };
+  return {
+    committed: true,
+    bid: (data.bid as AcceptedBid | null) ?? null,
+    audit: (data.audit as AuctionAuditEntry | null) ?? null
+  };
+}
+
+/**
+ * Validates and records a bid in a single conditional update of `auction_state`
+ *
+ * The state row is only updated if the current player and current bid still match
+ * what the rules were checked against. When two teams bid at the same moment both
+ * read the same current bid, only one conditional update matches a row, and the
+ * other caller gets an `outbid` rejection instead of a second "winning" bid. The bid
+ * row and its log entry are written in the same transaction as the state.
+ *
+ * @param input - Room, bidding user, player being bid on and bid amount (in lakhs)
+ * @returns The accepted bid, or the rule that rejected it
+ */
+export async function placeBid({ roomId, userId, playerId, amount, auto = false, botParticipantId }: PlaceBidInput): Promise<BidResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participant }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    botParticipantId
+      ? supabaseAdmin
+          .from('auction_participants')
+          .select('id, team_id, budget_remaining')
+          .eq('auction_room_id', roomId)
+          .eq('id', botParticipantId)
+          .eq('is_bot', true)
+          .maybeSingle()
+      : userId
+        ? findUserTeam<{ id: string; team_id: string; budget_remaining: number }>(roomId, userId, 'id, team_id, budget_remaining')
+          .then(data => ({ data }))
+        : { data: null }
+  ]);
+
+  if (roomError || stateError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (!participant) {
+    return reject('not_participant', 'You are not a participant in this auction');
+  }
+
+  if (room.status === 'completed') {
+    return reject('auction_inactive', 'Cannot place bid when auction is paused or inactive');
+  }
+
+  const currentBid = Number(state.current_bid) || 0;
+  const bidEvent: AuctionEvent = {
+    type: 'bid',
+    participantId: participant.id,
+    bidderId: botParticipantId ? null : userId,
+    amount,
+    playerId,
+    ...(auto ? { auto: true } : {})
+  };
+  const transition = applyAuctionEvent(
+    state as AuctionStateRecord,
+    bidEvent,
+    {
+      rules: getRoomRules(room),
+      teams: [{ participantId: participant.id, teamId: participant.team_id, budgetRemaining: participant.budget_remaining }],
+      now: new Date().toISOString()
+    }
+  );
+
+  if (!transition.ok) {
+    return reject(VIOLATION_TO_REJECTION[transition.violation.code] || 'auction_inactive', transition.violation.message);
+  }
+
+  // Conditional write: succeeds only if nobody else has bid since we read the state.
+  // The bid row and the log entry go in the same transaction, so they can never disagree with the state
+  const occurredAt = transition.state.updated_at || new Date().toISOString();
+  const { committed, bid } = await commitTransition({
+    roomId,
+    guard: { current_player_id: playerId, current_bid: currentBid, is_active: true, is_paused: false },
+    changes: {
+      current_bid: transition.state.current_bid,
+      leading_team: transition.state.leading_team,
+      current_bidder_id: transition.state.current_bidder_id,
+      time_remaining: transition.state.time_remaining,
+      bidding_ends_at: transition.state.bidding_ends_at,
+      updated_at: transition.state.updated_at
+    },
+    bid: {
+      player_id: playerId,
+      bidder_id: bidEvent.bidderId,
+      team_id: participant.id,
+      bid_amount: amount,
+      is_auto_bid: auto
+    },
+    events: [{ roomId, event: bidEvent, playerId, actorId: bidEvent.bidderId, occurredAt }]
+  });
+
+  if (!committed || !bid) {
+    return reject('outbid', 'Another bid was accepted first - please check the new price');
+  }
+
+  return { accepted: true, bid };
+}
+
+/**
+ * Most bids one call places; a contest between ceilings settles in two, the rest cover refusals and races
+ */
+const MAX_AUTO_BIDS_PER_CALL = 10;
+
+/**
+ * Bid rejections caused by another bid landing between the read and the write; the pass reads again
+ */
+const RETRY_AUTO_BID_REJECTIONS: BidRejectionCode[] = ['outbid', 'bid_too_low', 'consecutive_bid'];
+
+/**
+ * Bid rejections that mean a ceiling can never be honoured on this lot, so it is dropped
+ */
+const FINAL_AUTO_BID_REJECTIONS: BidRejectionCode[] = [
+  'not_participant',
+  'squad_full',
+  'overseas_limit',
+  'insufficient_budget',
+  'purse_reserve'
+];
+
+/**
+ * Answers rival bids on the current player from the teams' proxy ceilings and the bot franchises
+ *
+ * Ceilings are compared the way a proxy bidding service would, without climbing the ladder a
+ * rung at a time: the highest ceiling (earliest set wins a tie) jumps straight to one rung above
+ * the best losing ceiling, or to its own ceiling if that is lower. When the highest ceiling
+ * belongs to the team already leading, the best rival ceiling bids its full amount first so the
+ * leader has a bid to answer. A ceiling only counts up to what the team may spend after reserving
+ * for its open squad slots. A bot's ceiling is its valuation of the player, and it loses ties to
+ * the humans' ceilings.
+ *
+ * Each bid goes through {@link placeBid}, so turn, purse and squad rules apply exactly as for a
+ * click; a ceiling whose bid is refused for good (full squad, short purse) is dropped, and teams
+ * that passed are skipped. Human ceilings only answer; until some team has opened the bidding,
+ * the bot that wants the player most opens it at the base price.
+ *
+ * The server calls this after every accepted bid and whenever a lot opens, so bots need no
+ * browser to run them.
+ *
+ * @param input - Room and the player the ceilings are for
+ * @returns The auto-bids and bot bids that were accepted, oldest first
+ */
+export async function resolveAutoBids({ roomId, playerId }: { roomId: string; playerId: string }): Promise<AcceptedBid[]> {
+  const placed: AcceptedBid[] = [];
+  const droppedBots = new Set<string>();
+
+  const { data: room, error: roomError } = await supabaseAdmin
+    .from('auction_rooms')
+    .select('id, players_per_team, timer_seconds, status, settings')
+    .eq('id', roomId)
+    .single();
+
+  if (roomError || !room) throw new Error('Auction room not found');
+  const rules = getRoomRules(room);
+
+  for (let step = 0; step < MAX_AUTO_BIDS_PER_CALL; step++) {
+    const [{ data: state, error: stateError }, { data: ceilings, error: ceilingsError }, { data: participants, error: participantsError }] = await Promise.all([
+      supabaseAdmin
+        .from('auction_state')
+        .select('*')
+        .eq('room_id', roomId)
+        .single(),
+      supabaseAdmin
+        .from('auction_auto_bids')
+        .select('*')
+        .eq('room_id', roomId)
+        .eq('player_id', playerId)
+        .order('created_at', { ascending: true }),
+      supabaseAdmin
+        .from('auction_participants')
+        .select('id, team_id, team_short_name, budget_remaining, is_bot, bot_personality')
+        .eq('auction_room_id', roomId)
+    ]);
+
+    if (stateError || ceilingsError || participantsError || !state) break;
+    const auctionState = state as AuctionStateRecord;
+    const player = getCurrentPlayer(auctionState);
+    if (auctionState.current_player_id !== playerId || !player) break;
+    if (!auctionState.is_active || auctionState.is_paused || auctionState.next_player_at) break;
+
+    const bots: BotTeam[] = (participants || [])
+      .filter(p => p.is_bot && p.bot_personality && !droppedBots.has(p.id))
+      .map(p => ({
+        participantId: p.id,
+        teamId: p.team_id,
+        teamCode: p.team_short_name || undefined,
+        budgetRemaining: p.budget_remaining,
+        personality: p.bot_personality as BotPersonality
+      }));
+
+    let bidder: { participantId: string; ceilingId: string | null; userId: string | null };
+    let amount: number;
+
+    if (!auctionState.leading_team) {
+      const opening = chooseBotBid(auctionState, bots, rules);
+      if (!opening) break;
+      bidder = { participantId: opening.participantId, ceilingId: null, userId: null };
+      amount = opening.amount;
+    } else {
+      const basePrice = Number(auctionState.base_price) || 0;
+      const currentBid = Number(auctionState.current_bid) || 0;
+      const nextBid = getMinimumBid(currentBid, basePrice, rules.bidIncrements);
+      const leader = (participants || []).find(p => p.team_id === auctionState.leading_team);
+      const passed = auctionState.passed_teams || [];
+
+      const humanCeilings = ((ceilings || []) as AuctionAutoBid[]).flatMap(ceiling => {
+        const team = (participants || []).find(p => p.id === ceiling.participant_id);
+        if (!team) return [];
+        const spendable = Math.min(
+          Number(ceiling.max_amount),
+          getMaxAllowableBid(auctionState, { participantId: team.id, teamId: team.team_id || '', budgetRemaining: team.budget_remaining }, rules)
+        );
+        return [{ participantId: team.id, ceilingId: ceiling.id, userId: ceiling.user_id, spendable }];
+      });
+      const botCeilings = bots.map(bot => ({
+        participantId: bot.participantId,
+        ceilingId: null,
+        userId: null,
+        spendable: getBotValuation(auctionState, bot, player, rules)
+      }));
+
+      // Each ceiling as the highest rung it can actually bid; highest first, and the sort is
+      // stable, so the earliest ceiling wins a tie
+      const live = [...humanCeilings, ...botCeilings]
+        .filter(entry => !passed.includes(entry.participantId))
+        .map(entry => ({
+          ...entry,
+          reach: getHighestBidUpTo(entry.spendable, basePrice, rules.bidIncrements),
+          isLeader: entry.participantId === leader?.id
+        }))
+        .filter(entry => entry.isLeader || entry.reach >= nextBid)
+        .sort((a, b) => b.reach - a.reach);
+
+      const challenger = live.find(entry => !entry.isLeader);
+      if (!challenger) break;
+
+      const top = live[0];
+      bidder = challenger;
+      amount = challenger.reach;
+
+      if (!top.isLeader) {
+        // The top ceiling wins: one rung above whatever it beats, or all it has if that is less
+        const losingReach = Math.max(currentBid, live[1]?.reach || 0);
+        bidder = top;
+        amount = Math.min(top.reach, getMinimumBid(losingReach, basePrice, rules.bidIncrements));
+      } else if (challenger.reach >= top.reach) {
+        // The leader's ceiling came first, so a rival that ties it stops one rung short
+        amount = getHighestBidUpTo(subtractMoney(top.reach, 0.01), basePrice, rules.bidIncrements);
+        if (amount < nextBid) break;
+      }
+    }
+
+    const result = bidder.ceilingId
+      ? await placeBid({ roomId, userId: bidder.userId, playerId, amount, auto: true })
+      : await placeBid({ roomId, userId: null, playerId, amount, botParticipantId: bidder.participantId });
+
+    if (result.accepted) {
+      console.log(bidder.ceilingId ? '🤖 Auto-bid placed:' : '🤖 Bot bid placed:', { playerId, participantId: bidder.participantId, amount });
+      placed.push(result.bid);
+    } else if (FINAL_AUTO_BID_REJECTIONS.includes(result.code)) {
+      if (bidder.ceilingId) {
+        await supabaseAdmin.from('auction_auto_bids').delete().eq('id', bidder.ceilingId);
+      } else {
+        droppedBots.add(bidder.participantId);
+      }
+    } else if (!RETRY_AUTO_BID_REJECTIONS.includes(result.code)) {
+      // The lot has closed or moved on
+      break;
+    }
+  }
+
+  return placed;
+}
+
+/**
+ * Outcome of setting or clearing a proxy ceiling
+ */
+export type AutoBidResult =
+  | { ok: true; autoBid: AuctionAutoBid | null; placed: AcceptedBid[] }
+  | { ok: false; code: BidRejectionCode; message: string };
+
+/**
+ * Sets the calling team's proxy ceiling on the current player, or clears it when `maxAmount` is null
+ * A team has one ceiling per player, shared by its primary owner and co-owners; setting it
+ * replaces whatever a teammate set, and the row records who set it last.
+ *
+ * The ceiling must reach the next valid bid and fit within what the team may spend after
+ * reserving for its open squad slots. If a rival is leading, the ceiling answers straight away.
+ *
+ * @param input - Room, user, player and ceiling in lakhs (null to clear)
+ * @returns The stored ceiling and any auto-bids it placed, or why it was refused
+ */
+export async function setAutoBid({
+  roomId,
+  userId,
+  playerId,
+  maxAmount
+}: {
+  roomId: string;
+  userId: string;
+  playerId: string;
+  maxAmount: number | null;
+}): Promise<AutoBidResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participant }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    findUserTeam<{ id: string; team_id: string; budget_remaining: number }>(roomId, userId, 'id, team_id, budget_remaining')
+      .then(data => ({ data }))
+  ]);
+
+  if (roomError || stateError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (!participant) {
+    return { ok: false, code: 'not_participant', message: 'You are not a participant in this auction' };
+  }
+
+  if (maxAmount === null) {
+    const { error } = await supabaseAdmin
+      .from('auction_auto_bids')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('participant_id', participant.id)
+      .eq('player_id', playerId);
+
+    if (error) throw error;
+    return { ok: true, autoBid: null, placed: [] };
+  }
+
+  const auctionState = state as AuctionStateRecord;
+  if (!auctionState.is_active || room.status === 'completed') {
+    return { ok: false, code: 'auction_inactive', message: 'The auction is not running' };
+  }
+  if (auctionState.current_player_id !== playerId) {
+    return { ok: false, code: 'player_changed', message: 'Bidding has moved on to another player' };
+  }
+
+  const rules = getRoomRules(room);
+  const nextBid = getMinimumBid(Number(auctionState.current_bid) || 0, Number(auctionState.base_price) || 0, rules.bidIncrements);
+  if (maxAmount < nextBid) {
+    return { ok: false, code: 'bid_too_low', message: `Your ceiling must be at least the next bid of ${formatMoney(nextBid)}` };
+  }
+
+  const maxAllowed = getMaxAllowableBid(
+    auctionState,
+    { participantId: participant.id, teamId: participant.team_id, budgetRemaining: participant.budget_remaining },
+    rules
+  );
+  if (maxAmount > maxAllowed) {
+    return {
+      ok: false,
+      code: 'purse_reserve',
+      message: `You can spend at most ${formatMoney(maxAllowed)} on this player and still fill your squad`
+    };
+  }
+
+  const { data: autoBid, error: upsertError } = await supabaseAdmin
+    .from('auction_auto_bids')
+    .upsert({
+      room_id: roomId,
+      participant_id: participant.id,
+      user_id: userId,
+      player_id: playerId,
+      max_amount: maxAmount,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'room_id,participant_id,player_id' })
+    .select('*')
+    .single();
+
+  if (upsertError) throw upsertError;
+
+  const placed = await resolveAutoBids({ roomId, playerId });
+  return { ok: true, autoBid: autoBid as AuctionAutoBid, placed };
+}
+
+/**
+ * What an auto-advance call did
+ */
+export type AutoAdvanceResult =
+  | { action: 'sold'; playerId: string; participantId: string; amount: number }
+  | { action: 'unsold'; playerId: string }
+  | { action: 'next'; playerId: string }
+  | { action: 'completed' }
+  | { action: 'round_complete'; unsoldCount: number }
+  | { action: 'rtm'; playerId: string; stage: RtmStage }
+  | { action: 'none'; reason: string };
+
+/**
+ * Moves an auto-advance room along once its clock has run out
+ *
+ * When the deadline has passed the current player is sold to the leading team, or
+ * marked unsold if nobody bid, and `next_player_at` is set to the room's delay.
+ * Once that time has passed the next player is brought up with the clock running.
+ * If the player's former team holds a right to match, it is offered instead of selling, and
+ * each RTM step that times out is settled as a "no" before the sale goes through.
+ * When the queue runs out with players still unsold, the room stays open so the
+ * auctioneer can run an accelerated round; otherwise the auction is completed.
+ *
+ * Every open client calls this when its countdown hits zero, so each step is a
+ * conditional update that only one caller can win: the settle step requires the lot
+ * to still be open (`is_paused = false`), and the next-player step requires the same
+ * `next_player_at` that was read. Losing callers get `{ action: 'none' }`. A sale and the
+ * charge to the buyer's purse and squad are written in one transaction.
+ *
+ * @param input - Room and the user making the call (must be in the room)
+ * @returns The step that was taken, if any
+ */
+export async function advanceAuction({ roomId, userId }: { roomId: string; userId: string }): Promise<AutoAdvanceResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, user_id, team_id, team_short_name, budget_remaining, squad_size')
+      .eq('auction_room_id', roomId)
+  ]);
+
+  if (roomError || stateError || participantsError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId && !(await findUserTeam(roomId, userId, 'id'))) {
+    return { action: 'none', reason: 'You are not a participant in this auction' };
+  }
+
+  const settings: AuctionRoomSettings = { ...DEFAULT_ROOM_SETTINGS, ...(room.settings || {}) };
+  if (!settings.autoAdvance) {
+    return { action: 'none', reason: 'Auto-advance is turned off for this room' };
+  }
+  if (room.status === 'completed' || !state.is_active) {
+    return { action: 'none', reason: 'The auction is not running' };
+  }
+
+  const auctionState = state as AuctionStateRecord;
+  const now = new Date().toISOString();
+  const teams: AuctionTeam[] = (participants || []).map(p => ({
+    participantId: p.id,
+    teamId: p.team_id || '',
+    teamCode: p.team_short_name || undefined,
+    budgetRemaining: p.budget_remaining
+  }));
+  const context = { rules: getRoomRules(room), teams, now };
+  const rtm = auctionState.rtm && auctionState.rtm.player_id === auctionState.current_player_id ? auctionState.rtm : null;
+
+  // Step 0: a right-to-match step has timed out - settle it as a "no"
+  if (rtm && !isRtmResolved(rtm) && !auctionState.next_player_at) {
+    if (rtm.expires_at && Date.parse(rtm.expires_at) > Date.parse(now)) {
+      return { action: 'none', reason: 'Waiting for the right-to-match decision' };
+    }
+
+    const skipped = applyAuctionEvent(auctionState, { type: 'rtm_skip' }, context);
+    if (!skipped.ok) {
+      return { action: 'none', reason: skipped.violation.message };
+    }
+
+    const { committed } = await commitTransition({
+      roomId,
+      guard: { current_player_id: auctionState.current_player_id, rtm },
+      changes: { rtm: skipped.state.rtm, updated_at: now },
+      events: [{ roomId, event: { type: 'rtm_skip' }, playerId: rtm.player_id, actorId: null, occurredAt: now }]
+    });
+
+    if (!committed) {
+      return { action: 'none', reason: 'Already settled' };
+    }
+
+    return { action: 'rtm', playerId: rtm.player_id, stage: (skipped.state.rtm as RtmState).stage };
+  }
+
+  // Step 1: the clock has run out on an open lot (or its RTM is settled) - sell or mark unsold
+  if ((!auctionState.is_paused || rtm) && !auctionState.next_player_at) {
+    if (!rtm && getSecondsRemaining(auctionState, now) > 0) {
+      return { action: 'none', reason: 'Time has not run out yet' };
+    }
+
+    // The former team gets its right to match before the hammer falls
+    if (!rtm && getRtmHolder(auctionState, teams, context.rules)) {
+      const offered = applyAuctionEvent(auctionState, { type: 'rtm_offer' }, context);
+      if (!offered.ok) {
+        return { action: 'none', reason: offered.violation.message };
+      }
+
+      const { committed } = await commitTransition({
+        roomId,
+        guard: {
+          current_player_id: auctionState.current_player_id,
+          current_bid: auctionState.current_bid,
+          is_paused: false,
+          rtm: null
+        },
+        changes: {
+          is_paused: true,
+          time_remaining: 0,
+          bidding_ends_at: null,
+          rtm: offered.state.rtm,
+          updated_at: now
+        },
+        events: [{ roomId, event: { type: 'rtm_offer' }, playerId: auctionState.current_player_id, actorId: null, occurredAt: now }]
+      });
+
+      if (!committed) {
+        return { action: 'none', reason: 'Already settled' };
+      }
+
+      return { action: 'rtm', playerId: auctionState.current_player_id as string, stage: 'offered' };
+    }
+
+    const isSold = !!auctionState.leading_team && auctionState.current_bid > 0;
+    const transition = applyAuctionEvent(auctionState, { type: isSold ? 'sell' : 'unsold' }, context);
+    if (!transition.ok) {
+      return { action: 'none', reason: transition.violation.message };
+    }
+
+    const delaySeconds = settings.autoAdvanceDelay ?? DEFAULT_ROOM_SETTINGS.autoAdvanceDelay ?? 0;
+    const player = getCurrentPlayer(auctionState);
+    const playerId = auctionState.current_player_id as string;
+    const record = isSold ? transition.state.sold_players[transition.state.sold_players.length - 1] : null;
+
+    // The buyer's purse and squad are charged in the same transaction as the sale
+    const { committed } = await commitTransition({
+      roomId,
+      // A settled RTM leaves the lot paused, so guard on its outcome instead of the clock
+      guard: {
+        current_player_id: auctionState.current_player_id,
+        current_bid: auctionState.current_bid,
+        next_player_at: null,
+        ...(rtm ? { rtm } : { is_paused: false })
+      },
+      changes: {
+        sold_players: transition.state.sold_players,
+        unsold_players: transition.state.unsold_players,
+        is_paused: true,
+        time_remaining: 0,
+        bidding_ends_at: null,
+        next_player_at: new Date(Date.parse(now) + delaySeconds * 1000).toISOString(),
+        updated_at: now
+      },
+      teams: record ? [{ id: record.sold_to_participant as string, budget_change: -record.final_price, squad_change: 1 }] : [],
+      events: [{ roomId, event: { type: isSold ? 'sell' : 'unsold' }, playerId, actorId: null, occurredAt: now }],
+      queueItems: record ? [{ player_id: playerId, is_sold: true, is_current: false }] : []
+    });
+
+    if (!committed) {
+      return { action: 'none', reason: 'Already settled' };
+    }
+
+    if (!record) {
+      return { action: 'unsold', playerId };
+    }
+
+    const winner = (participants || []).find(p => p.id === record.sold_to_participant);
+
+    // Same notification the auctioneer's manual sale sends
+    await supabaseAdmin.channel(`auction_sale_${roomId}`).send({
+      type: 'broadcast',
+      event: 'player_sold',
+      payload: {
+        player_name: player?.name || record.name,
+        team_name: winner?.team_short_name || 'Unknown Team',
+        sold_amount: record.final_price,
+        timestamp: now
+      }
+    });
+
+    return { action: 'sold', playerId, participantId: record.sold_to_participant as string, amount: record.final_price };
+  }
+
+  // Step 2: the post-sale delay is over - bring up the next player and start the clock
+  if (auctionState.next_player_at) {
+    if (Date.parse(auctionState.next_player_at) > Date.parse(now)) {
+      return { action: 'none', reason: 'Waiting to bring up the next player' };
+    }
+
+    const next = applyAuctionEvent(auctionState, { type: 'next' }, context);
+    if (!next.ok) {
+      return { action: 'none', reason: next.violation.message };
+    }
+
+    const resumed = next.completed ? next : applyAuctionEvent(next.state, { type: 'resume' }, context);
+    if (!resumed.ok) {
+      return { action: 'none', reason: resumed.violation.message };
+    }
+
+    // Logged as the two engine steps it took, so replay brings the player up and starts the clock the same way
+    const events: AuctionEventInput[] = [{ roomId, event: { type: 'next' }, playerId: next.state.current_player_id, actorId: null, occurredAt: now }];
+    if (!next.completed) {
+      events.push({ roomId, event: { type: 'resume' }, playerId: resumed.state.current_player_id, actorId: null, occurredAt: now });
+    }
+    const finished = next.completed && !canStartAcceleratedRound(next.state);
+
+    const { committed } = await commitTransition({
+      roomId,
+      guard: { next_player_at: auctionState.next_player_at },
+      changes: {
+        is_active: resumed.state.is_active,
+        is_paused: resumed.state.is_paused,
+        current_player_id: resumed.state.current_player_id,
+        current_player_index: resumed.state.current_player_index,
+        current_bid: resumed.state.current_bid,
+        base_price: resumed.state.base_price,
+        leading_team: resumed.state.leading_team,
+        current_bidder_id: resumed.state.current_bidder_id,
+        time_remaining: resumed.state.time_remaining,
+        bidding_ends_at: resumed.state.bidding_ends_at,
+        next_player_at: null,
+        passed_teams: resumed.state.passed_teams,
+        rtm: null,
+        updated_at: now
+      },
+      events,
+      roomStatus: finished ? 'completed' : undefined
+    });
+
+    if (!committed) {
+      return { action: 'none', reason: 'Already advanced' };
+    }
+
+    if (next.completed && !finished) {
+      return { action: 'round_complete', unsoldCount: next.state.unsold_players.length };
+    }
+
+    if (finished) {
+      return { action: 'completed' };
+    }
+
+    return { action: 'next', playerId: resumed.state.current_player_id as string };
+  }
+
+  return { action: 'none', reason: 'Nothing to do' };
+}
+
+/**
+ * A team's answer in a right-to-match offer
+ * The holder exercises or declines, the winner raises (or not), then the holder matches or lets go
+ */
+export type RtmAction = 'exercise' | 'decline' | 'raise' | 'no_raise' | 'match' | 'pass';
+
+export type RtmResult =
+  | { ok: true; rtm: RtmState }
+  | { ok: false; code: RuleViolationCode | 'not_participant'; message: string };
+
+/**
+ * Records a team's right-to-match answer in a conditional update of `auction_state`
+ * The update only matches while the offer is still at the step that was checked, so a
+ * late answer racing a timeout (or a double click) cannot be applied twice. The log entry is
+ * written in the same transaction.
+ *
+ * @param input - Room, answering user, their answer and, for a raise, the amount in lakhs
+ * @returns The offer after the answer, or the rule that refused it
+ */
+export async function respondToRtm({
+  roomId,
+  userId,
+  action,
+  amount
+}: {
+  roomId: string;
+  userId: string;
+  action: RtmAction;
+  amount?: number;
+}): Promise<RtmResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, user_id, team_id, team_short_name, budget_remaining')
+      .eq('auction_room_id', roomId)
+  ]);
+
+  if (roomError || stateError || participantsError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  const team = await findUserTeam<{ id: string }>(roomId, userId, 'id');
+  const participant = (participants || []).find(p => p.id === team?.id);
+  if (!participant) {
+    return { ok: false, code: 'not_participant', message: 'You are not a participant in this auction' };
+  }
+
+  const auctionState = state as AuctionStateRecord;
+  const event: AuctionEvent =
+    action === 'exercise' || action === 'decline'
+      ? { type: 'rtm_exercise', participantId: participant.id, exercise: action === 'exercise' }
+      : action === 'raise' || action === 'no_raise'
+        ? { type: 'rtm_raise', participantId: participant.id, amount: action === 'raise' ? amount : undefined }
+        : { type: 'rtm_match', participantId: participant.id, match: action === 'match' };
+
+  const now = new Date().toISOString();
+  const transition = applyAuctionEvent(auctionState, event, {
+    rules: getRoomRules(room),
+    teams: (participants || []).map(p => ({
+      participantId: p.id,
+      teamId: p.team_id || '',
+      teamCode: p.team_short_name || undefined,
+      budgetRemaining: p.budget_remaining
+    })),
+    now
+  });
+
+  if (!transition.ok) {
+    return { ok: false, code: transition.violation.code, message: transition.violation.message };
+  }
+
+  const { committed } = await commitTransition({
+    roomId,
+    guard: { current_player_id: auctionState.current_player_id, rtm: auctionState.rtm },
+    changes: {
+      current_bid: transition.state.current_bid,
+      leading_team: transition.state.leading_team,
+      current_bidder_id: transition.state.current_bidder_id,
+      rtm: transition.state.rtm,
+      updated_at: transition.state.updated_at
+    },
+    events: [{ roomId, event, playerId: auctionState.current_player_id, actorId: userId, occurredAt: now }]
+  });
+
+  if (!committed) {
+    return { ok: false, code: 'rtm_expired', message: 'This right-to-match step has already been settled' };
+  }
+
+  return { ok: true, rtm: transition.state.rtm as RtmState };
+}
+
+export type PassResult =
+  | { ok: true; passedTeams: string[] }
+  | { ok: false; code: RuleViolationCode | 'not_participant'; message: string };
+
+/**
+ * Records that a team is out of the bidding for the current player
+ * A passed team cannot bid again on this lot, and neither its auto-bid ceiling nor a bot
+ * answers for it. The write only applies while the lot and its price are unchanged, so a
+ * pass sent just as a rival bid lands is refused rather than dropping the team out of a
+ * contest it has not seen.
+ *
+ * @param input - Room, passing user and the player they are passing on
+ * @returns The teams that have passed on the player, or the rule that refused the pass
+ */
+export async function passLot({
+  roomId,
+  userId,
+  playerId
+}: {
+  roomId: string;
+  userId: string;
+  playerId: string;
+}): Promise<PassResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, participant] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    findUserTeam<{ id: string; team_id: string; budget_remaining: number }>(roomId, userId, 'id, team_id, budget_remaining')
+  ]);
+
+  if (roomError || stateError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (!participant) {
+    return { ok: false, code: 'not_participant', message: 'You are not a participant in this auction' };
+  }
+
+  const auctionState = state as AuctionStateRecord;
+  if (auctionState.current_player_id !== playerId) {
+    return { ok: false, code: 'player_changed', message: 'The player has changed - please check the current lot' };
+  }
+
+  const event: AuctionEvent = { type: 'pass', participantId: participant.id };
+  const now = new Date().toISOString();
+  const transition = applyAuctionEvent(auctionState, event, {
+    rules: getRoomRules(room),
+    teams: [{ participantId: participant.id, teamId: participant.team_id, budgetRemaining: participant.budget_remaining }],
+    now
+  });
+
+  if (!transition.ok) {
+    return { ok: false, code: transition.violation.code, message: transition.violation.message };
+  }
+
+  const passedTeams = transition.state.passed_teams || [];
+  const { committed } = await commitTransition({
+    roomId,
+    guard: { current_player_id: playerId, current_bid: Number(auctionState.current_bid) || 0, passed_teams: auctionState.passed_teams || [] },
+    changes: { passed_teams: passedTeams, updated_at: transition.state.updated_at },
+    events: [{ roomId, event, playerId, actorId: userId, occurredAt: now }]
+  });
+
+  if (!committed) {
+    return { ok: false, code: 'player_changed', message: 'The bidding moved on before your pass - please check the current price' };
+  }
+
+  return { ok: true, passedTeams };
+}
+
+/**
+ * Engine events the auctioneer's controls send; bids, passes, RTM answers and undo have their own routes
+ */
+export const AUCTIONEER_EVENT_TYPES = [
+  'start',
+  'start_round',
+  'next',
+  'pause',
+  'resume',
+  'add_time',
+  'sell',
+  'unsold',
+  'rtm_offer',
+  'rtm_skip'
+] as const;
+
+export type AuctioneerEvent = Extract<AuctionEvent, { type: typeof AUCTIONEER_EVENT_TYPES[number] }>;
+
+export type AuctioneerEventResult =
+  | { ok: true; state: AuctionStateRecord; teams: AuctionTeam[]; completed: boolean }
+  | { ok: false; code: RuleViolationCode | 'not_auctioneer' | 'state_changed' | 'retention_ineligible'; message: string };
+
+/**
+ * Applies one of the auctioneer's controls to the room and logs it
+ *
+ * The event is checked against the stored state, which is only updated if it has not
+ * changed since it was read, so a control pressed on a stale screen is refused rather than
+ * applied on top of a newer lot. The log entry is written in the same transaction, as are
+ * the retention charges when the auction starts and the buyer's purse and squad on a sale.
+ *
+ * @param input - Room, the user asking (must be the auctioneer), the event, and the queue to use
+ *   if the stored one has been lost (resume and next only)
+ * @returns The state after the event, or the rule that refused it
+ */
+export async function applyAuctioneerEvent({
+  roomId,
+  userId,
+  event,
+  queue
+}: {
+  roomId: string;
+  userId: string;
+  event: AuctioneerEvent;
+  queue?: AuctionPlayer[];
+}): Promise<AuctioneerEventResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, team_id, team_short_name, budget_remaining')
+      .eq('auction_room_id', roomId)
+  ]);
+
+  if (roomError || stateError || participantsError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId) {
+    return { ok: false, code: 'not_auctioneer', message: 'Only the auctioneer can run the auction' };
+  }
+
+  const teams: AuctionTeam[] = (participants || []).map(p => ({
+    participantId: p.id,
+    teamId: p.team_id || '',
+    teamCode: p.team_short_name || undefined,
+    budgetRemaining: p.budget_remaining
+  }));
+
+  // Retained players are read here, not taken from the browser, and charged in the same transaction as the start.
+  // Each pick must be a former player of the team or on its list, whatever the browser wrote
+  let applied: AuctioneerEvent = event;
+  if (event.type === 'start') {
+    const { data: retentions, error: retentionsError } = await supabaseAdmin
+      .from('auction_retentions')
+      .select('participant_id, player_id')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: true });
+
+    if (retentionsError) throw retentionsError;
+
+    const retained = (retentions || []).flatMap(row => {
+      const player = event.queue.find(p => p.id === row.player_id);
+      return player ? [{ participantId: row.participant_id as string, player }] : [];
+    });
+
+    const retentionLists = (room.settings as Partial<AuctionRoomSettings> | null)?.retentionLists;
+    const ineligible = retained.find(pick => {
+      const team = teams.find(t => t.participantId === pick.participantId);
+      return !team || !isRetentionCandidate(team, pick.player, retentionLists);
+    });
+    if (ineligible) {
+      const team = teams.find(t => t.participantId === ineligible.participantId);
+      return {
+        ok: false,
+        code: 'retention_ineligible',
+        message: `${team?.teamCode || 'A team'} cannot retain ${ineligible.player.name} - only former players or those the auctioneer listed for the team`
+      };
+    }
+
+    applied = { type: 'start', queue: event.queue, retained };
+  }
+
+  // A lost stored queue is replaced by the browser's, carried in the event so the log replays the same players
+  const stored = state as AuctionStateRecord;
+  if ((event.type === 'resume' || event.type === 'next') && (stored.player_queue || []).length === 0 && queue?.length) {
+    applied = { type: event.type, queue };
+  }
+
+  const now = new Date().toISOString();
+  const transition = applyAuctionEvent(stored, applied, { rules: getRoomRules(room), teams, now });
+
+  if (!transition.ok) {
+    return { ok: false, code: transition.violation.code, message: transition.violation.message };
+  }
+
+  // Each retaining team pays its slabs and counts its retained players; a sale charges the buyer
+  let teamChanges: TeamChange[] = [];
+  if (applied.type === 'start') {
+    teamChanges = teams.flatMap(team => {
+      const retainedCount = (applied.retained || []).filter(pick => pick.participantId === team.participantId).length;
+      const charged = transition.teams.find(t => t.participantId === team.participantId);
+      return retainedCount > 0 && charged
+        ? [{ id: team.participantId, budget_change: subtractMoney(charged.budgetRemaining, team.budgetRemaining), squad_change: retainedCount }]
+        : [];
+    });
+  } else if (applied.type === 'sell') {
+    const record = transition.state.sold_players[transition.state.sold_players.length - 1];
+    teamChanges = [{ id: record.sold_to_participant as string, budget_change: -record.final_price, squad_change: 1 }];
+  }
+
+  // A sale or unsold marking is also pinned to the lot and price it was decided on
+  const lotGuard: Partial<AuctionStateRecord> = applied.type === 'sell' || applied.type === 'unsold'
+    ? { current_player_id: stored.current_player_id, current_bid: stored.current_bid }
+    : {};
+
+  const finished = transition.completed && !canStartAcceleratedRound(transition.state);
+  const { committed } = await commitTransition({
+    roomId,
+    guard: { ...lotGuard, updated_at: stored.updated_at },
+    changes: getStateChanges(stored, transition.state),
+    teams: teamChanges,
+    events: [{ roomId, event: applied, playerId: transition.state.current_player_id, actorId: userId, occurredAt: now }],
+    roomStatus: event.type === 'start' ? 'active' : finished ? 'completed' : undefined
+  });
+
+  if (!committed) {
+    return { ok: false, code: 'state_changed', message: 'The auction changed while you were acting - check the current lot and try again' };
+  }
+
+  return { ok: true, state: transition.state, teams: transition.teams, completed: transition.completed };
+}
+
+export type UndoResult =
+  | { ok: true; entry: AuctionAuditEntry }
+  | { ok: false; code: RuleViolationCode | 'not_auctioneer' | 'state_changed'; message: string };
+
+/**
+ * Takes back the last sale or unsold marking and records who did it in `auction_audit_log`
+ *
+ * The state row is only updated if it has not changed since it was read, so an undo
+ * racing a bid, an auto-advance step or a second undo is refused rather than applied on
+ * top of a different lot. The buyer's purse and squad size, the player's queue item and the audit
+ * entry are written in the same transaction.
+ *
+ * @param input - Room and the user asking (must be the auctioneer)
+ * @returns The audit entry that was written, or why nothing was undone
+ */
+export async function undoLastAction({ roomId, userId }: { roomId: string; userId: string }): Promise<UndoResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('*')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, user_id, team_id, team_short_name, budget_remaining, squad_size')
+      .eq('auction_room_id', roomId)
+  ]);
+
+  if (roomError || stateError || participantsError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId) {
+    return { ok: false, code: 'not_auctioneer', message: 'Only the auctioneer can undo a sale' };
+  }
+
+  const auctionState = state as AuctionStateRecord;
+  const lot = getLastCompletedLot(auctionState);
+  if (!lot) {
+    return { ok: false, code: 'nothing_to_undo', message: 'There is no sale or unsold player in this round to undo' };
+  }
+
+  const transition = applyAuctionEvent(auctionState, { type: 'undo' }, {
+    rules: getRoomRules(room),
+    teams: (participants || []).map(p => ({
+      participantId: p.id,
+      teamId: p.team_id || '',
+      teamCode: p.team_short_name || undefined,
+      budgetRemaining: p.budget_remaining
+    })),
+    now: new Date().toISOString()
+  });
+
+  if (!transition.ok) {
+    return { ok: false, code: transition.violation.code, message: transition.violation.message };
+  }
+
+  const next = transition.state;
+  const { record, sold } = lot;
+  const buyer = sold ? (participants || []).find(p => p.id === record.sold_to_participant) : null;
+
+  const { data: actor } = await supabaseAdmin
+    .from('users_profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  // The rewind, the buyer's refund, the queue item and the audit entry are one transaction;
+  // undoing the final lot reopens a finished auction
+  const { committed, audit } = await commitTransition({
+    roomId,
+    guard: { updated_at: auctionState.updated_at },
+    changes: {
+      is_active: next.is_active,
+      is_paused: next.is_paused,
+      current_player_id: next.current_player_id,
+      current_player_index: next.current_player_index,
+      current_bid: next.current_bid,
+      base_price: next.base_price,
+      leading_team: next.leading_team,
+      current_bidder_id: next.current_bidder_id,
+      time_remaining: next.time_remaining,
+      bidding_ends_at: next.bidding_ends_at,
+      next_player_at: next.next_player_at,
+      passed_teams: next.passed_teams,
+      rtm: next.rtm,
+      sold_players: next.sold_players,
+      unsold_players: next.unsold_players,
+      updated_at: next.updated_at
+    },
+    teams: buyer ? [{ id: buyer.id, budget_change: record.final_price, squad_change: -1 }] : [],
+    events: [{
+      roomId,
+      event: { type: 'undo' },
+      playerId: next.current_player_id,
+      actorId: userId,
+      occurredAt: next.updated_at || new Date().toISOString()
+    }],
+    roomStatus: room.status === 'completed' ? 'active' : undefined,
+    queueItems: [{ player_id: record.id, is_sold: false, is_current: true }],
+    audit: {
+      actor_id: userId,
+      action: sold ? 'undo_sale' : 'undo_unsold',
+      player_id: record.id,
+      details: {
+        actor_name: actor?.full_name || 'Auctioneer',
+        player_name: record.name,
+        team_id: record.sold_to_team,
+        team_name: buyer?.team_short_name || undefined,
+        amount: record.final_price
+      }
+    }
+  });
+
+  if (!committed || !audit) {
+    return { ok: false, code: 'state_changed', message: 'The auction moved on while undoing - check the current lot and try again' };
+  }
+
+  return { ok: true, entry: audit };
+}
+
+export type RebuildResult =
+  | { ok: true; replay: AuctionReplay; events: AuctionLogEntry[]; restored: boolean }
+  | { ok: false; code: 'not_auctioneer' | 'state_changed'; message: string };
+
+/**
+ * Rebuilds a room's auction state from its `auction_events` log, and optionally writes it back
+ *
+ * Replay starts every team from the room's starting purse and runs each logged event
+ * through the rules engine at the time it was first applied. Without `restore` this
+ * only reports what the log says happened, for settling disputes. With `restore` the
+ * rebuilt state replaces the `auction_state` row, purses and squad sizes are reset to
+ * match it, and the restore is recorded in the audit log - all in one transaction, and
+ * only if the state has not changed since it was read, so a bid landing mid-restore
+ * refuses the restore rather than being overwritten half-way.
+ *
+ * @param input - Room, the user asking (must be the auctioneer) and whether to write the result back
+ * @returns The replay, the log it was built from and whether it was written back
+ */
+export async function rebuildAuctionState({
+  roomId,
+  userId,
+  restore = false
+}: {
+  roomId: string;
+  userId: string;
+  restore?: boolean;
+}): Promise<RebuildResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }, { data: events, error: eventsError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, budget_per_team, players_per_team, timer_seconds, status, settings')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('updated_at')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, team_id, team_short_name')
+      .eq('auction_room_id', roomId),
+    supabaseAdmin
+      .from('auction_events')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('seq', { ascending: true })
+  ]);
+
+  if (roomError || stateError || participantsError || eventsError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId) {
+    return { ok: false, code: 'not_auctioneer', message: 'Only the auctioneer can rebuild the auction state' };
+  }
+
+  const log = (events || []) as AuctionLogEntry[];
+  const replay = replayAuctionLog(
+    roomId,
+    log,
+    getRoomRules(room),
+    (participants || []).map(p => ({
+      participantId: p.id,
+      teamId: p.team_id || '',
+      teamCode: p.team_short_name || undefined,
+      budgetRemaining: room.budget_per_team
+    }))
+  );
+
+  if (!restore) {
+    return { ok: true, replay, events: log, restored: false };
+  }
+
+  // Every column except the row's own keys
+  const stateColumns: Partial<AuctionStateRecord> = { ...replay.state };
+  delete stateColumns.id;
+  delete stateColumns.room_id;
+
+  const { data: actor } = await supabaseAdmin
+    .from('users_profiles')
+    .select('full_name')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const { committed } = await commitTransition({
+    roomId,
+    guard: { updated_at: state.updated_at },
+    changes: { ...stateColumns, updated_at: new Date().toISOString() },
+    teams: replay.teams.map(team => ({
+      id: team.participantId,
+      budget_remaining: team.budgetRemaining,
+      squad_size: getSquadCount(replay.state, team.participantId)
+    })),
+    audit: {
+      actor_id: userId,
+      action: 'restore_state',
+      player_id: replay.state.current_player_id,
+      details: { actor_name: actor?.full_name || 'Auctioneer', events: replay.applied }
+    }
+  });
+
+  if (!committed) {
+    return { ok: false, code: 'state_changed', message: 'The auction changed while restoring - rebuild again to restore the latest log' };
+  }
+
+  return { ok: true, replay, events: log, restored: true };
+}
+
+/**
+ * A bot franchise as stored in `auction_participants`
+ */
+export interface BotParticipant {
+  id: string;
+  team_id: string;
+  team_short_name: string | null;
+  bot_personality: BotPersonality;
+  budget_remaining: number;
+}
+
+/**
+ * Outcome of adding or removing bot franchises
+ */
+export type BotsResult =
+  | { ok: true; bots: BotParticipant[] }
+  | { ok: false; code: 'not_auctioneer' | 'auction_started' | 'room_full' | 'not_bot'; message: string };
+
+/**
+ * Fills empty franchises with bots of one personality, in `IPL_TEAMS` order
+ * Only the auctioneer can add bots, only before the auction starts, and never past the room's team limit.
+ *
+ * @param input - Room, the user asking (must be the auctioneer), personality and how many bots (all open seats when not set)
+ * @returns The bots that were added, or why none were
+ */
+export async function addBots({
+  roomId,
+  userId,
+  personality,
+  count
+}: {
+  roomId: string;
+  userId: string;
+  personality: BotPersonality;
+  count?: number;
+}): Promise<BotsResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }, { data: participants, error: participantsError }, { data: franchises, error: franchisesError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, status, budget_per_team, max_participants')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('is_active')
+      .eq('room_id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id, team_id')
+      .eq('auction_room_id', roomId),
+    supabaseAdmin
+      .from('ipl_franchises')
+      .select('id, short_name')
+  ]);
+
+  if (roomError || stateError || participantsError || franchisesError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId) {
+    return { ok: false, code: 'not_auctioneer', message: 'Only the auctioneer can add bot franchises' };
+  }
+  if (room.status !== 'waiting' || state.is_active) {
+    return { ok: false, code: 'auction_started', message: 'Bots can only be added before the auction starts' };
+  }
+
+  const takenTeamIds = new Set((participants || []).map(p => p.team_id));
+  const openSeats = Math.max(0, (room.max_participants || IPL_TEAMS.length) - (participants || []).length);
+  const openFranchises = IPL_TEAMS
+    .map(team => (franchises || []).find(f => f.short_name === team.shortName))
+    .filter((franchise): franchise is { id: string; short_name: string } => !!franchise && !takenTeamIds.has(franchise.id))
+    .slice(0, Math.min(openSeats, count ?? openSeats));
+
+  if (openFranchises.length === 0) {
+    return { ok: false, code: 'room_full', message: 'Every franchise in this room is already taken' };
+  }
+
+  const { data: bots, error: insertError } = await supabaseAdmin
+    .from('auction_participants')
+    .insert(openFranchises.map(franchise => ({
+      auction_room_id: roomId,
+      user_id: null,
+      team_id: franchise.id,
+      team_short_name: franchise.short_name,
+      budget_remaining: room.budget_per_team,
+      is_auctioneer: false,
+      is_bot: true,
+      bot_personality: personality
+    })))
+    .select('id, team_id, team_short_name, bot_personality, budget_remaining');
+
+  if (insertError) throw insertError;
+
+  console.log('🤖 Added bot franchises:', openFranchises.map(f => f.short_name).join(', '));
+  return { ok: true, bots: (bots || []) as BotParticipant[] };
+}
+
+/**
+ * Removes a bot franchise before the auction starts, freeing its franchise for a human
+ *
+ * @param input - Room, the user asking (must be the auctioneer) and the bot's participant ID
+ * @returns The room's remaining bots, or why the bot was kept
+ */
+export async function removeBot({
+  roomId,
+  userId,
+  participantId
+}: {
+  roomId: string;
+  userId: string;
+  participantId: string;
+}): Promise<BotsResult> {
+  const [{ data: room, error: roomError }, { data: state, error: stateError }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, creator_id, status')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_state')
+      .select('is_active')
+      .eq('room_id', roomId)
+      .single()
+  ]);
+
+  if (roomError || stateError || !room || !state) {
+    throw new Error('Auction room not found');
+  }
+
+  if (room.creator_id !== userId) {
+    return { ok: false, code: 'not_auctioneer', message: 'Only the auctioneer can remove bot franchises' };
+  }
+  if (room.status !== 'waiting' || state.is_active) {
+    return { ok: false, code: 'auction_started', message: 'Bots stay in once the auction has started' };
+  }
+
+  const { data: removed, error: deleteError } = await supabaseAdmin
+    .from('auction_participants')
+    .delete()
+    .eq('auction_room_id', roomId)
+    .eq('id', participantId)
+    .eq('is_bot', true)
+    .select('id');
+
+  if (deleteError) throw deleteError;
+  if (!removed || removed.length === 0) {
+    return { ok: false, code: 'not_bot', message: 'That team is not a bot franchise' };
+  }
+
+  const { data: bots, error: botsError } = await supabaseAdmin
+    .from('auction_participants')
+    .select('id, team_id, team_short_name, bot_personality, budget_remaining')
+    .eq('auction_room_id', roomId)
+    .eq('is_bot', true);
+
+  if (botsError) throw botsError;
+  return { ok: true, bots: (bots || []) as BotParticipant[] };
+}
+
+/**
+ * Outcome of a co-owner invite, acceptance or removal
+ */
+export type CoOwnerResult =
+  | { ok: true; participantId: string; code?: string }
+  | { ok: false; code: 'not_owner' | 'auction_completed' | 'invalid_invite' | 'already_in_room' | 'team_full' | 'not_co_owner'; message: string };
+
+/**
+ * Creates a fresh invite code for the caller's franchise, replacing any earlier one
+ * Only the primary owner of a human franchise can invite, and not once the auction is over.
+ *
+ * @param input - Room and the user asking (must be the team's primary owner)
+ * @returns The team and its new invite code, or why no invite was made
+ */
+export async function createCoOwnerInvite({ roomId, userId }: { roomId: string; userId: string }): Promise<CoOwnerResult> {
+  const [{ data: room, error: roomError }, { data: participant }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, status')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_participants')
+      .select('id')
+      .eq('auction_room_id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  ]);
+
+  if (roomError || !room) {
+    throw new Error('Auction room not found');
+  }
+
+  if (!participant) {
+    return { ok: false, code: 'not_owner', message: 'Only a franchise\'s primary owner can invite co-owners' };
+  }
+  if (room.status === 'completed') {
+    return { ok: false, code: 'auction_completed', message: 'This auction has ended' };
+  }
+
+  const code = crypto.randomUUID();
+  const { error: upsertError } = await supabaseAdmin
+    .from('auction_co_owner_invites')
+    .upsert({
+      participant_id: participant.id,
+      room_id: roomId,
+      code,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'participant_id' });
+
+  if (upsertError) throw upsertError;
+  return { ok: true, participantId: participant.id, code };
+}
+
+/**
+ * Joins the caller to the franchise an invite code belongs to
+ * The caller must not already own or co-own a team in the room, and the team must have room for another co-owner.
+ *
+ * @param input - Room, the user accepting and the invite code
+ * @returns The team now co-owned, or why the invite was refused
+ */
+export async function acceptCoOwnerInvite({
+  roomId,
+  userId,
+  code
+}: {
+  roomId: string;
+  userId: string;
+  code: string;
+}): Promise<CoOwnerResult> {
+  const [{ data: room, error: roomError }, { data: invite }] = await Promise.all([
+    supabaseAdmin
+      .from('auction_rooms')
+      .select('id, status')
+      .eq('id', roomId)
+      .single(),
+    supabaseAdmin
+      .from('auction_co_owner_invites')
+      .select('participant_id')
+      .eq('room_id', roomId)
+      .eq('code', code)
+      .maybeSingle()
+  ]);
+
+  if (roomError || !room) {
+    throw new Error('Auction room not found');
+  }
+
+  if (!invite) {
+    return { ok: false, code: 'invalid_invite', message: 'This invite link is no longer valid - ask the team owner for a new one' };
+  }
+  if (room.status === 'completed') {
+    return { ok: false, code: 'auction_completed', message: 'This auction has ended' };
+  }
+
+  const existingTeam = await findUserTeam<{ id: string }>(roomId, userId, 'id');
+  if (existingTeam) {
+    return existingTeam.id === invite.participant_id
+      ? { ok: true, participantId: existingTeam.id }
+      : { ok: false, code: 'already_in_room', message: 'You already manage another franchise in this auction' };
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from('auction_co_owners')
+    .select('id', { count: 'exact', head: true })
+    .eq('participant_id', invite.participant_id);
+
+  if (countError) throw countError;
+  if ((count || 0) >= MAX_CO_OWNERS_PER_TEAM) {
+    return { ok: false, code: 'team_full', message: `A franchise can have at most ${MAX_CO_OWNERS_PER_TEAM} co-owners` };
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('auction_co_owners')
+    .insert({ room_id: roomId, participant_id: invite.participant_id, user_id: userId });
+
+  // The count above is a friendly early answer; the database trigger settles two acceptances racing for the last seat
+  if (insertError?.code === '23514') {
+    return { ok: false, code: 'team_full', message: `A franchise can have at most ${MAX_CO_OWNERS_PER_TEAM} co-owners` };
+  }
+  if (insertError) throw insertError;
+
+  console.log('🤝 Co-owner joined:', { roomId, participantId: invite.participant_id });
+  return { ok: true, participantId: invite.participant_id };
+}
+
+/**
+ * Takes a co-owner off the caller's franchise; only the primary owner can do this
+ *
+ * @param input - Room, the user asking (must be the team's primary owner) and the co-owner's user ID
+ * @returns The team, or why the co-owner was kept
+ */
+export async function removeCoOwner({
+  roomId,
+  userId,
+  coOwnerUserId
+}: {
+  roomId: string;
+  userId: string;
+  coOwnerUserId: string;
+}): Promise<CoOwnerResult> {
+  const { data: participant } = await supabaseAdmin
+    .from('auction_participants')
+    .select('id')
+    .eq('auction_room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!participant) {
+    return { ok: false, code: 'not_owner', message: 'Only a franchise\'s primary owner can remove co-owners' };
+  }
+
+  const { data: removed, error: deleteError } = await supabaseAdmin
+    .from('auction_co_owners')
+    .delete()
+    .eq('participant_id', participant.id)
+    .eq('user_id', coOwnerUserId)
+    .select('id');
+
+  if (deleteError) throw deleteError;
+  if (!removed || removed.length === 0) {
+    return { ok: false, code: 'not_co_owner', message: 'That user is not a co-owner of your franchise' };
+  }
+
+  // Their auto-bid ceilings were set for the team, so they go with them
+  await supabaseAdmin
+    .from('auction_auto_bids')
+    .delete()
+    .eq('participant_id', participant.id)
+    .eq('user_id', coOwnerUserId);
+
+  return { ok: true, participantId: participant.id };
+}
@@ -1,60 +1,41 @@
 import { supabase } from '@/lib/supabase';
-
-interface BidData {
-  roomId: string;
-  playerId: number;
-  teamId: string;
-  bidAmount: number;
+import type { AuctionBidRecord } from '@/types/auction';
+
+/**
+ * Loads the bids on one player, newest first
+ *
+ * @param roomId - The auction room
+ * @param playerId - The player bid on
+ * @param limit - Most bids to return; all of them when not set
+ */
+export async function getBiddingHistory(roomId: string, playerId: string, limit?: number) {
+  try {
+    let query = supabase
+      .from('auction_bids')
+      .select('id, room_id, player_id, bidder_id, team_id, bid_amount, is_winning_bid, is_auto_bid, created_at')
+      .eq('room_id', roomId)
+      .eq('player_id', playerId)
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching bidding history:', error);
+      return { success: false, error, data: [] as AuctionBidRecord[] };
+    }
+
+    return { success: true, data: (data || []) as AuctionBidRecord[] };
+  } catch (error) {
+    console.error('Error fetching bidding history:', error);
+    return { success: false, error, data: [] as AuctionBidRecord[] };
+  }
 }
 
-// COMMENTED OUT: All bidding history and player queue logic is disabled for maintenance
-// export async function insertBid({ roomId, playerId, teamId, bidAmount }: BidData) {
-//   try {
-//     const { data, error } = await supabase
-//       .from('bidding_history')
-//       .insert({
-//         room_id: roomId,
-//         player_id: playerId,
-//         team_id: teamId,
-//         bid_amount: bidAmount,
-//         bid_time: new Date().toISOString()
-//       })
-//       .select();
-
-//     if (error) {
-//       console.error('Error inserting bid:', error);
-//       return { success: false, error };
-//     }
-
-//     return { success: true, data };
-//   } catch (error) {
-//     console.error('Error inserting bid:', error);
-//     return { success: false, error };
-//   }
-// }
-
-// export async function getBiddingHistory(roomId: string, playerId: number, limit: number = 10) {
-//   try {
-//     const { data, error } = await supabase
-//       .from('bidding_history')
-//       .select('*')
-//       .eq('room_id', roomId)
-//       .eq('player_id', playerId)
-//       .order('bid_time', { ascending: false })
-//       .limit(limit);
-
-//     if (error) {
-//       console.error('Error fetching bidding history:', error);
-//       return { success: false, error };
-//     }
-
-//     return { success: true, data };
-//   } catch (error) {
-//     console.error('Error fetching bidding history:', error);
-//     return { success: false, error };
-//   }
-// }
-
+// COMMENTED OUT: Player queue logic is disabled for maintenance
 // Player queue management functions
 // export async function getPlayerQueue(roomId: string) {
 //   try {
@@ -154,14 +135,6 @@ interface BidData {
 //   }
 // }
 
-export async function insertBid({ roomId, playerId, teamId, bidAmount }: BidData) {
-  return { success: false, error: 'Bidding history is disabled.' };
-}
-
-export async function getBiddingHistory(roomId: string, playerId: number, limit: number = 10) {
-  return { success: false, data: [] };
-}
-
 export async function getPlayerQueue(roomId: string) {
   return { success: false, data: [] };
 }
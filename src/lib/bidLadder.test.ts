@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeBidLadder,
+  getBidIncrement,
+  getHighestBidUpTo,
+  getMinimumBid,
+  getNextValidBids,
+  getRoomBidLadder,
+  isOnLadder,
+  validateBidLadder,
+  IPL_BID_LADDER
+} from '@/lib/bidLadder';
+import type { BidIncrementStep } from '@/types/auction';
+
+const FLAT_TEN: BidIncrementStep[] = [{ upTo: null, increment: 10 }];
+
+describe('getBidIncrement and getMinimumBid', () => {
+  it('uses the slab the current bid is in', () => {
+    expect(getBidIncrement(95)).toBe(5);
+    expect(getBidIncrement(100)).toBe(10);
+    expect(getBidIncrement(480)).toBe(20);
+    expect(getBidIncrement(500)).toBe(25);
+  });
+
+  it('opens at the base price and then climbs one rung', () => {
+    expect(getMinimumBid(0, 30)).toBe(30);
+    expect(getMinimumBid(95, 30)).toBe(100);
+    expect(getMinimumBid(100, 30)).toBe(110);
+  });
+
+  it('lists the next rungs across a slab boundary', () => {
+    expect(getNextValidBids(90, 20)).toEqual([95, 100, 110, 120]);
+    expect(getNextValidBids(0, 20, FLAT_TEN, 3)).toEqual([20, 30, 40]);
+  });
+});
+
+describe('isOnLadder and getHighestBidUpTo', () => {
+  it('accepts rungs counted from the base price, including jump bids', () => {
+    expect(isOnLadder(30, 30)).toBe(true);
+    expect(isOnLadder(110, 30)).toBe(true);
+    expect(isOnLadder(107, 30)).toBe(false);
+    expect(isOnLadder(25, 30)).toBe(false);
+  });
+
+  it('turns a ceiling into the highest rung it can reach', () => {
+    expect(getHighestBidUpTo(107, 30)).toBe(100);
+    expect(getHighestBidUpTo(110, 30)).toBe(110);
+    expect(getHighestBidUpTo(25, 30)).toBe(0);
+  });
+});
+
+describe('room ladders', () => {
+  it('reports the first problem with a custom ladder', () => {
+    expect(validateBidLadder(IPL_BID_LADDER)).toBeNull();
+    expect(validateBidLadder([])).toBe('Add at least one increment slab');
+    expect(validateBidLadder([{ upTo: 100, increment: 5 }])).toBe('The last slab must apply to all bids above the previous one');
+    expect(validateBidLadder([{ upTo: 100, increment: 5 }, { upTo: 50, increment: 10 }, { upTo: null, increment: 20 }]))
+      .toBe('Slab 2: must apply up to more than ₹1Cr');
+  });
+
+  it("uses a room's own ladder only when it is valid", () => {
+    expect(getRoomBidLadder({ bidIncrements: FLAT_TEN })).toBe(FLAT_TEN);
+    expect(getRoomBidLadder({ bidIncrements: [{ upTo: 100, increment: 0 }] })).toBe(IPL_BID_LADDER);
+    expect(getRoomBidLadder(null)).toBe(IPL_BID_LADDER);
+  });
+
+  it('describes a ladder in one line', () => {
+    expect(describeBidLadder(IPL_BID_LADDER)).toBe('₹5L to ₹1Cr · ₹10L to ₹2Cr · ₹20L to ₹5Cr · ₹25L beyond');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Bid increment ladders
+ * A ladder is a list of slabs: while the current bid is below a slab's `upTo`, every raise
+ * is that slab's increment. Each room stores its ladder in `auction_rooms.settings.bidIncrements`.
+ */
+
+import { addMoney, formatMoney, Lakhs, roundMoney } from '@/lib/money';
+import type { AuctionRoomSettings, BidIncrementStep } from '@/types/auction';
+
+/**
+ * The IPL ladder: ₹5L up to ₹1Cr, ₹10L up to ₹2Cr, ₹20L up to ₹5Cr, ₹25L beyond
+ */
+export const IPL_BID_LADDER: BidIncrementStep[] = [
+  { upTo: 100, increment: 5 },
+  { upTo: 200, increment: 10 },
+  { upTo: 500, increment: 20 },
+  { upTo: null, increment: 25 }
+];
+
+/**
+ * The ladder a room uses - its own if it has a valid one, otherwise the IPL ladder
+ */
+export const getRoomBidLadder = (settings?: Partial<AuctionRoomSettings> | null): BidIncrementStep[] => {
+  const ladder = settings?.bidIncrements;
+  return ladder && ladder.length > 0 && !validateBidLadder(ladder) ? ladder : IPL_BID_LADDER;
+};
+
+/** Upper bound on ladder walks, so a bad ladder can never hang the page */
+const MAX_LADDER_STEPS = 5000;
+
+/**
+ * Minimum raise over the current bid
+ *
+ * @param currentBid - Current bid in lakhs
+ * @param ladder - Room's increment ladder
+ * @returns Increment in lakhs
+ *
+ * @example
+ * ```typescript
+ * getBidIncrement(95)  // Returns 5
+ * getBidIncrement(100) // Returns 10
+ * ```
+ */
+export const getBidIncrement = (currentBid: Lakhs, ladder: BidIncrementStep[] = IPL_BID_LADDER): Lakhs => {
+  const step = ladder.find(s => s.upTo === null || currentBid < s.upTo) || ladder[ladder.length - 1];
+  return step?.increment || IPL_BID_LADDER[IPL_BID_LADDER.length - 1].increment;
+};
+
+/**
+ * The lowest bid that would currently be accepted
+ * Opening bids start at the base price; after that the next rung of the ladder
+ */
+export const getMinimumBid = (currentBid: Lakhs, basePrice: Lakhs, ladder: BidIncrementStep[] = IPL_BID_LADDER): Lakhs =>
+  currentBid > 0 ? addMoney(currentBid, getBidIncrement(currentBid, ladder)) : roundMoney(basePrice);
+
+/**
+ * The next few valid bids, for quick-bid buttons
+ *
+ * @param currentBid - Current bid in lakhs (0 if nobody has bid)
+ * @param basePrice - Player's base price in lakhs
+ * @param ladder - Room's increment ladder
+ * @param count - How many bids to return
+ * @returns Ascending list of valid bid amounts in lakhs
+ */
+export const getNextValidBids = (
+  currentBid: Lakhs,
+  basePrice: Lakhs,
+  ladder: BidIncrementStep[] = IPL_BID_LADDER,
+  count: number = 4
+): Lakhs[] => {
+  const bids: Lakhs[] = [getMinimumBid(currentBid, basePrice, ladder)];
+  while (bids.length < count) {
+    const last = bids[bids.length - 1];
+    bids.push(addMoney(last, getBidIncrement(last, ladder)));
+  }
+  return bids;
+};
+
+/**
+ * Checks a bid lands on a rung of the ladder that starts at the player's base price
+ * Jump bids are fine as long as they land on a rung
+ *
+ * @param amount - Proposed bid in lakhs
+ * @param basePrice - Player's base price in lakhs
+ * @param ladder - Room's increment ladder
+ */
+export const isOnLadder = (amount: Lakhs, basePrice: Lakhs, ladder: BidIncrementStep[] = IPL_BID_LADDER): boolean => {
+  const target = roundMoney(amount);
+  let rung = roundMoney(basePrice);
+
+  for (let i = 0; i < MAX_LADDER_STEPS && rung < target; i++) {
+    rung = addMoney(rung, getBidIncrement(rung, ladder));
+  }
+  return rung === target;
+};
+
+/**
+ * The highest rung at or below an amount, on the ladder that starts at the player's base price
+ * Turns a proxy ceiling into the most it can actually bid
+ *
+ * @param limit - Most the bidder will pay, in lakhs
+ * @param basePrice - Player's base price in lakhs
+ * @param ladder - Room's increment ladder
+ * @returns The rung in lakhs, or 0 when the limit is below the base price
+ */
+export const getHighestBidUpTo = (limit: Lakhs, basePrice: Lakhs, ladder: BidIncrementStep[] = IPL_BID_LADDER): Lakhs => {
+  const target = roundMoney(limit);
+  let rung = roundMoney(basePrice);
+  if (rung > target) return 0;
+
+  for (let i = 0; i < MAX_LADDER_STEPS; i++) {
+    const next = addMoney(rung, getBidIncrement(rung, ladder));
+    if (next > target) break;
+    rung = next;
+  }
+  return rung;
+};
+
+/**
+ * Checks a custom ladder is usable
+ *
+ * @param ladder - Slabs in ascending order, the last one open-ended
+ * @returns A message describing the first problem, or null if the ladder is valid
+ */
+export const validateBidLadder = (ladder: BidIncrementStep[]): string | null => {
+  if (ladder.length === 0) return 'Add at least one increment slab';
+
+  for (let i = 0; i < ladder.length; i++) {
+    const step = ladder[i];
+    const isLast = i === ladder.length - 1;
+
+    if (!(step.increment > 0)) return `Slab ${i + 1}: the increment must be more than ₹0L`;
+    if (isLast && step.upTo !== null) return 'The last slab must apply to all bids above the previous one';
+    if (!isLast && (step.upTo === null || !(step.upTo > 0))) return `Slab ${i + 1}: enter the amount this increment applies up to`;
+    if (i > 0 && step.upTo !== null && ladder[i - 1].upTo !== null && step.upTo <= (ladder[i - 1].upTo as number)) {
+      return `Slab ${i + 1}: must apply up to more than ${formatMoney(ladder[i - 1].upTo as number)}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * One-line description of a ladder, e.g. "₹5L to ₹1Cr · ₹10L to ₹2Cr · ₹25L beyond"
+ */
+export const describeBidLadder = (ladder: BidIncrementStep[]): string =>
+  ladder
+    .map(step => `${formatMoney(step.increment)} ${step.upTo === null ? 'beyond' : `to ${formatMoney(step.upTo)}`}`)
+    .join(' · ');
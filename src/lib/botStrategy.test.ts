@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { applyAuctionEvent, AuctionEvent, AuctionRules, DEFAULT_AUCTION_RULES } from '@/lib/auctionEngine';
+import { createEmptyAuctionState } from '@/lib/auctionLog';
+import { chooseBotBid, getBotValuation, getSquadTargets, BotTeam } from '@/lib/botStrategy';
+import type { AuctionPlayer, AuctionStateRecord } from '@/types/auction';
+
+const NOW = '2026-10-19T10:00:00.000Z';
+
+const RULES: AuctionRules = { ...DEFAULT_AUCTION_RULES, playersPerTeam: 3, minSquadSize: 3, maxOverseasPlayers: 1 };
+
+const PLAYERS: AuctionPlayer[] = [
+  { id: 'p1', name: 'Opener', base_price: 20, role: 'Opening Batsman' },
+  { id: 'p2', name: 'Quick', base_price: 50, role: 'Fast Bowler', is_overseas: true },
+  { id: 'p3', name: 'Keeper', base_price: 30, role: 'Wicket-keeper Batsman' }
+];
+
+const CHASER: BotTeam = { participantId: 'pa', teamId: 'team-a', budgetRemaining: 1000, personality: 'aggressive' };
+const SAVER: BotTeam = { participantId: 'pb', teamId: 'team-b', budgetRemaining: 1000, personality: 'value_hunter' };
+const BOTS = [CHASER, SAVER];
+
+/**
+ * Applies an event and fails the test if the engine refused it
+ */
+function apply(state: AuctionStateRecord, event: AuctionEvent) {
+  const result = applyAuctionEvent(state, event, { rules: RULES, teams: BOTS, now: NOW });
+  if (!result.ok) throw new Error(`${event.type} refused: ${result.violation.message}`);
+  return result.state;
+}
+
+const openLot = (queue = PLAYERS) => apply(createEmptyAuctionState('room-1'), { type: 'start', queue });
+
+const bought = (id: string, role: string, is_overseas = false) => ({
+  id, name: id, role, is_overseas, final_price: 20, sold_to_team: 'team-a', sold_to_participant: 'pa'
+});
+
+describe('getSquadTargets', () => {
+  it('wants at least one player of every category', () => {
+    expect(getSquadTargets(3)).toEqual({ 'Batter': 1, 'Wicket-keeper': 1, 'All-rounder': 1, 'Bowler': 1 });
+    expect(getSquadTargets(20)).toEqual({ 'Batter': 7, 'Wicket-keeper': 2, 'All-rounder': 5, 'Bowler': 6 });
+  });
+});
+
+describe('getBotValuation', () => {
+  const state = openLot();
+
+  it('values a player more the more aggressive the personality', () => {
+    const chaser = getBotValuation(state, CHASER, PLAYERS[0], RULES);
+    const saver = getBotValuation(state, { ...CHASER, personality: 'value_hunter' }, PLAYERS[0], RULES);
+
+    expect(chaser).toBeGreaterThan(saver);
+    expect(saver).toBeGreaterThan(PLAYERS[0].base_price);
+  });
+
+  it('values a role the squad has already filled at less', () => {
+    const withBatter = { ...state, sold_players: [bought('x1', 'Opening Batsman')] };
+
+    expect(getBotValuation(withBatter, CHASER, PLAYERS[0], RULES)).toBeLessThan(getBotValuation(state, CHASER, PLAYERS[0], RULES));
+  });
+
+  it('never goes past what the purse can spare for the slots left', () => {
+    // 100 left, two more slots to fill at a cheapest base price of 30
+    expect(getBotValuation(state, { ...CHASER, budgetRemaining: 100 }, PLAYERS[0], RULES)).toBe(40);
+  });
+
+  it('will not buy for a full squad or past the overseas quota', () => {
+    const full = { ...state, sold_players: [bought('x1', 'Opening Batsman'), bought('x2', 'Fast Bowler'), bought('x3', 'Wicket-keeper Batsman')] };
+    const withOverseas = { ...state, sold_players: [bought('x1', 'Opening Batsman', true)] };
+
+    expect(getBotValuation(full, CHASER, PLAYERS[0], RULES)).toBe(0);
+    expect(getBotValuation(withOverseas, CHASER, PLAYERS[1], RULES)).toBe(0);
+  });
+});
+
+describe('chooseBotBid', () => {
+  it('lets the bot valuing the player highest open at the base price', () => {
+    expect(chooseBotBid(openLot(), BOTS, RULES)).toEqual({ participantId: 'pa', amount: 20 });
+  });
+
+  it('skips the leading bot and bots that passed', () => {
+    const led = apply(openLot(), { type: 'bid', participantId: 'pa', bidderId: null, amount: 20 });
+    expect(chooseBotBid(led, BOTS, RULES)).toEqual({ participantId: 'pb', amount: 25 });
+
+    const passed = apply(led, { type: 'pass', participantId: 'pb' });
+    expect(chooseBotBid(passed, BOTS, RULES)).toBeNull();
+  });
+
+  it('does not bid while paused or past every valuation', () => {
+    const lot = openLot();
+
+    expect(chooseBotBid(apply(lot, { type: 'pause' }), BOTS, RULES)).toBeNull();
+    expect(chooseBotBid({ ...lot, current_bid: 500, leading_team: 'team-c' }, BOTS, RULES)).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Bidding strategy for computer-controlled franchises
+ * A bot values the player up by role, base price and what its squad still needs, caps that
+ * by its budget plan, and bids the next rung of the ladder while the price is below its value.
+ * Everything here is pure; the server places the bid through the same rules as a human's.
+ */
+
+import {
+  getCurrentPlayer,
+  getMaxAllowableBid,
+  getOverseasCount,
+  getSquadCount,
+  AuctionRules,
+  AuctionTeam
+} from '@/lib/auctionEngine';
+import { getMinimumBid } from '@/lib/bidLadder';
+import { roundMoney, Lakhs } from '@/lib/money';
+import { countByCategory, getPlayerCategory, PLAYER_CATEGORIES } from '@/lib/playerRoles';
+import type { AuctionPlayer, AuctionStateRecord, BotPersonality, PlayerCategory } from '@/types/auction';
+
+/**
+ * How a personality turns a player into a price
+ */
+export interface BotProfile {
+  label: string;
+  description: string;
+  /** Value of a wanted player as a multiple of base price */
+  valueMultiplier: number;
+  /** Extra value per open slot in the player's category (up to three slots) */
+  needBonus: number;
+  /** Most the bot spends on one player, as a multiple of its purse per open slot */
+  slotShare: number;
+}
+
+export const BOT_PERSONALITIES: Record<BotPersonality, BotProfile> = {
+  aggressive: {
+    label: 'Aggressive',
+    description: 'Chases the stars and pays up for the roles it needs',
+    valueMultiplier: 3,
+    needBonus: 0.5,
+    slotShare: 3
+  },
+  balanced: {
+    label: 'Balanced',
+    description: 'Spreads its purse evenly across the squad',
+    valueMultiplier: 2,
+    needBonus: 0.35,
+    slotShare: 2
+  },
+  value_hunter: {
+    label: 'Value hunter',
+    description: 'Rarely goes far past base price and waits for bargains',
+    valueMultiplier: 1.4,
+    needBonus: 0.2,
+    slotShare: 1.3
+  }
+};
+
+/**
+ * Share of the squad a bot aims to fill from each category
+ */
+const SQUAD_PLAN: Record<PlayerCategory, number> = {
+  'Batter': 0.35,
+  'Wicket-keeper': 0.1,
+  'All-rounder': 0.25,
+  'Bowler': 0.3
+};
+
+/**
+ * A bot franchise as the strategy sees it
+ */
+export interface BotTeam extends AuctionTeam {
+  personality: BotPersonality;
+}
+
+/**
+ * How many players of each category a bot wants in a squad of the given size (at least one of each)
+ */
+export function getSquadTargets(playersPerTeam: number): Record<PlayerCategory, number> {
+  return PLAYER_CATEGORIES.reduce((targets, category) => {
+    targets[category] = Math.max(1, Math.round(playersPerTeam * SQUAD_PLAN[category]));
+    return targets;
+  }, {} as Record<PlayerCategory, number>);
+}
+
+/**
+ * A stable number in [0, 1) for a bot and player, so bots disagree a little without true randomness
+ */
+function spread(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return (hash % 1000) / 1000;
+}
+
+/**
+ * The most a bot will pay for a player
+ *
+ * @param state - Current `auction_state` row (for the bot's squad so far)
+ * @param bot - The bot franchise
+ * @param player - The player up for auction
+ * @param rules - Room rules
+ * @returns Highest bid in lakhs; 0 when the bot cannot or will not buy
+ *
+ * @example
+ * ```typescript
+ * getBotValuation(state, bot, currentPlayer, rules) // e.g. 340 for a needed ₹1Cr all-rounder
+ * ```
+ */
+export function getBotValuation(state: AuctionStateRecord, bot: BotTeam, player: AuctionPlayer, rules: AuctionRules): Lakhs {
+  const profile = BOT_PERSONALITIES[bot.personality];
+  const squadCount = getSquadCount(state, bot.participantId);
+  if (squadCount >= rules.playersPerTeam) return 0;
+  if (player.is_overseas && getOverseasCount(state, bot.participantId) >= rules.maxOverseasPlayers) return 0;
+
+  const squad = (state.sold_players || []).filter(record => record.sold_to_participant === bot.participantId);
+  const category = getPlayerCategory(player.role);
+  const need = category
+    ? Math.max(0, getSquadTargets(rules.playersPerTeam)[category] - countByCategory(squad)[category])
+    : 0;
+
+  // A role the squad has already filled is worth half
+  const needFactor = need > 0 ? 1 + profile.needBonus * Math.min(need, 3) : 0.5;
+  const basePrice = player.original_base_price ?? player.base_price;
+  const qualityFactor = basePrice >= 200 ? 1.25 : basePrice >= 100 ? 1.1 : 1;
+  const value = basePrice * profile.valueMultiplier * needFactor * qualityFactor * (0.85 + 0.3 * spread(`${bot.participantId}:${player.id}`));
+
+  const openSlots = Math.max(1, rules.playersPerTeam - squadCount);
+  const plannedSpend = Math.max((bot.budgetRemaining / openSlots) * profile.slotShare, Number(state.base_price) || 0);
+
+  return roundMoney(Math.max(0, Math.min(value, plannedSpend, getMaxAllowableBid(state, bot, rules))));
+}
+
+/**
+ * Picks the bot that should bid next on the current player, if any
+ * Only bots that are not leading and have not passed are considered; the one valuing the
+ * player highest above the next bid goes first.
+ *
+ * @param state - Current `auction_state` row
+ * @param bots - The room's bot franchises
+ * @param rules - Room rules
+ * @returns The bot and the amount to bid, or null when no bot wants to bid
+ */
+export function chooseBotBid(
+  state: AuctionStateRecord,
+  bots: BotTeam[],
+  rules: AuctionRules
+): { participantId: string; amount: Lakhs } | null {
+  const player = getCurrentPlayer(state);
+  if (!player || !state.is_active || state.is_paused || state.next_player_at) return null;
+
+  const nextBid = getMinimumBid(Number(state.current_bid) || 0, Number(state.base_price) || 0, rules.bidIncrements);
+
+  const best = bots
+    .filter(bot => bot.teamId !== state.leading_team && !(state.passed_teams || []).includes(bot.participantId))
+    .map(bot => ({ bot, value: getBotValuation(state, bot, player, rules) }))
+    .filter(({ value }) => value >= nextBid)
+    .sort((a, b) => b.value - a.value)[0];
+
+  return best ? { participantId: best.bot.participantId, amount: nextBid } : null;
+}
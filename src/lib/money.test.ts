@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { addMoney, formatMoney, fromRupees, parseMoney, subtractMoney, toRupees } from '@/lib/money';
+
+describe('parseMoney', () => {
+  it('reads plain amounts in the default unit and suffixed amounts in lakhs or crores', () => {
+    expect(parseMoney('75')).toBe(75);
+    expect(parseMoney('5000000', 'rupees')).toBe(50);
+    expect(parseMoney('₹1.5Cr')).toBe(150);
+    expect(parseMoney('2 crore')).toBe(200);
+    expect(parseMoney('85L')).toBe(85);
+    expect(parseMoney('Rs. 1,50,00,000', 'rupees')).toBe(150);
+    expect(parseMoney(1.5, 'crores')).toBe(150);
+  });
+
+  it('refuses negative, empty and malformed amounts', () => {
+    expect(parseMoney('')).toBeNull();
+    expect(parseMoney('-5')).toBeNull();
+    expect(parseMoney('1.5M')).toBeNull();
+    expect(parseMoney(-1)).toBeNull();
+    expect(parseMoney(Number.NaN)).toBeNull();
+  });
+});
+
+describe('formatMoney', () => {
+  it('shows lakhs below a crore and crores from there up, without trailing zeros', () => {
+    expect(formatMoney(0)).toBe('₹0L');
+    expect(formatMoney(50)).toBe('₹50L');
+    expect(formatMoney(12.5)).toBe('₹12.5L');
+    expect(formatMoney(100)).toBe('₹1Cr');
+    expect(formatMoney(125)).toBe('₹1.25Cr');
+    expect(formatMoney(12000)).toBe('₹120Cr');
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds and subtracts without float noise', () => {
+    expect(addMoney(0.1, 0.2)).toBe(0.3);
+    expect(subtractMoney(1000, 999.9)).toBe(0.1);
+    expect(addMoney(10, Number.NaN, 5)).toBe(15);
+  });
+
+  it('converts to and from rupees', () => {
+    expect(fromRupees(20000000)).toBe(200);
+    expect(toRupees(1.25)).toBe(125000);
+  });
+});
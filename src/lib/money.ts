@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Money helpers for CrickRush
+ * Every amount the app works with - base prices, bids, purses, sale prices - is held in
+ * lakhs (1 Cr = 100 L). Amounts from other sources are converted on the way in:
+ * the `players` table and `ipl_players.csv` store base prices in rupees.
+ */
+
+/**
+ * An amount of money in lakhs, the single unit used by auction state, bids and budgets
+ */
+export type Lakhs = number;
+
+/**
+ * Units an amount can arrive in
+ */
+export type MoneyUnit = 'paisa' | 'rupees' | 'lakhs' | 'crores';
+
+export const RUPEES_PER_LAKH = 100000;
+export const PAISA_PER_LAKH = RUPEES_PER_LAKH * 100;
+export const LAKHS_PER_CRORE = 100;
+
+const LAKHS_PER_UNIT: Record<MoneyUnit, number> = {
+  paisa: 1 / PAISA_PER_LAKH,
+  rupees: 1 / RUPEES_PER_LAKH,
+  lakhs: 1,
+  crores: LAKHS_PER_CRORE
+};
+
+/**
+ * Rounds to the nearest thousand rupees so repeated arithmetic never leaves float noise
+ */
+export const roundMoney = (amount: Lakhs): Lakhs => Math.round(amount * 100) / 100;
+
+/**
+ * Converts an amount in the given unit to lakhs
+ *
+ * @example
+ * ```typescript
+ * toLakhs(5000000, 'rupees') // Returns 50
+ * toLakhs(1.5, 'crores')     // Returns 150
+ * ```
+ */
+export const toLakhs = (amount: number, unit: MoneyUnit): Lakhs =>
+  roundMoney((Number(amount) || 0) * LAKHS_PER_UNIT[unit]);
+
+/** Converts rupees (as stored in the `players` table) to lakhs */
+export const fromRupees = (rupees: number): Lakhs => toLakhs(rupees, 'rupees');
+
+/** Converts paisa to lakhs */
+export const fromPaisa = (paisa: number): Lakhs => toLakhs(paisa, 'paisa');
+
+/** Converts crores to lakhs */
+export const fromCrores = (crores: number): Lakhs => toLakhs(crores, 'crores');
+
+/** Converts lakhs back to rupees, for writing to rupee-denominated columns */
+export const toRupees = (amount: Lakhs): number => Math.round(amount * RUPEES_PER_LAKH);
+
+/**
+ * Parses an amount typed by a user or read from a file
+ * Accepts plain numbers in `defaultUnit` and suffixed values like "50L", "₹1.5Cr", "2 crore" or "1,50,00,000"
+ *
+ * @param input - Raw value
+ * @param defaultUnit - Unit for values without a suffix
+ * @returns Amount in lakhs, or null if the value is not a valid non-negative amount
+ *
+ * @example
+ * ```typescript
+ * parseMoney('₹1.5Cr')             // Returns 150
+ * parseMoney('75')                 // Returns 75
+ * parseMoney('5000000', 'rupees')  // Returns 50
+ * ```
+ */
+export const parseMoney = (input: string | number, defaultUnit: MoneyUnit = 'lakhs'): Lakhs | null => {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input >= 0 ? toLakhs(input, defaultUnit) : null;
+  }
+
+  const match = input
+    .trim()
+    .toLowerCase()
+    .replace(/[₹,\s]/g, '')
+    .replace(/^rs\.?/, '')
+    .match(/^(\d+(?:\.\d+)?)(cr|crore|crores|l|lac|lakh|lakhs)?$/);
+
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const suffix = match[2];
+  if (!suffix) return toLakhs(value, defaultUnit);
+  return toLakhs(value, suffix.startsWith('c') ? 'crores' : 'lakhs');
+};
+
+/**
+ * Formats an amount for display, switching to crores from 1 Cr upwards
+ *
+ * @param amount - Amount in lakhs
+ * @returns Display string, e.g. "₹50L", "₹1.25Cr", "₹120Cr"
+ */
+export const formatMoney = (amount: Lakhs): string => {
+  const value = roundMoney(Number(amount) || 0);
+  if (value === 0) return '₹0L';
+
+  if (Math.abs(value) >= LAKHS_PER_CRORE) {
+    return `₹${Number((value / LAKHS_PER_CRORE).toFixed(2))}Cr`;
+  }
+  return `₹${Number(value.toFixed(2))}L`;
+};
+
+/** Adds amounts in lakhs */
+export const addMoney = (...amounts: Lakhs[]): Lakhs =>
+  roundMoney(amounts.reduce((total, amount) => total + (Number(amount) || 0), 0));
+
+/** Subtracts `amount` from `from`, both in lakhs */
+export const subtractMoney = (from: Lakhs, amount: Lakhs): Lakhs =>
+  roundMoney((Number(from) || 0) - (Number(amount) || 0));
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildPlayerUpserts, parseCsv, parsePlayerCsv } from '@/lib/playerImport';
+
+const KOHLI_ID = '11111111-1111-4111-8111-111111111111';
+const BUMRAH_ID = '22222222-2222-4222-8222-222222222222';
+const NEW_ID = '33333333-3333-4333-8333-333333333333';
+
+const EXISTING = [
+  { id: KOHLI_ID, name: 'Virat Kohli' },
+  { id: BUMRAH_ID, name: 'Jasprit Bumrah' }
+];
+
+/**
+ * Hands out predictable IDs for new players
+ */
+const idMaker = () => {
+  let next = 0;
+  return () => `new-${++next}`;
+};
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, doubled quotes and CRLF line endings', () => {
+    expect(parseCsv('name,description\r\n"Dhoni, MS","The ""finisher"""\r\n')).toEqual([
+      ['name', 'description'],
+      ['Dhoni, MS', 'The "finisher"']
+    ]);
+  });
+});
+
+describe('parsePlayerCsv', () => {
+  it('reads base prices in rupees or with a lakh/crore suffix, stored in lakhs', () => {
+    const { rows, errors } = parsePlayerCsv('name,role,base_price,country\nA,BAT,20000000,India\nB,BOWL,1.5Cr,Australia\nC,WK,50L,India');
+
+    expect(errors).toEqual([]);
+    expect(rows.map(row => row.base_price)).toEqual([200, 150, 50]);
+    expect(rows.map(row => row.is_overseas)).toEqual([false, true, false]);
+  });
+
+  it('reports missing columns and bad values by line', () => {
+    expect(parsePlayerCsv('name,role\nA,BAT').errors).toEqual([
+      { line: 1, column: 'base_price', message: 'Missing required column "base_price"' }
+    ]);
+
+    const { rows, errors } = parsePlayerCsv('id,name,role,base_price,is_capped\nnot-a-uuid,A,BAT,20L,\n,B,,0,maybe');
+    expect(rows).toEqual([]);
+    expect(errors.map(error => [error.line, error.column])).toEqual([
+      [2, 'id'],
+      [3, 'role'],
+      [3, 'base_price'],
+      [3, 'is_capped']
+    ]);
+  });
+
+  it('skips repeats of an earlier row by ID or name', () => {
+    const { rows, errors } = parsePlayerCsv(
+      `id,name,role,base_price\n${NEW_ID},A,BAT,20L\n${NEW_ID.toUpperCase()},B,BAT,20L\n,a ,BOWL,30L`
+    );
+
+    expect(rows.map(row => row.name)).toEqual(['A']);
+    expect(errors).toEqual([
+      { line: 3, message: 'Duplicate of line 2 - skipped' },
+      { line: 4, message: 'Duplicate of line 2 - skipped' }
+    ]);
+  });
+});
+
+describe('buildPlayerUpserts', () => {
+  it('updates stored players matched by ID or name and gives new players an ID', () => {
+    const parsed = parsePlayerCsv(`id,name,role,base_price\n${BUMRAH_ID},J Bumrah,BOWL,2Cr\n,Virat Kohli,BAT,2Cr\n,Rinku Singh,BAT,50L`);
+    const { records, inserted, updated, errors } = buildPlayerUpserts(parsed, EXISTING, idMaker());
+
+    expect(errors).toEqual([]);
+    expect(records.map(record => record.id)).toEqual([BUMRAH_ID, KOHLI_ID, 'new-1']);
+    expect(records[0]).toMatchObject({ name: 'J Bumrah', base_price: 20000000 });
+    expect([inserted, updated]).toEqual([1, 2]);
+  });
+
+  it('refuses a new ID for a name another stored player already has', () => {
+    const parsed = parsePlayerCsv(`id,name,role,base_price\n${NEW_ID},Virat Kohli,BAT,2Cr`);
+    const { records, errors } = buildPlayerUpserts(parsed, EXISTING, idMaker());
+
+    expect(records).toEqual([]);
+    expect(errors).toEqual([{ line: 2, column: 'name', message: `"Virat Kohli" already exists with ID ${KOHLI_ID}` }]);
+  });
+
+  it('skips a row that resolves to the same player as an earlier row', () => {
+    // Line 2 updates Kohli by ID under a new name; line 3 matches Kohli by his stored name
+    const parsed = parsePlayerCsv(`id,name,role,base_price\n${KOHLI_ID},V Kohli,BAT,2Cr\n,Virat Kohli,BAT,1Cr`);
+    const { records, inserted, updated, errors } = buildPlayerUpserts(parsed, EXISTING, idMaker());
+
+    expect(records.map(record => record.id)).toEqual([KOHLI_ID]);
+    expect([inserted, updated]).toEqual([0, 1]);
+    expect(errors).toEqual([{ line: 3, message: 'Same player as line 2 - skipped' }]);
+  });
+
+  it('only writes the columns the file has', () => {
+    const parsed = parsePlayerCsv('name,role,base_price\nVirat Kohli,BAT,2Cr');
+    const [record] = buildPlayerUpserts(parsed, EXISTING, idMaker()).records;
+
+    expect(Object.keys(record).sort()).toEqual(['base_price', 'id', 'name', 'role']);
+  });
+});
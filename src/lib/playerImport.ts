@@ -0,0 +1,291 @@
+/**
+ * @fileoverview CSV import for the player database
+ * Parses `ipl_players.csv` and custom player lists, checks every row and turns the valid ones into
+ * `players` rows. Base prices may be plain rupees (as in the shipped CSV) or carry a lakh/crore
+ * suffix; they are checked in lakhs and stored in rupees like the rest of the table.
+ */
+
+import { Lakhs, parseMoney, toRupees } from '@/lib/money';
+
+/** Columns every file must have */
+export const REQUIRED_PLAYER_COLUMNS = ['name', 'role', 'base_price'] as const;
+
+/** Columns that are imported when present; anything else (e.g. `created_at`) is ignored */
+export const OPTIONAL_PLAYER_COLUMNS = ['id', 'country', 'description', 'is_overseas', 'is_capped', 'previous_team'] as const;
+
+type PlayerColumn = typeof REQUIRED_PLAYER_COLUMNS[number] | typeof OPTIONAL_PLAYER_COLUMNS[number];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A checked player from the file
+ */
+export interface PlayerImportRow {
+  /** Line in the file, counting the header as line 1 */
+  line: number;
+  /** ID from the file; rows without one are matched to existing players by name */
+  id?: string;
+  name: string;
+  role: string;
+  country: string | null;
+  /** In lakhs */
+  base_price: Lakhs;
+  description: string | null;
+  is_overseas: boolean;
+  is_capped: boolean | null;
+  previous_team: string | null;
+}
+
+/**
+ * A problem with one line of the file; line 1 is the header
+ */
+export interface PlayerImportError {
+  line: number;
+  column?: string;
+  message: string;
+}
+
+/**
+ * Result of checking a file
+ */
+export interface PlayerCsvParse {
+  rows: PlayerImportRow[];
+  errors: PlayerImportError[];
+  /** Importable columns the file provides; only these are written so missing columns keep their stored values */
+  columns: PlayerColumn[];
+}
+
+/**
+ * A row ready to upsert into `players`
+ */
+export type PlayerUpsert = Partial<Omit<PlayerImportRow, 'line' | 'base_price'>> & {
+  id: string;
+  /** In rupees, as stored */
+  base_price: number;
+};
+
+/**
+ * Splits CSV text into rows of fields
+ * Handles quoted fields with commas, doubled quotes and line breaks, and CRLF line endings
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Reads TRUE/FALSE style values; empty means not given
+ */
+const parseBoolean = (value: string): boolean | null | undefined => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return null;
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return undefined;
+};
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Checks a player CSV and returns the rows that can be imported
+ * Rows with errors and repeats of an earlier row (same ID or name) are left out and reported
+ *
+ * @param text - Contents of the CSV file, header first
+ * @returns Valid rows, per-line errors and the importable columns present
+ *
+ * @example
+ * ```typescript
+ * const { rows, errors } = parsePlayerCsv(await file.text());
+ * ```
+ */
+export function parsePlayerCsv(text: string): PlayerCsvParse {
+  const [header, ...lines] = parseCsv(text);
+  const errors: PlayerImportError[] = [];
+
+  if (!header) {
+    return { rows: [], errors: [{ line: 1, message: 'The file is empty' }], columns: [] };
+  }
+
+  const headerIndex = new Map(header.map((column, index) => [column.trim().toLowerCase(), index]));
+  const missing = REQUIRED_PLAYER_COLUMNS.filter(column => !headerIndex.has(column));
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: missing.map(column => ({ line: 1, column, message: `Missing required column "${column}"` })),
+      columns: []
+    };
+  }
+
+  const columns = [...REQUIRED_PLAYER_COLUMNS, ...OPTIONAL_PLAYER_COLUMNS].filter(column => headerIndex.has(column));
+  const rows: PlayerImportRow[] = [];
+  const linesById = new Map<string, number>();
+  const linesByName = new Map<string, number>();
+
+  lines.forEach((fields, index) => {
+    const line = index + 2;
+    if (fields.every(field => field.trim() === '')) return;
+
+    const get = (column: PlayerColumn) => {
+      const position = headerIndex.get(column);
+      return position === undefined ? '' : (fields[position] || '').trim();
+    };
+    const rowErrors: PlayerImportError[] = [];
+
+    const id = get('id');
+    if (id && !UUID_PATTERN.test(id)) {
+      rowErrors.push({ line, column: 'id', message: `"${id}" is not a valid UUID` });
+    }
+
+    const name = get('name').replace(/\s+/g, ' ');
+    if (!name) rowErrors.push({ line, column: 'name', message: 'Name is required' });
+
+    const role = get('role');
+    if (!role) rowErrors.push({ line, column: 'role', message: 'Role is required' });
+
+    const rawPrice = get('base_price');
+    const basePrice = rawPrice ? parseMoney(rawPrice, 'rupees') : null;
+    if (basePrice === null || basePrice <= 0) {
+      rowErrors.push({ line, column: 'base_price', message: rawPrice ? `"${rawPrice}" is not a valid base price` : 'Base price is required' });
+    }
+
+    const country = get('country') || null;
+    const overseas = parseBoolean(get('is_overseas'));
+    if (overseas === undefined) {
+      rowErrors.push({ line, column: 'is_overseas', message: `"${get('is_overseas')}" is not TRUE or FALSE` });
+    }
+
+    const capped = parseBoolean(get('is_capped'));
+    if (capped === undefined) {
+      rowErrors.push({ line, column: 'is_capped', message: `"${get('is_capped')}" is not TRUE or FALSE` });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const earlierLine = (id && linesById.get(id.toLowerCase())) || linesByName.get(normalizeName(name));
+    if (earlierLine) {
+      errors.push({ line, message: `Duplicate of line ${earlierLine} - skipped` });
+      return;
+    }
+    if (id) linesById.set(id.toLowerCase(), line);
+    linesByName.set(normalizeName(name), line);
+
+    rows.push({
+      line,
+      id: id ? id.toLowerCase() : undefined,
+      name,
+      role,
+      country,
+      base_price: basePrice!,
+      description: get('description') || null,
+      // Without the column, anyone not from India counts as overseas
+      is_overseas: overseas ?? (country !== null && country.toLowerCase() !== 'india'),
+      is_capped: capped ?? null,
+      previous_team: get('previous_team').toUpperCase() || null
+    });
+  });
+
+  return { rows, errors, columns };
+}
+
+/**
+ * Matches checked rows to the players already stored and builds the upsert
+ * Rows without an ID update the stored player of the same name, or get a new ID. A row whose ID
+ * is new but whose name belongs to another stored player is refused rather than duplicating them,
+ * and a row that resolves to the same player as an earlier row is skipped, since one upsert cannot
+ * write a row twice.
+ *
+ * @param parsed - Result of `parsePlayerCsv`
+ * @param existing - Every stored player's ID and name
+ * @param createId - Makes IDs for new players
+ * @returns Rows to upsert, how many are new or updates, and any rows refused
+ */
+export function buildPlayerUpserts(
+  parsed: PlayerCsvParse,
+  existing: { id: string; name: string }[],
+  createId: () => string
+): { records: PlayerUpsert[]; inserted: number; updated: number; errors: PlayerImportError[] } {
+  const storedIds = new Set(existing.map(player => player.id.toLowerCase()));
+  const storedByName = new Map(existing.map(player => [normalizeName(player.name), player.id.toLowerCase()]));
+  const records: PlayerUpsert[] = [];
+  const errors: PlayerImportError[] = [];
+  const linesById = new Map<string, number>();
+  let inserted = 0;
+  let updated = 0;
+
+  parsed.rows.forEach(row => {
+    const namedId = storedByName.get(normalizeName(row.name));
+
+    if (row.id && namedId && namedId !== row.id && !storedIds.has(row.id)) {
+      errors.push({ line: row.line, column: 'name', message: `"${row.name}" already exists with ID ${namedId}` });
+      return;
+    }
+
+    const id = row.id || namedId || createId();
+    const earlierLine = linesById.get(id);
+    if (earlierLine) {
+      errors.push({ line: row.line, message: `Same player as line ${earlierLine} - skipped` });
+      return;
+    }
+    linesById.set(id, row.line);
+
+    if (storedIds.has(id)) updated++;
+    else inserted++;
+
+    const record: PlayerUpsert = { id, base_price: toRupees(row.base_price) };
+    parsed.columns.forEach(column => {
+      if (column === 'id' || column === 'base_price') return;
+      Object.assign(record, { [column]: row[column] });
+    });
+    // Derived from the country when the file has no is_overseas column
+    if (parsed.columns.includes('country')) record.is_overseas = row.is_overseas;
+
+    records.push(record);
+  });
+
+  return { records, inserted, updated, errors };
+}
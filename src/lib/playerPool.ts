@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Room player pools for CrickRush
+ * A room can auction the whole `players` table, the players matching a filter, a hand-picked list,
+ * or its own players uploaded as CSV into `room_players`. The choice lives in
+ * `auction_rooms.settings.playerPool`; rooms without one use the whole table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatMoney, fromRupees, toRupees } from '@/lib/money';
+import { matchesSetRule, PLAYER_ROLE_GROUP_LABELS } from '@/lib/playerSets';
+import type { PlayerImportRow } from '@/lib/playerImport';
+import type { AuctionPlayer, PlayerPool, PlayerPoolFilter } from '@/types/auction';
+
+/**
+ * A row of `room_players`: a player that only exists in one room (base price in rupees, as stored)
+ */
+export interface RoomPlayerRow {
+  room_id: string;
+  id: string;
+  name: string;
+  role: string;
+  country: string | null;
+  base_price: number;
+  description: string | null;
+  is_overseas: boolean;
+  is_capped: boolean | null;
+  previous_team: string | null;
+}
+
+/**
+ * The columns of a `players` or `room_players` row the queue uses
+ */
+interface StoredPlayerRow {
+  id: string;
+  name: string;
+  role?: string | null;
+  base_price?: number | null;
+  nationality?: string | null;
+  country?: string | null;
+  is_overseas?: boolean | null;
+  is_capped?: boolean | null;
+  previous_team?: string | null;
+}
+
+/**
+ * Turns a stored player row (base price in rupees) into a queue player (base price in lakhs)
+ */
+export const toPoolPlayer = (player: StoredPlayerRow): AuctionPlayer => ({
+  id: player.id,
+  name: player.name,
+  role: player.role || undefined,
+  base_price: player.base_price ? fromRupees(player.base_price) : 20, // Default to the ₹20L minimum
+  nationality: player.nationality || player.country || 'Unknown',
+  country: player.country ?? undefined,
+  is_overseas: !!player.is_overseas,
+  is_capped: player.is_capped ?? null,
+  previous_team: player.previous_team ?? null
+});
+
+/**
+ * Checks a player against a pool filter; every criterion the filter sets must match
+ */
+export function matchesPoolFilter(player: AuctionPlayer, filter: PlayerPoolFilter): boolean {
+  if (!matchesSetRule(player, filter)) return false;
+  if (filter.countries && filter.countries.length > 0) {
+    const country = (player.country || '').trim().toLowerCase();
+    if (!filter.countries.some(allowed => allowed.trim().toLowerCase() === country)) return false;
+  }
+  return true;
+}
+
+/**
+ * Loads the players a room auctions
+ *
+ * @param client - Supabase client to read with
+ * @param roomId - The room whose pool to load (used for CSV pools)
+ * @param pool - The room's `settings.playerPool`; the whole table when not set
+ * @returns The pool sorted by name, base prices in lakhs
+ *
+ * @example
+ * ```typescript
+ * const players = await loadRoomPlayerPool(supabase, roomId, room.settings?.playerPool);
+ * ```
+ */
+export async function loadRoomPlayerPool(
+  client: SupabaseClient,
+  roomId: string,
+  pool?: PlayerPool
+): Promise<AuctionPlayer[]> {
+  if (pool?.source === 'picked' && pool.playerIds.length === 0) return [];
+
+  let query = pool?.source === 'csv'
+    ? client.from('room_players').select('*').eq('room_id', roomId)
+    : client.from('players').select('*');
+
+  if (pool?.source === 'picked') {
+    query = query.in('id', pool.playerIds);
+  }
+
+  const { data, error } = await query.order('name');
+  if (error) {
+    throw new Error(`Failed to load players: ${error.message}`);
+  }
+
+  const players = (data || []).map(toPoolPlayer);
+  return pool?.source === 'filter' ? players.filter(player => matchesPoolFilter(player, pool.filter)) : players;
+}
+
+/**
+ * Rows to insert into `room_players` for a room's uploaded CSV
+ *
+ * @param roomId - The room the players belong to
+ * @param rows - Checked rows from `parsePlayerCsv`
+ * @param createId - Makes IDs for rows without one
+ */
+export const toRoomPlayerRows = (roomId: string, rows: PlayerImportRow[], createId: () => string): RoomPlayerRow[] =>
+  rows.map(row => ({
+    room_id: roomId,
+    id: row.id || createId(),
+    name: row.name,
+    role: row.role,
+    country: row.country,
+    base_price: toRupees(row.base_price),
+    description: row.description,
+    is_overseas: row.is_overseas,
+    is_capped: row.is_capped,
+    previous_team: row.previous_team
+  }));
+
+/**
+ * One-line description of a pool, e.g. "Batters · India · ₹50L and up" or "60 hand-picked players"
+ */
+export function describePlayerPool(pool?: PlayerPool): string {
+  if (!pool || pool.source === 'all') return 'All players';
+  if (pool.source === 'picked') return `${pool.playerIds.length} hand-picked players`;
+  if (pool.source === 'csv') return 'Players uploaded for this room';
+
+  const { filter } = pool;
+  const parts: string[] = [];
+  if (filter.roles && filter.roles.length > 0) {
+    parts.push(filter.roles.map(role => PLAYER_ROLE_GROUP_LABELS[role]).join(', '));
+  }
+  if (filter.countries && filter.countries.length > 0) parts.push(filter.countries.join(', '));
+  if (filter.overseas !== undefined) parts.push(filter.overseas ? 'overseas' : 'Indian');
+  if (filter.capped !== undefined) parts.push(filter.capped ? 'capped' : 'uncapped');
+  if (filter.minBasePrice !== undefined && filter.maxBasePrice !== undefined) {
+    parts.push(`${formatMoney(filter.minBasePrice)} to ${formatMoney(filter.maxBasePrice)}`);
+  } else if (filter.minBasePrice !== undefined) {
+    parts.push(`${formatMoney(filter.minBasePrice)} and up`);
+  } else if (filter.maxBasePrice !== undefined) {
+    parts.push(`up to ${formatMoney(filter.maxBasePrice)}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : 'All players';
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Player role taxonomy for CrickRush
+ * Every player has a primary category (Batter, Bowler, All-rounder, Wicket-keeper) and a sub-role,
+ * the detailed role stored with the player ("Death Bowler", "Opening Batsman", ...). The 13 roles used
+ * in `ipl_players.csv` map directly; roles from custom lists are placed by keywords.
+ */
+
+import type { PlayerCategory, PlayerRole, PlayerRoleGroup, PlayerSubRole } from '@/types/auction';
+
+/**
+ * Categories in squad order
+ */
+export const PLAYER_CATEGORIES: PlayerCategory[] = ['Batter', 'Wicket-keeper', 'All-rounder', 'Bowler'];
+
+/**
+ * Category of each role used in `ipl_players.csv`
+ */
+export const PLAYER_SUB_ROLES: Record<PlayerSubRole, PlayerCategory> = {
+  'Opening Batsman': 'Batter',
+  'Middle-order Batsman': 'Batter',
+  'Aggressive Batsman': 'Batter',
+  'Versatile Batsman': 'Batter',
+  'Power Hitter': 'Batter',
+  'Batting All-rounder': 'All-rounder',
+  'Complete All-rounder': 'All-rounder',
+  'Fielding All-rounder': 'All-rounder',
+  'Versatile All-rounder': 'All-rounder',
+  'Utility Player': 'All-rounder',
+  'Fast Bowler': 'Bowler',
+  'Death Bowler': 'Bowler',
+  'Spinner': 'Bowler'
+};
+
+/**
+ * Short labels for squad breakdowns
+ */
+export const CATEGORY_SHORT_LABELS: Record<PlayerCategory, string> = {
+  'Batter': 'BAT',
+  'Wicket-keeper': 'WK',
+  'All-rounder': 'AR',
+  'Bowler': 'BOWL'
+};
+
+/**
+ * The set-rule role group each category falls in
+ */
+export const CATEGORY_ROLE_GROUPS: Record<PlayerCategory, PlayerRoleGroup> = {
+  'Batter': 'batter',
+  'Wicket-keeper': 'wicket_keeper',
+  'All-rounder': 'all_rounder',
+  'Bowler': 'bowler'
+};
+
+const SUB_ROLE_LOOKUP = new Map(
+  (Object.entries(PLAYER_SUB_ROLES) as [PlayerSubRole, PlayerCategory][]).map(([subRole, category]) => [subRole.toLowerCase(), category])
+);
+
+/**
+ * Category for roles outside the CSV list, e.g. "Wicket-keeper Batsman" or "Left-arm Spinner"
+ */
+function guessCategory(role: string): PlayerCategory | null {
+  if (role.includes('keeper')) return 'Wicket-keeper';
+  if (role.includes('all-rounder') || role.includes('allrounder') || role.includes('all rounder') || role.includes('utility')) {
+    return 'All-rounder';
+  }
+  if (role.includes('bowler') || role.includes('spinner') || role.includes('seamer')) return 'Bowler';
+  if (role.includes('bats') || role.includes('batter') || role.includes('hitter')) return 'Batter';
+  return null;
+}
+
+/**
+ * Places a stored role in the taxonomy
+ *
+ * @param role - The player's role as stored, e.g. "Death Bowler"
+ * @returns The category and sub-role, or null if the role is empty or unrecognised
+ *
+ * @example
+ * ```typescript
+ * getPlayerRole('Utility Player')  // Returns { category: 'All-rounder', subRole: 'Utility Player' }
+ * ```
+ */
+export function getPlayerRole(role?: string | null): PlayerRole | null {
+  const subRole = (role || '').trim();
+  if (!subRole) return null;
+
+  const normalized = subRole.toLowerCase();
+  const category = SUB_ROLE_LOOKUP.get(normalized) || guessCategory(normalized);
+  return category ? { category, subRole } : null;
+}
+
+/**
+ * Primary category of a stored role, or null if unrecognised
+ */
+export const getPlayerCategory = (role?: string | null): PlayerCategory | null => getPlayerRole(role)?.category ?? null;
+
+/**
+ * Role for display: "Bowler · Death Bowler", just the category when the sub-role adds nothing,
+ * or the stored role as-is when it is unrecognised
+ */
+export function formatPlayerRole(role?: string | null): string {
+  const playerRole = getPlayerRole(role);
+  if (!playerRole) return (role || '').trim();
+  if (playerRole.subRole.toLowerCase() === playerRole.category.toLowerCase()) return playerRole.category;
+  return `${playerRole.category} · ${playerRole.subRole}`;
+}
+
+/**
+ * Solid background class for a category marker
+ */
+export function getCategoryColor(category?: PlayerCategory | null): string {
+  switch (category) {
+    case 'Batter': return 'bg-green-500';
+    case 'Bowler': return 'bg-red-500';
+    case 'All-rounder': return 'bg-purple-500';
+    case 'Wicket-keeper': return 'bg-blue-500';
+    default: return 'bg-gray-500';
+  }
+}
+
+/**
+ * Tinted badge classes for a category, matching {@link getCategoryColor}
+ */
+export function getCategoryBadgeClass(category?: PlayerCategory | null): string {
+  switch (category) {
+    case 'Batter': return 'bg-green-500/20 text-green-400 border-green-500/30';
+    case 'Bowler': return 'bg-red-500/20 text-red-400 border-red-500/30';
+    case 'All-rounder': return 'bg-purple-500/20 text-purple-400 border-purple-500/30';
+    case 'Wicket-keeper': return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+    default: return 'bg-gray-500/20 text-gray-400 border-gray-500/30';
+  }
+}
+
+/**
+ * Counts a squad's players by category; unrecognised roles are left out
+ */
+export function countByCategory(players: { role?: string | null }[]): Record<PlayerCategory, number> {
+  const counts: Record<PlayerCategory, number> = { 'Batter': 0, 'Wicket-keeper': 0, 'All-rounder': 0, 'Bowler': 0 };
+  players.forEach(player => {
+    const category = getPlayerCategory(player.role);
+    if (category) counts[category]++;
+  });
+  return counts;
+}
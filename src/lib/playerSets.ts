@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Player sets for CrickRush
+ * A room can split its pool into named, ordered sets (marquee, capped batters, ...). Players are
+ * placed by hand or by rule, the queue runs the sets in order, and only the order within a set is shuffled.
+ * Sets live in `auction_rooms.settings.playerSets`; rooms without them shuffle the whole pool as one list.
+ */
+
+import { formatMoney, Lakhs } from '@/lib/money';
+import { CATEGORY_ROLE_GROUPS, getPlayerCategory } from '@/lib/playerRoles';
+import type { PlayerRoleGroup, PlayerSet, PlayerSetRule } from '@/types/auction';
+
+/**
+ * The parts of a player set rules look at
+ */
+export interface SettablePlayer {
+  id: string;
+  role?: string;
+  base_price: Lakhs;
+  is_overseas?: boolean;
+  is_capped?: boolean | null;
+  set_id?: string;
+  set_name?: string;
+}
+
+/**
+ * Players without a capped flag count as capped from this base price up (the IPL capped minimum)
+ */
+export const CAPPED_BASE_PRICE: Lakhs = 75;
+
+/**
+ * Where players that match no set end up, after every defined set
+ */
+export const REMAINING_SET: PlayerSet = { id: 'remaining', name: 'Remaining Players' };
+
+export const PLAYER_ROLE_GROUP_LABELS: Record<PlayerRoleGroup, string> = {
+  batter: 'Batters',
+  bowler: 'Bowlers',
+  all_rounder: 'All-rounders',
+  wicket_keeper: 'Wicket-keepers'
+};
+
+/**
+ * The IPL set order: marquee names first, then capped players by role, then uncapped
+ * Marquee has no rule, so it only holds players picked by hand
+ */
+export const IPL_PLAYER_SETS: PlayerSet[] = [
+  { id: 'marquee', name: 'Marquee', playerIds: [] },
+  { id: 'capped_batters', name: 'Capped Batters', rule: { roles: ['batter'], capped: true } },
+  { id: 'capped_bowlers', name: 'Capped Bowlers', rule: { roles: ['bowler'], capped: true } },
+  { id: 'capped_all_rounders', name: 'Capped All-rounders', rule: { roles: ['all_rounder'], capped: true } },
+  { id: 'wicket_keepers', name: 'Wicket-keepers', rule: { roles: ['wicket_keeper'] } },
+  { id: 'uncapped', name: 'Uncapped', rule: { capped: false } }
+];
+
+/**
+ * Set-rule role group of a player, from their category in the role taxonomy
+ */
+export function getPlayerRoleGroup(role?: string): PlayerRoleGroup | null {
+  const category = getPlayerCategory(role);
+  return category ? CATEGORY_ROLE_GROUPS[category] : null;
+}
+
+/**
+ * Whether a player is capped - their own flag if the pool has one, otherwise judged by base price
+ */
+export const isCappedPlayer = (player: SettablePlayer): boolean =>
+  player.is_capped ?? player.base_price >= CAPPED_BASE_PRICE;
+
+/**
+ * Checks a player against a set rule; every criterion the rule sets must match
+ */
+export function matchesSetRule(player: SettablePlayer, rule: PlayerSetRule): boolean {
+  if (rule.roles && rule.roles.length > 0) {
+    const group = getPlayerRoleGroup(player.role);
+    if (!group || !rule.roles.includes(group)) return false;
+  }
+  if (rule.minBasePrice !== undefined && player.base_price < rule.minBasePrice) return false;
+  if (rule.maxBasePrice !== undefined && player.base_price > rule.maxBasePrice) return false;
+  if (rule.capped !== undefined && isCappedPlayer(player) !== rule.capped) return false;
+  if (rule.overseas !== undefined && !!player.is_overseas !== rule.overseas) return false;
+  return true;
+}
+
+/**
+ * Splits a pool into the room's sets
+ * Hand-picked players go to the first set that lists them; everyone else goes to the first set
+ * whose rule they match, or to {@link REMAINING_SET}. Empty sets are dropped.
+ *
+ * @param players - The room's pool
+ * @param sets - Sets in auction order
+ * @returns Non-empty sets in order, each with its players
+ */
+export function groupPlayersIntoSets<T extends SettablePlayer>(
+  players: T[],
+  sets: PlayerSet[]
+): { set: PlayerSet; players: T[] }[] {
+  const groups = [...sets, REMAINING_SET].map(set => ({ set, players: [] as T[] }));
+  const remaining = groups[groups.length - 1];
+
+  players.forEach(player => {
+    const picked = groups.find(group => group.set.playerIds?.includes(player.id));
+    const matched = picked || groups.find(group => group.set.rule && matchesSetRule(player, group.set.rule));
+    (matched || remaining).players.push(player);
+  });
+
+  return groups.filter(group => group.players.length > 0);
+}
+
+/**
+ * Builds the auction queue: sets in order, each shuffled on its own, every player tagged with its set
+ *
+ * @param players - The room's pool
+ * @param sets - Sets in auction order
+ * @param shuffle - Shuffles the players of one set
+ * @returns The full queue
+ *
+ * @example
+ * ```typescript
+ * const queue = buildSetQueue(pool, room.settings.playerSets, (players, set) => shuffle(players, set.id));
+ * ```
+ */
+export function buildSetQueue<T extends SettablePlayer>(
+  players: T[],
+  sets: PlayerSet[],
+  shuffle: (players: T[], set: PlayerSet) => T[]
+): T[] {
+  return groupPlayersIntoSets(players, sets).flatMap(({ set, players: setPlayers }) =>
+    shuffle(setPlayers, set).map(player => ({ ...player, set_id: set.id, set_name: set.name }))
+  );
+}
+
+/**
+ * A run of consecutive queue entries from one set
+ */
+export interface SetProgress {
+  id: string;
+  name: string;
+  /** Players in the set */
+  total: number;
+  /** Players in the set still to come, including the current one */
+  remaining: number;
+}
+
+/**
+ * Which set is live at a queue position and which comes next
+ *
+ * @param queue - The auction queue, as built by {@link buildSetQueue}
+ * @param index - Position of the current player
+ * @returns The live set and the next one, or null where there is none (or the queue has no sets)
+ */
+export function getSetProgress(
+  queue: Pick<SettablePlayer, 'set_id' | 'set_name'>[],
+  index: number
+): { current: SetProgress | null; next: SetProgress | null } {
+  const runs: (SetProgress & { start: number; end: number })[] = [];
+
+  queue.forEach((player, i) => {
+    if (!player.set_id) return;
+    const last = runs[runs.length - 1];
+    if (last && last.id === player.set_id && last.end === i - 1) {
+      last.end = i;
+      last.total++;
+    } else {
+      runs.push({ id: player.set_id, name: player.set_name || player.set_id, total: 1, remaining: 0, start: i, end: i });
+    }
+  });
+
+  const position = Math.max(0, index);
+  const currentRun = runs.findIndex(run => position >= run.start && position <= run.end);
+  if (currentRun === -1) return { current: null, next: null };
+
+  const toProgress = (run: (typeof runs)[number], from: number): SetProgress => ({
+    id: run.id,
+    name: run.name,
+    total: run.total,
+    remaining: run.end - Math.max(from, run.start) + 1
+  });
+
+  return {
+    current: toProgress(runs[currentRun], position),
+    next: runs[currentRun + 1] ? toProgress(runs[currentRun + 1], runs[currentRun + 1].start) : null
+  };
+}
+
+/**
+ * One-line description of a set rule, e.g. "Batters · capped · ₹50L to ₹2Cr"
+ */
+export function describeSetRule(set: PlayerSet): string {
+  const parts: string[] = [];
+  const rule = set.rule;
+
+  if (rule?.roles && rule.roles.length > 0) {
+    parts.push(rule.roles.map(role => PLAYER_ROLE_GROUP_LABELS[role]).join(', '));
+  }
+  if (rule?.capped !== undefined) parts.push(rule.capped ? 'capped' : 'uncapped');
+  if (rule?.overseas !== undefined) parts.push(rule.overseas ? 'overseas' : 'Indian');
+  if (rule?.minBasePrice !== undefined && rule?.maxBasePrice !== undefined) {
+    parts.push(`${formatMoney(rule.minBasePrice)} to ${formatMoney(rule.maxBasePrice)}`);
+  } else if (rule?.minBasePrice !== undefined) {
+    parts.push(`${formatMoney(rule.minBasePrice)} and up`);
+  } else if (rule?.maxBasePrice !== undefined) {
+    parts.push(`up to ${formatMoney(rule.maxBasePrice)}`);
+  }
+  if (set.playerIds && set.playerIds.length > 0) {
+    parts.push(`${set.playerIds.length} picked`);
+  }
+
+  if (parts.length === 0) return rule ? 'Everyone left' : 'Picked by hand';
+  return parts.join(' · ');
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Server time estimate for the browser
+ * Auction deadlines are stored in server time, so every client counts down against the
+ * same clock by measuring its offset from the server once and applying it locally.
+ */
+
+let clockOffsetMs = 0;
+let syncPromise: Promise<number> | null = null;
+
+/**
+ * Measures the offset between this browser's clock and the server's
+ * Uses the midpoint of the request round trip, like NTP; the result is cached for the session
+ *
+ * @returns Milliseconds to add to `Date.now()` to get server time
+ */
+export function syncServerClock(): Promise<number> {
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    try {
+      const sentAt = Date.now();
+      const response = await fetch('/api/time', { cache: 'no-store' });
+      const receivedAt = Date.now();
+      const { now } = await response.json();
+
+      if (typeof now === 'number') {
+        clockOffsetMs = now - (sentAt + receivedAt) / 2;
+        console.log(`🕒 Server clock offset: ${Math.round(clockOffsetMs)}ms`);
+      }
+    } catch (error) {
+      // Fall back to the local clock and try again next time
+      console.warn('Could not sync with server clock:', error);
+      syncPromise = null;
+    }
+    return clockOffsetMs;
+  })();
+
+  return syncPromise;
+}
+
+/**
+ * Current server time in epoch milliseconds, estimated from the local clock
+ */
+export function serverNow(): number {
+  return Date.now() + clockOffsetMs;
+}
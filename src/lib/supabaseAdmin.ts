@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Server-side Supabase client and request authentication helpers
+ * Only import this from API routes - it uses the service role key and bypasses RLS
+ */
+
+import { createClient, User } from '@supabase/supabase-js'
+
+/**
+ * Supabase client with service role privileges
+ * Used by API routes that must perform writes the browser is not trusted with
+ */
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+)
+
+/**
+ * Resolves the signed-in user from a request's `Authorization: Bearer <jwt>` header
+ *
+ * @param request - Incoming API request
+ * @returns The authenticated user, or null if the header is missing or the token is invalid
+ */
+export const getRequestUser = async (request: Request): Promise<User | null> => {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader) return null;
+
+  const token = authHeader.replace('Bearer ', '');
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+
+  if (error || !user) return null;
+  return user;
+};
+
+/**
+ * Whether a user may manage the shared player database
+ * Admins are listed by email in the comma-separated `PLAYER_ADMIN_EMAILS` environment variable
+ *
+ * @param user - Authenticated user from `getRequestUser`
+ * @returns True if the user's email is on the list
+ */
+export const isPlayerAdmin = (user: User): boolean => {
+  const admins = (process.env.PLAYER_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return !!user.email && admins.includes(user.email.toLowerCase());
+};
@@ -17,7 +17,9 @@ export interface Player {
   id: string; // Changed from number to string to match UUID database field
   name: string;
   nationality: string;
-  category: 'Batsman' | 'Bowler' | 'All-Rounder' | 'Wicket-Keeper' | 'Fast Bowler' | 'Spin Bowler';
+  category: PlayerCategory;
+  /** Detailed role, e.g. "Death Bowler" */
+  subRole?: string;
   basePrice: number;
   specialization: string;
   experience: 'International' | 'Domestic';
@@ -32,6 +34,38 @@ export interface Player {
   };
 }
 
+/**
+ * Primary playing category
+ */
+export type PlayerCategory = 'Batter' | 'Bowler' | 'All-rounder' | 'Wicket-keeper';
+
+/**
+ * The detailed roles used in `ipl_players.csv`
+ */
+export type PlayerSubRole =
+  | 'Opening Batsman'
+  | 'Middle-order Batsman'
+  | 'Aggressive Batsman'
+  | 'Versatile Batsman'
+  | 'Power Hitter'
+  | 'Batting All-rounder'
+  | 'Complete All-rounder'
+  | 'Fielding All-rounder'
+  | 'Versatile All-rounder'
+  | 'Utility Player'
+  | 'Fast Bowler'
+  | 'Death Bowler'
+  | 'Spinner';
+
+/**
+ * A player's place in the role taxonomy
+ */
+export interface PlayerRole {
+  category: PlayerCategory;
+  /** The player's own role as stored, e.g. "Death Bowler"; the category name when only that is known */
+  subRole: string;
+}
+
 export interface AuctionRoom {
   id: string;
   roomKey: string;
@@ -42,10 +76,102 @@ export interface AuctionRoom {
   maxTeams: number;
   playersPerTeam: number;
   budget: number;
-  settings: {
-    bidTimer: number;
-    autoAdvance: boolean;
-  };
+  settings: AuctionRoomSettings;
+}
+
+/**
+ * Per-room auction options, stored in `auction_rooms.settings`
+ */
+export interface AuctionRoomSettings {
+  bidTimer: number;
+  /** Sell or mark unsold automatically when the clock runs out, then bring up the next player */
+  autoAdvance: boolean;
+  /** Seconds to wait after an automatic sale before the next player comes up */
+  autoAdvanceDelay?: number;
+  /** Players every team must end up with; bids always leave enough purse to reach it. Defaults to players per team */
+  minSquadSize?: number;
+  /** Most overseas players a team may buy */
+  maxOverseasPlayers?: number;
+  /** Increment ladder for raises; the IPL ladder when not set */
+  bidIncrements?: BidIncrementStep[];
+  /** Seconds on the clock for each player in an accelerated round of unsold players */
+  acceleratedTimerSeconds?: number;
+  /** Percentage knocked off base prices in an accelerated round (0 keeps them) */
+  acceleratedBasePriceCut?: number;
+  /** Most unsold players each team may nominate for an accelerated round */
+  maxNominationsPerTeam?: number;
+  /** Sets the queue runs through in order, shuffled within each; one shuffled list when not set */
+  playerSets?: PlayerSet[];
+  /** Right-to-match cards each team can use on its former players; 0 turns RTM off */
+  rtmCardsPerTeam?: number;
+  /** Seconds each side gets for a right-to-match decision */
+  rtmDecisionSeconds?: number;
+  /** Players each team may retain before the auction; 0 skips the retention phase */
+  retentionsPerTeam?: number;
+  /** Price of each retention in lakhs - the first pick costs the first slab, and so on */
+  retentionSlabs?: number[];
+  /** Players the auctioneer has made retainable, by team short name, on top of each team's former players */
+  retentionLists?: Record<string, string[]>;
+  /** Which players the room auctions; the whole `players` table when not set */
+  playerPool?: PlayerPool;
+  /** Solo practice room: the creator against bots, closed to others and left out of dashboard stats */
+  practice?: boolean;
+  /** Let signed-in users without a franchise watch the room read-only; on unless set to false */
+  allowSpectators?: boolean;
+}
+
+/**
+ * Broad playing role used to place players into sets
+ */
+export type PlayerRoleGroup = 'batter' | 'bowler' | 'all_rounder' | 'wicket_keeper';
+
+/**
+ * Which players a set takes; every criterion that is set must match (prices in lakhs)
+ */
+export interface PlayerSetRule {
+  roles?: PlayerRoleGroup[];
+  minBasePrice?: number;
+  maxBasePrice?: number;
+  capped?: boolean;
+  overseas?: boolean;
+}
+
+/**
+ * A named group of players auctioned together, e.g. "Marquee" or "Capped Batters"
+ */
+export interface PlayerSet {
+  id: string;
+  name: string;
+  /** Players placed here by rule; a set without a rule only holds hand-picked players */
+  rule?: PlayerSetRule;
+  /** Players placed here by hand, ahead of any rule */
+  playerIds?: string[];
+}
+
+/**
+ * Which players a room's pool takes; a set rule plus countries (prices in lakhs)
+ */
+export interface PlayerPoolFilter extends PlayerSetRule {
+  countries?: string[];
+}
+
+/**
+ * Where a room's players come from: the whole `players` table, the players matching a filter,
+ * a hand-picked list, or the room's own players uploaded as CSV into `room_players`
+ */
+export type PlayerPool =
+  | { source: 'all' }
+  | { source: 'filter'; filter: PlayerPoolFilter }
+  | { source: 'picked'; playerIds: string[] }
+  | { source: 'csv' };
+
+/**
+ * One slab of a bid increment ladder (amounts in lakhs)
+ */
+export interface BidIncrementStep {
+  /** This increment applies while the current bid is below this amount; null for the last, open-ended slab */
+  upTo: number | null;
+  increment: number;
 }
 
 export interface RoomParticipant {
@@ -89,6 +215,281 @@ export interface AuctionStats {
   remainingPlayers: number;
 }
 
+// Database row shapes for the live auction (snake_case, as stored in Supabase)
+
+/**
+ * A player as stored in the `players` table and in `auction_state.player_queue`
+ */
+export interface AuctionPlayer {
+  id: string;
+  name: string;
+  base_price: number;
+  role?: string;
+  type?: string;
+  country?: string;
+  nationality?: string;
+  is_overseas?: boolean;
+  /** Base price before an accelerated round lowered it */
+  original_base_price?: number;
+  is_capped?: boolean | null;
+  /** Short name of the franchise the player last played for, which may hold a right to match */
+  previous_team?: string | null;
+  /** Set the player is auctioned in, when the room uses sets */
+  set_id?: string;
+  set_name?: string;
+}
+
+/**
+ * A completed lot, as appended to `auction_state.sold_players` / `unsold_players`
+ */
+export interface CompletedPlayerRecord {
+  id: string;
+  name: string;
+  role?: string;
+  is_overseas?: boolean;
+  /** The player's base price before any accelerated-round cut */
+  base_price?: number;
+  final_price: number;
+  sold_to_team: string | null;
+  sold_to_participant?: string | null;
+  /** Round the lot was settled in: 1 for the main queue, 2 and up for accelerated rounds */
+  round_number?: number;
+  /** How the team got the player */
+  acquired_via?: 'auction' | 'rtm' | 'retained';
+  /** The right-to-match offer on this player, if there was one */
+  rtm?: { holder_team: string; outcome: RtmOutcome };
+  purchased_at?: string;
+  completed_at?: string;
+}
+
+/**
+ * The single `auction_state` row that drives a room's live auction
+ */
+export interface AuctionStateRecord {
+  id?: string;
+  room_id: string;
+  is_active: boolean;
+  is_paused: boolean;
+  current_player_id: string | null;
+  current_bid: number;
+  base_price: number;
+  current_bidder_id: string | null;
+  leading_team: string | null;
+  /** Seconds left when the clock is paused; a snapshot only while it is running */
+  time_remaining: number;
+  /** Server-time deadline for the current player while the clock is running, null while paused */
+  bidding_ends_at?: string | null;
+  current_player_index: number;
+  total_players: number;
+  player_queue: AuctionPlayer[];
+  sold_players: CompletedPlayerRecord[];
+  unsold_players: CompletedPlayerRecord[];
+  passed_teams?: string[];
+  /** When auto-advance has settled a lot, the server time at which the next player comes up */
+  next_player_at?: string | null;
+  /** 1 for the main queue, 2 and up for accelerated rounds of unsold players */
+  round_number?: number;
+  /** Right-to-match offer on the current player, once bidding has closed */
+  rtm?: RtmState | null;
+  updated_at?: string;
+}
+
+/**
+ * Steps of a right-to-match offer: the holder decides, the winner may raise once, the holder matches or not
+ */
+export type RtmStage = 'offered' | 'final_raise' | 'match' | RtmOutcome;
+
+export type RtmOutcome = 'declined' | 'matched' | 'not_matched';
+
+/**
+ * A right-to-match offer on the current player (`auction_state.rtm`)
+ */
+export interface RtmState {
+  stage: RtmStage;
+  player_id: string;
+  /** The player's former franchise, which holds the card */
+  holder_participant_id: string;
+  holder_team_id: string;
+  /** Highest bidder when bidding closed */
+  winner_participant_id: string;
+  winner_team_id: string;
+  /** Winning bid when bidding closed */
+  bid: number;
+  /** Price the holder has to match: the bid plus any final raise */
+  final_bid: number;
+  /** Server time the current step times out; null once the offer is settled */
+  expires_at: string | null;
+}
+
+/**
+ * A bid as stored in `auction_bids`
+ */
+export interface AuctionBidRecord {
+  id: string;
+  room_id: string;
+  player_id: string;
+  /** User who placed the bid; null for a bot franchise */
+  bidder_id: string | null;
+  /** Bidding participant's ID */
+  team_id: string;
+  bid_amount: number;
+  /** True for the newest bid on the player */
+  is_winning_bid?: boolean;
+  /** Placed by the server on the team's behalf, answering a rival bid up to the team's ceiling */
+  is_auto_bid?: boolean;
+  created_at: string;
+}
+
+/**
+ * A team's nomination of an unsold player for the next accelerated round (`auction_nominations` row)
+ */
+export interface AuctionNomination {
+  id: string;
+  room_id: string;
+  participant_id: string;
+  player_id: string;
+  created_at?: string;
+}
+
+/**
+ * A player a team keeps from before the auction (`auction_retentions` row)
+ * Picks are priced in the order they were made, down the room's retention slabs
+ */
+export interface AuctionRetention {
+  id: string;
+  room_id: string;
+  participant_id: string;
+  player_id: string;
+  created_at?: string;
+}
+
+/**
+ * How much a user wants a shortlisted player: 1 is must-have, 3 is backup
+ */
+export type ShortlistPriority = 1 | 2 | 3;
+
+/**
+ * A player a user has starred in a room (`auction_shortlists` row); only that user can see it
+ */
+export interface AuctionShortlistEntry {
+  id: string;
+  room_id: string;
+  user_id: string;
+  player_id: string;
+  priority: ShortlistPriority;
+  /** Most the user plans to pay, in lakhs; null when not set */
+  max_price: number | null;
+  notes: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * How a computer-controlled franchise spends: chases stars, plans evenly, or waits for bargains
+ */
+export type BotPersonality = 'aggressive' | 'balanced' | 'value_hunter';
+
+/**
+ * A team's proxy ceiling on one player (`auction_auto_bids` row)
+ * Only the owning user can read it; the server answers rival bids on the team's behalf up to `max_amount`
+ */
+export interface AuctionAutoBid {
+  id: string;
+  room_id: string;
+  participant_id: string;
+  user_id: string;
+  player_id: string;
+  /** Highest bid to place automatically, in lakhs */
+  max_amount: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A signed-in user watching a room read-only (`auction_spectators` row)
+ * `last_seen_at` is refreshed while the room is open; stale rows don't count as watching
+ */
+export interface AuctionSpectator {
+  id: string;
+  room_id: string;
+  user_id: string;
+  joined_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * A user managing a franchise alongside its primary owner (`auction_co_owners` row)
+ * Co-owners bid for the team and share its purse and squad; only the primary owner can remove them
+ */
+export interface AuctionCoOwner {
+  id: string;
+  room_id: string;
+  participant_id: string;
+  user_id: string;
+  added_at: string;
+  /** Display name, filled in from the user's profile */
+  user_name?: string;
+}
+
+/**
+ * A message in a franchise's private strategy chat (`auction_team_messages` row)
+ */
+export interface AuctionTeamMessage {
+  id: string;
+  room_id: string;
+  participant_id: string;
+  user_id: string;
+  message: string;
+  created_at: string;
+}
+
+/**
+ * Auctioneer corrections recorded in the audit log: undone lots and states rebuilt from the event log
+ */
+export type AuctionAuditAction = 'undo_sale' | 'undo_unsold' | 'restore_state';
+
+/**
+ * One entry in a room's audit trail (`auction_audit_log` row)
+ */
+export interface AuctionAuditEntry {
+  id: string;
+  room_id: string;
+  /** User who made the correction */
+  actor_id: string;
+  action: AuctionAuditAction;
+  player_id: string | null;
+  details: {
+    actor_name?: string;
+    player_name?: string;
+    /** Team the undone sale went to */
+    team_id?: string | null;
+    team_name?: string;
+    amount?: number;
+    /** Logged events a restored state was rebuilt from */
+    events?: number;
+  };
+  created_at: string;
+}
+
+/**
+ * Most co-owners a franchise can have besides its primary owner (also enforced by a trigger on `auction_co_owners`)
+ */
+export const MAX_CO_OWNERS_PER_TEAM = 3;
+
+export const DEFAULT_ROOM_SETTINGS: AuctionRoomSettings = {
+  bidTimer: 30,
+  autoAdvance: false,
+  autoAdvanceDelay: 5,
+  maxOverseasPlayers: 8,
+  acceleratedTimerSeconds: 15,
+  acceleratedBasePriceCut: 0,
+  maxNominationsPerTeam: 5,
+  rtmCardsPerTeam: 0,
+  rtmDecisionSeconds: 20,
+  retentionsPerTeam: 0,
+  retentionSlabs: [1800, 1400, 1100]
+};
+
 // Default IPL Teams data
 export const IPL_TEAMS: IPLTeam[] = [
   {
@@ -229,7 +630,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "1",
     name: "Jos Buttler",
     nationality: "England",
-    category: "Wicket-Keeper",
+    category: "Wicket-keeper",
+    subRole: "Wicket-keeper",
     basePrice: 200,
     specialization: "Explosive Batting",
     experience: "International",
@@ -240,7 +642,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "2",
     name: "Mohammed Shami",
     nationality: "India",
-    category: "Fast Bowler",
+    category: "Bowler",
+    subRole: "Fast Bowler",
     basePrice: 150,
     specialization: "Pace & Swing",
     experience: "International",
@@ -251,7 +654,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "3",
     name: "Mitchell Starc",
     nationality: "Australia",
-    category: "Fast Bowler",
+    category: "Bowler",
+    subRole: "Fast Bowler",
     basePrice: 200,
     specialization: "Left-arm Pace",
     experience: "International",
@@ -262,7 +666,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "4",
     name: "Marcus Stoinis",
     nationality: "Australia",
-    category: "All-Rounder",
+    category: "All-rounder",
+    subRole: "Batting All-rounder",
     basePrice: 100,
     specialization: "Power Hitting",
     experience: "International",
@@ -273,7 +678,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "5",
     name: "Devdutt Padikkal",
     nationality: "India",
-    category: "Batsman",
+    category: "Batter",
+    subRole: "Opening Batsman",
     basePrice: 100,
     specialization: "Left-hand Opening",
     experience: "Domestic",
@@ -284,7 +690,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "6",
     name: "Kagiso Rabada",
     nationality: "South Africa",
-    category: "Fast Bowler",
+    category: "Bowler",
+    subRole: "Fast Bowler",
     basePrice: 175,
     specialization: "Express Pace",
     experience: "International",
@@ -295,7 +702,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "7",
     name: "Yuzvendra Chahal",
     nationality: "India",
-    category: "Spin Bowler",
+    category: "Bowler",
+    subRole: "Spinner",
     basePrice: 125,
     specialization: "Leg-spin",
     experience: "International",
@@ -306,7 +714,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "8",
     name: "Glenn Maxwell",
     nationality: "Australia",
-    category: "All-Rounder",
+    category: "All-rounder",
+    subRole: "Batting All-rounder",
     basePrice: 150,
     specialization: "360-degree Batting",
     experience: "International",
@@ -317,7 +726,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "9",
     name: "Prithvi Shaw",
     nationality: "India",
-    category: "Batsman",
+    category: "Batter",
+    subRole: "Opening Batsman",
     basePrice: 75,
     specialization: "Aggressive Opening",
     experience: "International",
@@ -328,7 +738,8 @@ export const SAMPLE_PLAYERS: Player[] = [
     id: "10",
     name: "Liam Livingstone",
     nationality: "England",
-    category: "All-Rounder",
+    category: "All-rounder",
+    subRole: "Complete All-rounder",
     basePrice: 125,
     specialization: "Power Hitting & Spin",
     experience: "International",
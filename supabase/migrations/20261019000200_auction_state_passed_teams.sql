@@ -0,0 +1,3 @@
+-- Participants who have passed on the current player; cleared when the next player comes up
+alter table auction_state
+  add column if not exists passed_teams jsonb not null default '[]'::jsonb;
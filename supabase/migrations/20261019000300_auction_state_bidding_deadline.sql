@@ -0,0 +1,4 @@
+-- Deadline for the current player in server time. Clients count down to it locally,
+-- so time_remaining is only written when the clock is paused, resumed or changed.
+alter table auction_state
+  add column if not exists bidding_ends_at timestamptz;
@@ -0,0 +1,7 @@
+-- Per-room auction options (see AuctionRoomSettings), e.g. {"bidTimer":30,"autoAdvance":true,"autoAdvanceDelay":5}
+alter table auction_rooms
+  add column if not exists settings jsonb not null default '{}'::jsonb;
+
+-- Set when auto-advance has settled a lot; the next player comes up at this time
+alter table auction_state
+  add column if not exists next_player_at timestamptz;
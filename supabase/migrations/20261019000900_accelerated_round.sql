@@ -0,0 +1,47 @@
+-- Round the auction is in: 1 for the main queue, 2 and up for accelerated rounds of unsold players
+alter table auction_state
+  add column if not exists round_number integer not null default 1;
+
+-- Unsold players each team wants brought back in the next accelerated round
+create table if not exists auction_nominations (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  participant_id uuid not null references auction_participants(id) on delete cascade,
+  player_id text not null,
+  created_at timestamptz not null default now(),
+  unique (room_id, participant_id, player_id)
+);
+
+create index if not exists auction_nominations_room_id_idx on auction_nominations (room_id);
+
+alter table auction_nominations enable row level security;
+
+create policy "Room members can read nominations" on auction_nominations
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = auction_nominations.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_nominations.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+create policy "Teams manage their own nominations" on auction_nominations
+  for all using (
+    exists (
+      select 1 from auction_participants p
+      where p.id = auction_nominations.participant_id and p.user_id = auth.uid()
+    )
+  );
+
+create policy "Auctioneers clear nominations" on auction_nominations
+  for delete using (
+    exists (
+      select 1 from auction_rooms r
+      where r.id = auction_nominations.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+alter publication supabase_realtime add table auction_nominations;
@@ -0,0 +1,3 @@
+-- Capped status for placing players into sets; when null, players from ₹75L up count as capped
+alter table players
+  add column if not exists is_capped boolean;
@@ -0,0 +1,7 @@
+-- Short name of the franchise a player last played for (e.g. 'CSK'); that team may hold a right to match
+alter table players
+  add column if not exists previous_team text;
+
+-- Right-to-match offer on the current player (see RtmState); null while bidding is open
+alter table auction_state
+  add column if not exists rtm jsonb;
@@ -0,0 +1,81 @@
+-- Players each team keeps before the auction opens; picks are priced in created_at order down the room's slabs
+create table if not exists auction_retentions (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  participant_id uuid not null references auction_participants(id) on delete cascade,
+  player_id text not null,
+  created_at timestamptz not null default now(),
+  unique (room_id, player_id)
+);
+
+create index if not exists auction_retentions_room_id_idx on auction_retentions (room_id);
+
+alter table auction_retentions enable row level security;
+
+create policy "Room members can read retentions" on auction_retentions
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = auction_retentions.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_retentions.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+-- Whether a team may retain a player: a former player of theirs, or one the auctioneer listed for
+-- them in settings.retentionLists (the same rule as isRetentionCandidate in src/lib/auctionEngine.ts)
+create or replace function is_retention_candidate(p_participant_id uuid, p_player_id text) returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1
+    from auction_participants p
+    join auction_rooms r on r.id = p.auction_room_id
+    where p.id = p_participant_id
+      and (
+        exists (
+          select 1 from (
+            select previous_team from players where id::text = p_player_id
+            union all
+            select previous_team from room_players where room_id = r.id and id::text = p_player_id
+          ) pl
+          where lower(trim(pl.previous_team)) in (lower(p.team_short_name), lower(p.team_id::text))
+        )
+        or exists (
+          select 1 from jsonb_each(coalesce(r.settings -> 'retentionLists', '{}'::jsonb)) as l(code, player_ids)
+          where lower(trim(l.code)) in (lower(p.team_short_name), lower(p.team_id::text))
+            and jsonb_typeof(l.player_ids) = 'array'
+            and l.player_ids ? p_player_id
+        )
+      )
+  );
+end;
+$$;
+
+create policy "Teams manage their own retentions" on auction_retentions
+  for all using (
+    exists (
+      select 1 from auction_participants p
+      join auction_rooms r on r.id = p.auction_room_id
+      where p.id = auction_retentions.participant_id and p.user_id = auth.uid() and r.status = 'waiting'
+    )
+  )
+  with check (
+    exists (
+      select 1 from auction_participants p
+      join auction_rooms r on r.id = p.auction_room_id
+      where p.id = auction_retentions.participant_id
+        and p.auction_room_id = auction_retentions.room_id
+        and p.user_id = auth.uid()
+        and r.status = 'waiting'
+    )
+    and is_retention_candidate(auction_retentions.participant_id, auction_retentions.player_id)
+  );
+
+alter publication supabase_realtime add table auction_retentions;
@@ -0,0 +1,29 @@
+-- Auctioneer corrections (undone sales and unsold markings), readable by everyone in the room
+-- Rows are only written by the server with the service role
+create table if not exists auction_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  actor_id uuid not null,
+  action text not null,
+  player_id text,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists auction_audit_log_room_id_idx on auction_audit_log (room_id, created_at);
+
+alter table auction_audit_log enable row level security;
+
+create policy "Room members can read the audit log" on auction_audit_log
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = auction_audit_log.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_audit_log.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+alter publication supabase_realtime add table auction_audit_log;
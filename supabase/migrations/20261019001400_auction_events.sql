@@ -0,0 +1,43 @@
+-- Append-only log of every engine event applied to a room's auction_state (see src/lib/auctionLog.ts)
+-- Replaying it in seq order rebuilds the state, so history survives the state row being overwritten
+create table if not exists auction_events (
+  seq bigint generated always as identity primary key,
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  type text not null,
+  event jsonb not null,
+  player_id text,
+  -- null for automatic steps (auto-advance, timeouts)
+  actor_id uuid,
+  -- server time the event was applied at; replay evaluates the event at this time
+  occurred_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists auction_events_room_seq_idx on auction_events (room_id, seq);
+
+-- Entries can never be edited. There are no insert or delete policies: only the server appends
+-- entries, with the service role, and only deleting the room removes them
+create or replace function prevent_auction_event_update() returns trigger
+language plpgsql as $$
+begin
+  raise exception 'auction_events is append-only';
+end;
+$$;
+
+create trigger auction_events_append_only
+  before update on auction_events
+  for each row execute function prevent_auction_event_update();
+
+alter table auction_events enable row level security;
+
+create policy "Room members can read the event log" on auction_events
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = auction_events.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_events.room_id and r.creator_id = auth.uid()
+    )
+  );
@@ -0,0 +1,37 @@
+-- Players uploaded for a single room (settings.playerPool = { source: 'csv' }); base prices in rupees, as in players
+create table if not exists room_players (
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  id uuid not null default gen_random_uuid(),
+  name text not null,
+  role text not null,
+  country text,
+  base_price bigint not null,
+  description text,
+  is_overseas boolean not null default false,
+  is_capped boolean,
+  previous_team text,
+  created_at timestamptz not null default now(),
+  primary key (room_id, id)
+);
+
+alter table room_players enable row level security;
+
+create policy "Room members can read room players" on room_players
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = room_players.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = room_players.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+create policy "Room creators manage room players before the auction" on room_players
+  for all using (
+    exists (
+      select 1 from auction_rooms r
+      where r.id = room_players.room_id and r.creator_id = auth.uid() and r.status = 'waiting'
+    )
+  );
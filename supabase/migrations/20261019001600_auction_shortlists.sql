@@ -0,0 +1,23 @@
+-- Players each user has starred in a room, with a priority, a planned maximum (in lakhs) and notes; private to the user
+create table if not exists auction_shortlists (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  player_id text not null,
+  priority smallint not null default 2 check (priority between 1 and 3),
+  max_price numeric check (max_price is null or max_price >= 0),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (room_id, user_id, player_id)
+);
+
+create index if not exists auction_shortlists_room_user_idx on auction_shortlists (room_id, user_id);
+
+alter table auction_shortlists enable row level security;
+
+create policy "Users manage their own shortlist" on auction_shortlists
+  for all using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter publication supabase_realtime add table auction_shortlists;
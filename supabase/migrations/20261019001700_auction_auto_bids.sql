@@ -0,0 +1,25 @@
+-- Proxy ceilings: the server answers rival bids on a team's behalf up to max_amount (in lakhs)
+-- Only the owning user can read a ceiling; rows are written by the server with the service role
+create table if not exists auction_auto_bids (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  participant_id uuid not null references auction_participants(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  player_id text not null,
+  max_amount numeric not null check (max_amount > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (room_id, participant_id, player_id)
+);
+
+create index if not exists auction_auto_bids_room_player_idx on auction_auto_bids (room_id, player_id);
+
+alter table auction_auto_bids enable row level security;
+
+create policy "Users can read their own auto-bid ceilings" on auction_auto_bids
+  for select using (user_id = auth.uid());
+
+alter publication supabase_realtime add table auction_auto_bids;
+
+-- Bid history labels the bids the server placed from a ceiling
+alter table auction_bids add column if not exists is_auto_bid boolean not null default false;
@@ -0,0 +1,14 @@
+-- Computer-controlled franchises: participants with no user behind them
+-- The auctioneer adds them while the room is waiting; the server places their bids through the normal rules
+alter table auction_participants alter column user_id drop not null;
+
+-- A bot's bids have no user behind them either
+alter table auction_bids alter column bidder_id drop not null;
+
+alter table auction_participants add column if not exists is_bot boolean not null default false;
+
+alter table auction_participants add column if not exists bot_personality text
+  check (bot_personality is null or bot_personality in ('aggressive', 'balanced', 'value_hunter'));
+
+alter table auction_participants add constraint auction_participants_bot_user_check
+  check ((is_bot and user_id is null and bot_personality is not null) or (not is_bot and user_id is not null));
@@ -0,0 +1,90 @@
+-- Signed-in users watching a room without a franchise; read-only, counted live in the room header
+-- A spectator keeps last_seen_at fresh while the room is open, so closed tabs drop out of the count
+create table if not exists auction_spectators (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  unique (room_id, user_id)
+);
+
+create index if not exists auction_spectators_room_seen_idx on auction_spectators (room_id, last_seen_at);
+
+alter table auction_spectators enable row level security;
+
+-- Whether the signed-in user is watching a room; security definer so the select policy below can
+-- look at auction_spectators without running into its own policy
+create or replace function is_room_spectator(p_room_id uuid) returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  return exists (
+    select 1 from auction_spectators s
+    where s.room_id = p_room_id and s.user_id = auth.uid()
+  );
+end;
+$$;
+
+-- A room's members and its other spectators can see who is watching it (co-owners are added in 20261019002000)
+create policy "Room members and spectators can see who is watching" on auction_spectators
+  for select using (
+    user_id = auth.uid()
+    or is_room_spectator(room_id)
+    or exists (
+      select 1 from auction_participants p
+      where p.auction_room_id = auction_spectators.room_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_spectators.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+-- Only rooms that allow spectators (settings.allowSpectators not false, and not practice rooms)
+create policy "Users can watch rooms that allow spectators" on auction_spectators
+  for insert with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from auction_rooms r
+      where r.id = auction_spectators.room_id
+        and coalesce((r.settings ->> 'allowSpectators')::boolean, true)
+        and not coalesce((r.settings ->> 'practice')::boolean, false)
+    )
+  );
+
+create policy "Spectators can keep their own row fresh" on auction_spectators
+  for update using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from auction_rooms r
+      where r.id = auction_spectators.room_id
+        and coalesce((r.settings ->> 'allowSpectators')::boolean, true)
+        and not coalesce((r.settings ->> 'practice')::boolean, false)
+    )
+  );
+
+-- Spectators leave on their own; the auctioneer clears everyone when turning spectators off
+create policy "Spectators and the auctioneer can remove spectators" on auction_spectators
+  for delete using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from auction_rooms r
+      where r.id = auction_spectators.room_id and r.creator_id = auth.uid()
+    )
+  );
+
+alter publication supabase_realtime add table auction_spectators;
+
+-- Spectators see an uploaded player pool like the room's members do
+create policy "Spectators can read room players" on room_players
+  for select using (
+    exists (
+      select 1 from auction_spectators s
+      where s.room_id = room_players.room_id and s.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,181 @@
+-- Co-owners: extra users managing a franchise alongside its primary owner (auction_participants.user_id)
+-- They bid for the team, share its purse and squad, and see its private strategy chat
+-- Rows are written by the server with the service role; only the primary owner can remove a co-owner
+create table if not exists auction_co_owners (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  participant_id uuid not null references auction_participants(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  added_at timestamptz not null default now(),
+  unique (room_id, user_id)
+);
+
+create index if not exists auction_co_owners_participant_idx on auction_co_owners (participant_id);
+
+-- At most three co-owners per team (MAX_CO_OWNERS_PER_TEAM in src/types/auction.ts). The team's
+-- participant row is locked first, so two invites accepted at the same moment are counted one after
+-- the other and the second one over the limit is refused
+create or replace function enforce_co_owner_limit() returns trigger
+language plpgsql as $$
+begin
+  perform 1 from auction_participants p where p.id = new.participant_id for update;
+
+  if (select count(*) from auction_co_owners c where c.participant_id = new.participant_id) >= 3 then
+    raise exception 'A franchise can have at most 3 co-owners' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger auction_co_owners_limit
+  before insert on auction_co_owners
+  for each row execute function enforce_co_owner_limit();
+
+alter table auction_co_owners enable row level security;
+
+create policy "Signed-in users can see a room's co-owners" on auction_co_owners
+  for select using (auth.uid() is not null);
+
+alter publication supabase_realtime add table auction_co_owners;
+
+-- The primary owner's current invite code; a new invite replaces it, so old links stop working
+create table if not exists auction_co_owner_invites (
+  participant_id uuid primary key references auction_participants(id) on delete cascade,
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  code text not null unique,
+  created_at timestamptz not null default now()
+);
+
+alter table auction_co_owner_invites enable row level security;
+
+create policy "Primary owners can read their invite" on auction_co_owner_invites
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.id = auction_co_owner_invites.participant_id and p.user_id = auth.uid()
+    )
+  );
+
+-- Team-only strategy chat, readable and writable by the primary owner and co-owners
+create table if not exists auction_team_messages (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references auction_rooms(id) on delete cascade,
+  participant_id uuid not null references auction_participants(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  message text not null check (char_length(message) between 1 and 500),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists auction_team_messages_team_idx on auction_team_messages (participant_id, created_at);
+
+alter table auction_team_messages enable row level security;
+
+create policy "Team members can read their chat" on auction_team_messages
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.id = auction_team_messages.participant_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_co_owners c
+      where c.participant_id = auction_team_messages.participant_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Team members post to their chat" on auction_team_messages
+  for insert with check (
+    user_id = auth.uid()
+    and (
+      exists (
+        select 1 from auction_participants p
+        where p.id = auction_team_messages.participant_id and p.user_id = auth.uid()
+      )
+      or exists (
+        select 1 from auction_co_owners c
+        where c.participant_id = auction_team_messages.participant_id and c.user_id = auth.uid()
+      )
+    )
+  );
+
+alter publication supabase_realtime add table auction_team_messages;
+
+-- Co-owners count as room members wherever the primary owner does
+create policy "Co-owners can read nominations" on auction_nominations
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = auction_nominations.room_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners manage their team's nominations" on auction_nominations
+  for all using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.participant_id = auction_nominations.participant_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners can read retentions" on auction_retentions
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = auction_retentions.room_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners manage their team's retentions" on auction_retentions
+  for all using (
+    exists (
+      select 1 from auction_co_owners c
+      join auction_rooms r on r.id = c.room_id
+      where c.participant_id = auction_retentions.participant_id and c.user_id = auth.uid() and r.status = 'waiting'
+    )
+  );
+
+create policy "Co-owners can read the audit log" on auction_audit_log
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = auction_audit_log.room_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners can read the event log" on auction_events
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = auction_events.room_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners can see who is watching" on auction_spectators
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = auction_spectators.room_id and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Co-owners can read room players" on room_players
+  for select using (
+    exists (
+      select 1 from auction_co_owners c
+      where c.room_id = room_players.room_id and c.user_id = auth.uid()
+    )
+  );
+
+-- A team has one auto-bid ceiling per player, shared by its primary owner and co-owners:
+-- any of them can see it, and setting a new one replaces it
+create policy "Team members can read their team's auto-bid ceiling" on auction_auto_bids
+  for select using (
+    exists (
+      select 1 from auction_participants p
+      where p.id = auction_auto_bids.participant_id and p.user_id = auth.uid()
+    )
+    or exists (
+      select 1 from auction_co_owners c
+      where c.participant_id = auction_auto_bids.participant_id and c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,114 @@
+-- Writes one engine step in a single transaction (see src/lib/auctionServer.ts)
+-- The auction_state row is locked and only changed if every guard column still holds the value the
+-- rules were checked against; the team purse and squad changes, the bid, the queue items, the event
+-- log rows and the audit entry are written in the same transaction, so a refused guard or a failed
+-- write leaves nothing half-applied.
+--
+--   p_guard   columns that must be unchanged, e.g. {"current_player_id": "p1", "current_bid": 40}
+--   p_changes auction_state columns to write
+--   p_teams   [{"id": participant, "budget_change": lakhs, "squad_change": players}], added to the row,
+--             or {"id", "budget_remaining", "squad_size"} to set the values outright (a restore)
+--   p_bid     an auction_bids row to insert as the winning bid (earlier bids on the player stop winning)
+--   p_events  auction_events rows to append, in order
+--   p_room_status  new auction_rooms.status, if it changes
+--   p_queue_items  [{"player_id": "p1", "is_sold": false, "is_current": true}], set on player_queue_items
+--   p_audit   an auction_audit_log row to insert (actor_id, action, player_id, details)
+--
+-- Returns null when a guard no longer holds, otherwise {"bid": the inserted bid or null, "audit": the audit row or null}
+create or replace function apply_auction_transition(
+  p_room_id uuid,
+  p_guard jsonb,
+  p_changes jsonb,
+  p_teams jsonb default '[]'::jsonb,
+  p_bid jsonb default null,
+  p_events jsonb default '[]'::jsonb,
+  p_room_status text default null,
+  p_queue_items jsonb default '[]'::jsonb,
+  p_audit jsonb default null
+) returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_current jsonb;
+  v_guard jsonb;
+  v_columns text;
+  v_bid auction_bids;
+  v_audit auction_audit_log;
+begin
+  select to_jsonb(s) into v_current
+  from auction_state s
+  where s.room_id = p_room_id
+  for update;
+
+  if v_current is null then
+    return null;
+  end if;
+
+  -- Compare through the row type so numbers and timestamps match however the caller wrote them
+  v_guard := to_jsonb(jsonb_populate_record(null::auction_state, p_guard));
+  if exists (
+    select 1 from jsonb_object_keys(p_guard) as g(key)
+    where (v_current -> g.key) is distinct from (v_guard -> g.key)
+  ) then
+    return null;
+  end if;
+
+  select string_agg(format('%I = c.%I', key, key), ', ') into v_columns
+  from jsonb_object_keys(p_changes) as key
+  where key not in ('id', 'room_id');
+
+  if v_columns is not null then
+    execute format(
+      'update auction_state s set %s from jsonb_populate_record(null::auction_state, $1) c where s.room_id = $2',
+      v_columns
+    ) using p_changes, p_room_id;
+  end if;
+
+  update auction_participants p
+  set budget_remaining = coalesce(t.budget_remaining, p.budget_remaining + coalesce(t.budget_change, 0)),
+      squad_size = coalesce(t.squad_size, greatest(0, coalesce(p.squad_size, 0) + coalesce(t.squad_change, 0)))
+  from jsonb_to_recordset(p_teams) as t(id uuid, budget_change numeric, squad_change integer, budget_remaining numeric, squad_size integer)
+  where p.id = t.id and p.auction_room_id = p_room_id;
+
+  if p_bid is not null then
+    insert into auction_bids (room_id, player_id, bidder_id, team_id, bid_amount, is_winning_bid, is_auto_bid)
+    select p_room_id, b.player_id, b.bidder_id, b.team_id, b.bid_amount, true, coalesce(b.is_auto_bid, false)
+    from jsonb_populate_record(null::auction_bids, p_bid) b
+    returning * into v_bid;
+
+    update auction_bids
+    set is_winning_bid = false
+    where room_id = p_room_id and player_id = v_bid.player_id and id <> v_bid.id;
+  end if;
+
+  insert into auction_events (room_id, type, event, player_id, actor_id, occurred_at)
+  select p_room_id, e.type, e.event, e.player_id, e.actor_id, e.occurred_at
+  from jsonb_to_recordset(p_events) as e(type text, event jsonb, player_id text, actor_id uuid, occurred_at timestamptz);
+
+  if p_room_status is not null then
+    update auction_rooms set status = p_room_status where id = p_room_id;
+  end if;
+
+  update player_queue_items q
+  set is_sold = i.is_sold, is_current = i.is_current
+  from jsonb_to_recordset(p_queue_items) as i(player_id text, is_sold boolean, is_current boolean)
+  where q.room_id = p_room_id and q.player_id::text = i.player_id;
+
+  if p_audit is not null then
+    insert into auction_audit_log (room_id, actor_id, action, player_id, details)
+    select p_room_id, a.actor_id, a.action, a.player_id, coalesce(a.details, '{}'::jsonb)
+    from jsonb_populate_record(null::auction_audit_log, p_audit) a
+    returning * into v_audit;
+  end if;
+
+  return jsonb_build_object(
+    'bid', case when v_bid.id is null then null else to_jsonb(v_bid) end,
+    'audit', case when v_audit.id is null then null else to_jsonb(v_audit) end
+  );
+end;
+$$;
+
+-- Only the server calls it, with the service role
+revoke all on function apply_auction_transition(uuid, jsonb, jsonb, jsonb, jsonb, jsonb, text, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function apply_auction_transition(uuid, jsonb, jsonb, jsonb, jsonb, jsonb, text, jsonb, jsonb) to service_role;
@@ -0,0 +1,115 @@
+-- auction_state and auction_participants hold the lot and every team's purse, and auction_bids the
+-- bid history, so only the server writes them, with the service role (see src/lib/auctionServer.ts).
+-- Browsers keep read access.
+
+-- Drop whatever write policies the tables were created with; select policies stay as they are
+do $$
+declare
+  p record;
+begin
+  for p in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public'
+      and tablename in ('auction_state', 'auction_participants', 'auction_bids')
+      and cmd <> 'SELECT'
+  loop
+    execute format('drop policy %I on %I', p.policyname, p.tablename);
+  end loop;
+end;
+$$;
+
+revoke insert, update, delete on auction_state from anon, authenticated;
+revoke insert, update, delete on auction_participants from anon, authenticated;
+revoke insert, update, delete on auction_bids from anon, authenticated;
+
+-- Users still take their own seat when joining, at the room's starting purse with an empty squad;
+-- a practice room is closed to everyone but its creator
+grant insert on auction_participants to authenticated;
+
+create policy "Users join a room at its starting purse" on auction_participants
+  for insert with check (
+    user_id = auth.uid()
+    and not is_bot
+    and coalesce(squad_size, 0) = 0
+    and exists (
+      select 1 from auction_rooms r
+      where r.id = auction_participants.auction_room_id
+        and r.status <> 'completed'
+        and auction_participants.budget_remaining = r.budget_per_team
+        and (not coalesce((r.settings ->> 'practice')::boolean, false) or r.creator_id = auth.uid())
+    )
+  );
+
+-- ...and may switch franchise before the auction starts; no other column is theirs to change
+grant update (team_id) on auction_participants to authenticated;
+
+create policy "Users pick their franchise before the start" on auction_participants
+  for update using (
+    user_id = auth.uid()
+    and exists (
+      select 1 from auction_rooms r
+      where r.id = auction_participants.auction_room_id and r.status = 'waiting'
+    )
+  )
+  with check (user_id = auth.uid());
+
+-- ...and may give up their seat while the room is still waiting
+grant delete on auction_participants to authenticated;
+
+create policy "Users leave a room before the start" on auction_participants
+  for delete using (
+    user_id = auth.uid()
+    and exists (
+      select 1 from auction_rooms r
+      where r.id = auction_participants.auction_room_id and r.status = 'waiting'
+    )
+  );
+
+-- Every room gets its state row when it is created, instead of from the creator's browser
+create or replace function create_auction_state() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into auction_state (
+    room_id, is_active, is_paused, current_player_id, current_player_index, current_bid, base_price,
+    leading_team, current_bidder_id, time_remaining, total_players, player_queue, sold_players, unsold_players
+  )
+  select new.id, false, false, null, 0, 0, 0, null, null, coalesce(new.timer_seconds, 30), 0, '[]'::jsonb, '[]'::jsonb, '[]'::jsonb
+  where not exists (select 1 from auction_state s where s.room_id = new.id);
+
+  return new;
+end;
+$$;
+
+create trigger auction_rooms_create_state
+  after insert on auction_rooms
+  for each row execute function create_auction_state();
+
+-- Ending an auction closes its lot
+create or replace function close_auction_state() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update auction_state set is_active = false, is_paused = true where room_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger auction_rooms_close_state
+  after update of status on auction_rooms
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function close_auction_state();
+
+-- Rooms created before the trigger that never got a state row
+insert into auction_state (
+  room_id, is_active, is_paused, current_player_id, current_player_index, current_bid, base_price,
+  leading_team, current_bidder_id, time_remaining, total_players, player_queue, sold_players, unsold_players
+)
+select r.id, false, false, null, 0, 0, 0, null, null, coalesce(r.timer_seconds, 30), 0, '[]'::jsonb, '[]'::jsonb, '[]'::jsonb
+from auction_rooms r
+where not exists (select 1 from auction_state s where s.room_id = r.id);